@@ -0,0 +1,101 @@
+import dotenv from "dotenv";
+import express from "express";
+import path from "path";
+import { createServer as createViteServer } from "vite";
+import { DEFAULT_BLOCKED_OUTPUT_PATTERNS, parseBlockedPattern } from "./src/lib/guardrails";
+import { PREWARM_LINES } from "./src/lib/phrases";
+import { AudioCache } from "./server/audioCache";
+import { AuthStore } from "./server/authStore";
+import { ConfigStore } from "./server/configStore";
+import { openDatabase } from "./server/db";
+import { KnowledgeStore } from "./server/knowledgeStore";
+import { PersonaStore } from "./server/personaStore";
+import { RESTRICTED_LINES } from "./server/restrictedContent";
+import { createAudioCacheRouter } from "./server/routes/audioCache";
+import { createAuthRouter } from "./server/routes/auth";
+import { createChatRouter } from "./server/routes/chat";
+import { createConfigRouter } from "./server/routes/config";
+import { createKnowledgeRouter } from "./server/routes/knowledge";
+import { createPersonaRouter } from "./server/routes/personas";
+import { createRestrictedRouter } from "./server/routes/restricted";
+import { createSessionRouter, createSettingsRouter } from "./server/routes/sessions";
+import { createUsageRouter } from "./server/routes/usage";
+import { SessionStore } from "./server/sessionStore";
+import { UsageStore } from "./server/usageStore";
+import { attachVoiceSocket } from "./server/voiceSocket";
+
+dotenv.config({ path: [".env.local", ".env"], quiet: true });
+
+async function startServer() {
+  // Imported after dotenv so the provider sees the API key
+  const { glados } = await import("./src/services/gladosService");
+
+  const db = openDatabase();
+  const sessions = new SessionStore(db);
+  const personas = new PersonaStore(db);
+  const auth = new AuthStore(db);
+  const adminPassword = auth.seed({ adminPassword: process.env.ADMIN_PASSWORD || undefined, demo: process.env.DEMO_ACCOUNTS === "true" });
+  if (adminPassword) console.log(`Created the admin account "glados" with password ${adminPassword}. It is not shown again; change it with PASSWD.`);
+  sessions.claimUnowned();
+  const audioCache = new AudioCache(db, {
+    maxBytes: (Number(process.env.TTS_CACHE_MAX_MB) || 64) * 1024 * 1024,
+    maxEntries: Number(process.env.TTS_CACHE_MAX_ENTRIES) || 1000,
+  });
+  glados.setSpeechCache(audioCache);
+  const usage = new UsageStore(db, Number(process.env.DAILY_TOKEN_BUDGET) || undefined);
+  glados.setUsageSink(usage);
+  const blockedPattern = parseBlockedPattern(process.env.GUARDRAIL_BLOCKED_PATTERN);
+  if (blockedPattern) glados.setGuardrails({ blockedOutput: [...DEFAULT_BLOCKED_OUTPUT_PATTERNS, blockedPattern] });
+  // Applies the saved models and voice before anything talks to the provider
+  const config = new ConfigStore(sessions, glados);
+  const knowledge = new KnowledgeStore(db, glados);
+  glados.setKnowledgeBase(knowledge);
+
+  const app = express();
+  const PORT = Number(process.env.PORT) || 3000;
+
+  // Chat requests carry base64 attachments
+  app.use(express.json({ limit: "40mb" }));
+  app.use("/api/tts/cache", createAudioCacheRouter(audioCache, glados, personas, auth));
+  app.use("/api/auth", createAuthRouter(auth));
+  app.use("/api", createChatRouter(glados, auth));
+  app.use("/api/sessions", createSessionRouter(sessions, personas, auth));
+  app.use("/api/personas", createPersonaRouter(personas, auth));
+  app.use("/api/restricted", createRestrictedRouter(auth));
+  app.use("/api/settings", createSettingsRouter(sessions, auth));
+  app.use("/api/usage", createUsageRouter(usage));
+  app.use("/api/knowledge", createKnowledgeRouter(knowledge, auth));
+  app.use("/api/config", createConfigRouter(config, auth));
+
+  if (process.env.NODE_ENV !== "production") {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: "spa",
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), "dist");
+    app.use(express.static(distPath));
+    app.get("*", (_req, res) => {
+      res.sendFile(path.join(distPath, "index.html"));
+    });
+  }
+
+  const server = app.listen(PORT, "0.0.0.0", () => {
+    console.log(`Server running on http://localhost:${PORT} (provider: ${glados.providerName})`);
+  });
+  attachVoiceSocket(server, glados);
+
+  // Documents added while the embedding model was unavailable, or under a different one
+  knowledge.reindex().then(embedded => {
+    if (embedded) console.log(`Knowledge base: embedded ${embedded} chunks`);
+  });
+
+  if (process.env.TTS_PREWARM === "true") {
+    glados.prewarmSpeech([...PREWARM_LINES, ...RESTRICTED_LINES], personas.voices()).then(({ cached, generated, failed }) => {
+      console.log(`TTS cache prewarm: ${generated} generated, ${cached} already cached${failed ? ", stopped after a failure" : ""}`);
+    });
+  }
+}
+
+startServer();
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AudioCache } from "./audioCache";
+import { openDatabase, type Db } from "./db";
+
+// 8 base64 characters are 6 bytes of audio
+const AUDIO = "AAAAAAAA";
+
+const key = (text: string) => ({ text, voice: "Kore", model: "tts" });
+
+let db: Db;
+
+beforeEach(() => {
+  db = openDatabase(":memory:");
+  // One millisecond per step, so last use is never a tie
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function tick() {
+  vi.advanceTimersByTime(1);
+}
+
+describe("AudioCache", () => {
+  it("finds audio whatever the case and spacing of the text", () => {
+    const cache = new AudioCache(db);
+    cache.set(key("The cake is a lie."), AUDIO);
+    expect(cache.get(key("  the CAKE  is a lie. "))).toBe(AUDIO);
+    expect(cache.get({ ...key("The cake is a lie."), voice: "Puck" })).toBeUndefined();
+  });
+
+  it("evicts the least recently used entry beyond the entry limit", () => {
+    const cache = new AudioCache(db, { maxEntries: 2 });
+    cache.set(key("one"), AUDIO);
+    tick();
+    cache.set(key("two"), AUDIO);
+    tick();
+    cache.get(key("one"));
+    tick();
+    cache.set(key("three"), AUDIO);
+
+    expect(cache.get(key("two"))).toBeUndefined();
+    expect(cache.get(key("one"))).toBe(AUDIO);
+    expect(cache.get(key("three"))).toBe(AUDIO);
+  });
+
+  it("evicts until the entries fit the byte limit", () => {
+    const cache = new AudioCache(db, { maxBytes: 12 });
+    for (const text of ["one", "two", "three"]) {
+      cache.set(key(text), AUDIO);
+      tick();
+    }
+    expect(cache.get(key("one"))).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ entries: 2, bytes: 12 });
+  });
+
+  it("doesn't store audio larger than the whole cache", () => {
+    const cache = new AudioCache(db, { maxBytes: 4 });
+    cache.set(key("one"), AUDIO);
+    expect(cache.stats().entries).toBe(0);
+  });
+
+  it("counts hits", () => {
+    const cache = new AudioCache(db);
+    cache.set(key("one"), AUDIO);
+    cache.get(key("one"));
+    cache.get(key("one"));
+    expect(cache.stats()).toMatchObject({ entries: 1, bytes: 6, hits: 2 });
+  });
+});
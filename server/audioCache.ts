@@ -0,0 +1,90 @@
+import { createHash } from "crypto";
+import type { SpeechCache, SpeechCacheKey } from "../src/services/gladosService";
+import type { Db } from "./db";
+
+export interface AudioCacheLimits {
+  maxBytes: number;
+  maxEntries: number;
+}
+
+export interface AudioCacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+  limits: AudioCacheLimits;
+}
+
+const DEFAULT_LIMITS: AudioCacheLimits = {
+  maxBytes: 64 * 1024 * 1024,
+  maxEntries: 1000,
+};
+
+// Case, spacing and Unicode form don't change what gets spoken
+function normalize(value: string | undefined): string {
+  return (value ?? "").normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * SQLite-backed TTS cache with least-recently-used eviction. Entries are
+ * keyed on the normalized text, personality hint, voice and model, so a
+ * voice or model change never replays stale audio.
+ */
+export class AudioCache implements SpeechCache {
+  private limits: AudioCacheLimits;
+
+  constructor(private db: Db, limits: Partial<AudioCacheLimits> = {}) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  private keyOf({ text, personalityHint, voice, model }: SpeechCacheKey): string {
+    return createHash("sha256")
+      .update(JSON.stringify([normalize(text), normalize(personalityHint), voice, model]))
+      .digest("hex");
+  }
+
+  get(key: SpeechCacheKey): string | undefined {
+    const hash = this.keyOf(key);
+    const row = this.db.prepare("SELECT audio FROM audio_cache WHERE key = ?").get(hash) as { audio: string } | undefined;
+    if (!row) return undefined;
+    this.db.prepare("UPDATE audio_cache SET hits = hits + 1, last_used_at = ? WHERE key = ?").run(Date.now(), hash);
+    return row.audio;
+  }
+
+  set(key: SpeechCacheKey, audioBase64: string) {
+    const bytes = Math.floor(audioBase64.length * 3 / 4);
+    if (bytes > this.limits.maxBytes) return;
+
+    const now = Date.now();
+    this.db.prepare(`
+      INSERT INTO audio_cache (key, text, personality_hint, voice, model, audio, bytes, created_at, last_used_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (key) DO UPDATE SET audio = excluded.audio, bytes = excluded.bytes, last_used_at = excluded.last_used_at
+    `).run(this.keyOf(key), key.text, key.personalityHint ?? null, key.voice, key.model, audioBase64, bytes, now, now);
+    this.evict();
+  }
+
+  // Drops least recently used entries until both limits are met
+  private evict() {
+    const rows = this.db.prepare("SELECT key, bytes FROM audio_cache ORDER BY last_used_at DESC").all() as { key: string; bytes: number }[];
+    let total = 0;
+    const stale = rows.filter((row, i) => {
+      total += row.bytes;
+      return i >= this.limits.maxEntries || total > this.limits.maxBytes;
+    });
+    if (stale.length === 0) return;
+
+    const remove = this.db.prepare("DELETE FROM audio_cache WHERE key = ?");
+    this.db.transaction(() => stale.forEach(row => remove.run(row.key)))();
+  }
+
+  stats(): AudioCacheStats {
+    const row = this.db.prepare(
+      "SELECT COUNT(*) AS entries, COALESCE(SUM(bytes), 0) AS bytes, COALESCE(SUM(hits), 0) AS hits FROM audio_cache"
+    ).get() as Omit<AudioCacheStats, 'limits'>;
+    return { ...row, limits: this.limits };
+  }
+
+  clear() {
+    this.db.prepare("DELETE FROM audio_cache").run();
+  }
+}
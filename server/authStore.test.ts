@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Clearance } from "../src/types";
+import { AuthError, AuthStore, bearerToken } from "./authStore";
+import { openDatabase, type Db } from "./db";
+
+let db: Db;
+let auth: AuthStore;
+
+beforeEach(() => {
+  db = openDatabase(":memory:");
+  auth = new AuthStore(db);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  db.close();
+});
+
+describe("seed", () => {
+  it("generates the admin password once, for an empty database", () => {
+    const password = auth.seed();
+    expect(password).toMatch(/^[\w-]{16}$/);
+    expect(auth.login("glados", password).account).toEqual({ name: "glados", clearance: "admin" });
+    expect(auth.seed()).toBeUndefined();
+  });
+
+  it("refuses a short admin password", () => {
+    expect(() => auth.seed({ adminPassword: "cake" })).toThrow(AuthError);
+  });
+
+  it("only creates the demo accounts when asked to", () => {
+    auth.seed({ adminPassword: "neurotoxin" });
+    expect(() => auth.login("chell", "portal")).toThrow("Login incorrect.");
+    auth.seed({ demo: true });
+    expect(auth.login("chell", "portal").account.clearance).toBe("subject");
+  });
+
+  it("stores a salted hash, never the password", () => {
+    auth.seed({ adminPassword: "neurotoxin", demo: true });
+    const rows = db.prepare("SELECT salt, password_hash FROM accounts").all() as { salt: string; password_hash: string }[];
+    expect(rows.map(row => row.password_hash)).not.toContain("neurotoxin");
+    expect(new Set(rows.map(row => row.salt)).size).toBe(rows.length);
+  });
+});
+
+describe("login", () => {
+  beforeEach(() => {
+    auth.seed({ adminPassword: "neurotoxin", demo: true });
+  });
+
+  it("gives the same answer for a wrong password and an unknown account", () => {
+    expect(() => auth.login("glados", "cake")).toThrow("Login incorrect.");
+    expect(() => auth.login("wheatley", "cake")).toThrow("Login incorrect.");
+  });
+
+  it("issues a token that stands for the account", () => {
+    const { token } = auth.login("rattmann", "companion");
+    expect(auth.account(token)).toEqual({ name: "rattmann", clearance: "maintenance" });
+    expect(auth.clearance(`Bearer ${token}`)).toBe("maintenance");
+    expect(auth.login("rattmann", "companion").token).not.toBe(token);
+  });
+
+  it("treats requests without a valid token as a visitor's", () => {
+    expect(auth.clearance()).toBe("visitor");
+    expect(auth.clearance("Bearer nonsense")).toBe("visitor");
+  });
+
+  it("lets only an admin SU without the password", () => {
+    const admin = auth.login("glados", "neurotoxin").account;
+    const subject = auth.login("chell", "portal").account;
+    expect(auth.login("rattmann", undefined, admin).account.name).toBe("rattmann");
+    expect(() => auth.login("rattmann", undefined, subject)).toThrow("Login incorrect.");
+    expect(() => auth.login("wheatley", undefined, admin)).toThrow("Login incorrect.");
+  });
+
+  it("ends with a logout or when the login expires", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const first = auth.login("chell", "portal").token;
+    auth.logout(first);
+    expect(auth.account(first)).toBeUndefined();
+
+    const second = auth.login("chell", "portal").token;
+    vi.advanceTimersByTime(12 * 60 * 60 * 1000);
+    expect(auth.account(second)).toBeUndefined();
+  });
+});
+
+describe("visitor", () => {
+  it("creates an anonymous visitor account the browser can log in to again", () => {
+    const pass = auth.visitor();
+    expect(pass.account).toEqual({ name: expect.stringMatching(/^visitor-[0-9a-f]{12}$/), clearance: "visitor" });
+    expect(auth.account(pass.token)).toEqual(pass.account);
+    expect(auth.login(pass.account.name, pass.password).account).toEqual(pass.account);
+    expect(auth.visitor().account.name).not.toBe(pass.account.name);
+  });
+});
+
+describe("addAccount", () => {
+  it("creates an account that can log in with its clearance", () => {
+    expect(auth.addAccount("wheatley", "subject", "moron-core")).toEqual({ name: "wheatley", clearance: "subject" });
+    expect(auth.login("wheatley", "moron-core").account.clearance).toBe("subject");
+  });
+
+  it("refuses bad names, taken names, short passwords and unknown clearances", () => {
+    auth.seed({ adminPassword: "neurotoxin" });
+    expect(() => auth.addAccount("GLaDOS", "subject", "moron-core")).toThrow("already exists");
+    expect(() => auth.addAccount("visitor-1", "subject", "moron-core")).toThrow("reserved");
+    expect(() => auth.addAccount("no spaces", "subject", "moron-core")).toThrow(AuthError);
+    expect(() => auth.addAccount("wheatley", "subject", "moron")).toThrow(AuthError);
+    expect(() => auth.addAccount("wheatley", "overlord" as Clearance, "moron-core")).toThrow("Unknown clearance");
+  });
+});
+
+describe("changePassword", () => {
+  it("needs the current password and a long enough new one", () => {
+    auth.seed({ adminPassword: "neurotoxin" });
+    const { token } = auth.login("glados", "neurotoxin");
+    expect(() => auth.changePassword(token, "cake", "morality-core")).toThrow("Current password is incorrect.");
+    expect(() => auth.changePassword(token, "neurotoxin", "cake")).toThrow(AuthError);
+    expect(() => auth.changePassword("nonsense", "neurotoxin", "morality-core")).toThrow("Not logged in.");
+
+    auth.changePassword(token, "neurotoxin", "morality-core");
+    expect(() => auth.login("glados", "neurotoxin")).toThrow("Login incorrect.");
+    expect(auth.login("glados", "morality-core").account.name).toBe("glados");
+  });
+});
+
+describe("bearerToken", () => {
+  it("reads the token of a bearer header only", () => {
+    expect(bearerToken("Bearer abc123")).toBe("abc123");
+    expect(bearerToken("bearer  abc123")).toBe("abc123");
+    expect(bearerToken("Basic abc123")).toBeUndefined();
+    expect(bearerToken()).toBeUndefined();
+  });
+});
@@ -0,0 +1,170 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { CLEARANCE_LEVELS, hasClearance } from "../src/lib/commands";
+import type { Account, Clearance, Login, VisitorPass } from "../src/types";
+import type { Db } from "./db";
+
+// The first account of a new database
+const ADMIN_ACCOUNT = "glados";
+
+// Only created with the demo flag, for trying the clearance levels out locally
+const DEMO_ACCOUNTS: { name: string; clearance: Clearance; password: string }[] = [
+  { name: "chell", clearance: "subject", password: "portal" },
+  { name: "rattmann", clearance: "maintenance", password: "companion" },
+];
+
+// Logins expire after this long and have to be repeated
+const LOGIN_TTL_MS = 12 * 60 * 60 * 1000;
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Letters, digits, _ and -, starting with a letter
+const ACCOUNT_NAME = /^[a-z][\w-]{1,31}$/i;
+
+// Names of the anonymous accounts that keep a visitor's sessions, one per browser
+const VISITOR_PREFIX = "visitor-";
+
+// SU from this clearance doesn't ask for the target's password, like su from root
+const SUPERUSER: Clearance = "admin";
+
+interface AccountRow {
+  name: string;
+  clearance: Clearance;
+  salt: string;
+  password_hash: string;
+}
+
+function toAccount(row: AccountRow): Account {
+  return { name: row.name, clearance: row.clearance };
+}
+
+function hashPassword(password: string, salt: string): Buffer {
+  return scryptSync(password, salt, 64);
+}
+
+// The token of an `Authorization: Bearer <token>` header
+export function bearerToken(authorization?: string): string | undefined {
+  return authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+}
+
+export class AuthError extends Error {}
+
+export interface SeedOptions {
+  adminPassword?: string; // Generated when unset
+  demo?: boolean;         // Also create the demo accounts
+}
+
+/**
+ * Terminal accounts and their logins. Passwords are stored as salted
+ * scrypt hashes and never leave the server; a login is an opaque token
+ * the client sends with every request, and requests without one are
+ * treated as a visitor's.
+ */
+export class AuthStore {
+  constructor(private db: Db) {}
+
+  /**
+   * Creates the admin account when there are no accounts yet, and the
+   * demo accounts that are missing when asked to. Returns the admin
+   * password when it was generated, so it can be shown once.
+   */
+  seed({ adminPassword, demo }: SeedOptions = {}): string | undefined {
+    const { count } = this.db.prepare("SELECT COUNT(*) AS count FROM accounts").get() as { count: number };
+    if (count === 0 && adminPassword && adminPassword.length < MIN_PASSWORD_LENGTH) {
+      throw new AuthError(`The admin password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+    }
+    const generated = count === 0 && !adminPassword ? randomBytes(12).toString("base64url") : undefined;
+    this.db.transaction(() => {
+      if (count === 0) this.create(ADMIN_ACCOUNT, "admin", adminPassword ?? generated!);
+      if (demo) DEMO_ACCOUNTS.filter(({ name }) => !this.row(name)).forEach(({ name, clearance, password }) => this.create(name, clearance, password));
+    })();
+    return generated;
+  }
+
+  /**
+   * Creates an anonymous visitor account and logs it in. The browser keeps
+   * the generated password to log in again once the login has expired, so
+   * a visitor's sessions and settings are kept like anyone else's.
+   */
+  visitor(): VisitorPass {
+    const name = `${VISITOR_PREFIX}${randomBytes(6).toString("hex")}`;
+    const password = randomBytes(18).toString("base64url");
+    this.create(name, "visitor", password);
+    return { ...this.login(name, password), password };
+  }
+
+  // An admin adding an account (USERADD)
+  addAccount(name: string, clearance: Clearance, password: string): Account {
+    if (!ACCOUNT_NAME.test(name)) throw new AuthError("Account names are 2 to 32 letters, digits, _ or -, starting with a letter.");
+    if (name.toLowerCase().startsWith(VISITOR_PREFIX)) throw new AuthError(`Names starting with "${VISITOR_PREFIX}" are reserved.`);
+    if (this.row(name)) throw new AuthError(`Account "${name}" already exists.`);
+    if (password.length < MIN_PASSWORD_LENGTH) throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+    this.create(name, clearance, password);
+    return toAccount(this.row(name)!);
+  }
+
+  private create(name: string, clearance: Clearance, password: string) {
+    if (!CLEARANCE_LEVELS.includes(clearance)) throw new AuthError(`Unknown clearance "${clearance}".`);
+    const salt = randomBytes(16).toString("hex");
+    this.db.prepare("INSERT INTO accounts (name, clearance, salt, password_hash, created_at) VALUES (?, ?, ?, ?, ?)")
+      .run(name, clearance, salt, hashPassword(password, salt).toString("hex"), Date.now());
+  }
+
+  private row(name: string): AccountRow | undefined {
+    return this.db.prepare("SELECT * FROM accounts WHERE name = ?").get(name) as AccountRow | undefined;
+  }
+
+  // Hashes even for an unknown account, so the response time doesn't tell which names exist
+  private verify(row: AccountRow | undefined, password: string): boolean {
+    const expected = row ? Buffer.from(row.password_hash, "hex") : randomBytes(64);
+    const actual = hashPassword(password, row?.salt ?? "");
+    return !!row && timingSafeEqual(expected, actual);
+  }
+
+  // The account a token was issued for, until the login expires
+  account(token?: string): Account | undefined {
+    if (!token) return undefined;
+    const row = this.db.prepare(`
+      SELECT a.* FROM logins l JOIN accounts a ON a.name = l.account
+      WHERE l.token = ? AND l.created_at > ?
+    `).get(token, Date.now() - LOGIN_TTL_MS) as AccountRow | undefined;
+    return row && toAccount(row);
+  }
+
+  // Clearance of the request carrying this Authorization header
+  clearance(authorization?: string): Clearance {
+    return this.account(bearerToken(authorization))?.clearance ?? "visitor";
+  }
+
+  /**
+   * Logs in as `name`. `as`, the account already logged in, skips the
+   * password check when it has superuser clearance (SU).
+   */
+  login(name: string, password: string | undefined, as?: Account): Login {
+    const row = this.row(name);
+    const trusted = !!as && hasClearance(as.clearance, SUPERUSER);
+    if (!(trusted && row) && !this.verify(row, password ?? "")) throw new AuthError("Login incorrect.");
+
+    const token = randomBytes(32).toString("hex");
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM logins WHERE created_at <= ?").run(Date.now() - LOGIN_TTL_MS);
+      this.db.prepare("INSERT INTO logins (token, account, created_at) VALUES (?, ?, ?)").run(token, row!.name, Date.now());
+    })();
+    return { token, account: toAccount(row!) };
+  }
+
+  logout(token: string) {
+    this.db.prepare("DELETE FROM logins WHERE token = ?").run(token);
+  }
+
+  changePassword(token: string, current: string, next: string) {
+    const account = this.account(token);
+    if (!account) throw new AuthError("Not logged in.");
+    const row = this.row(account.name);
+    if (!this.verify(row, current)) throw new AuthError("Current password is incorrect.");
+    if (next.length < MIN_PASSWORD_LENGTH) throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+
+    const salt = randomBytes(16).toString("hex");
+    this.db.prepare("UPDATE accounts SET salt = ?, password_hash = ? WHERE name = ?")
+      .run(salt, hashPassword(next, salt).toString("hex"), account.name);
+  }
+}
@@ -0,0 +1,24 @@
+import { ChamberError, checkAnswer, findChamber, type AnswerKey, type Grade } from "../src/lib/chambers";
+import type { GladosService } from "../src/services/gladosService";
+import type { Clearance } from "../src/types";
+import data from "./data/chambers.json";
+
+// server/data/chambers.json: the answer key of every step, by chamber id and step index
+const ANSWER_KEYS = (data as { chambers: Record<string, AnswerKey[]> }).chambers;
+
+type Grader = Pick<GladosService, "gradeAnswer">;
+
+/**
+ * Marks an answer to step `index` of a chamber the clearance may enter:
+ * against the accepted answers, or by the model against the rubric when
+ * they don't decide it.
+ */
+export async function gradeStep(grader: Grader, chamberId: string, index: number, answer: string, clearance: Clearance, signal?: AbortSignal): Promise<Grade> {
+  const chamber = findChamber(chamberId, clearance);
+  const step = chamber?.steps[index];
+  const key = chamber && ANSWER_KEYS[chamber.id]?.[index];
+  if (!step || !key) throw new ChamberError(`Chamber ${chamberId} has no step ${index + 1}.`);
+  const correct = checkAnswer(step, key, answer);
+  if (correct !== undefined) return { correct, comment: "" };
+  return grader.gradeAnswer({ question: step.prompt, rubric: key.rubric!, answer }, signal);
+}
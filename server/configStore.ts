@@ -0,0 +1,95 @@
+import { CONFIG_KEYS, DEFAULT_PLAYBACK, findConfigKey, validateConfigValue, type ConfigKey } from "../src/lib/config";
+import type { GladosService } from "../src/services/gladosService";
+import type { AvailableModels } from "../src/services/providers";
+import type { ConfigReport, RuntimeConfig } from "../src/types";
+import type { SessionStore } from "./sessionStore";
+
+const SETTINGS_KEY = "config";
+
+// How long the provider's model list is trusted before it is fetched again
+const MODELS_TTL = 5 * 60 * 1000;
+
+// Stored overrides; models are remembered with the provider they belong to
+type StoredConfig = Partial<RuntimeConfig> & { provider?: string };
+
+export class ConfigError extends Error {}
+
+/**
+ * Runtime settings (models, voice, playback). Only values that differ
+ * from the defaults are stored, in the settings table, and the model and
+ * voice settings are applied to the service as soon as they change.
+ */
+export class ConfigStore {
+  private defaults: RuntimeConfig;
+  private overrides: Partial<RuntimeConfig> = {};
+  private models?: { list: AvailableModels; fetchedAt: number };
+
+  constructor(private settings: Pick<SessionStore, "getSetting" | "setSetting">, private glados: GladosService) {
+    this.defaults = { textModel: glados.textModel, speechModel: glados.speechModel ?? "", ...DEFAULT_PLAYBACK };
+
+    // Values were checked when they were set; models saved under another provider don't apply to this one
+    const { provider, ...stored } = settings.getSetting<StoredConfig>(SETTINGS_KEY) ?? {};
+    for (const [name, value] of Object.entries(stored)) {
+      const key = findConfigKey(name);
+      if (!key || (provider !== glados.providerName && key.endsWith("Model"))) continue;
+      const checked = validateConfigValue(key, value);
+      if (!checked.error) this.overrides = { ...this.overrides, [key]: checked.value };
+    }
+    this.apply();
+  }
+
+  current(): RuntimeConfig {
+    return { ...this.defaults, ...this.overrides };
+  }
+
+  report(): ConfigReport {
+    return { provider: this.glados.providerName, config: this.current(), defaults: this.defaults };
+  }
+
+  async availableModels(refresh = false): Promise<AvailableModels> {
+    if (!refresh && this.models && Date.now() - this.models.fetchedAt < MODELS_TTL) return this.models.list;
+    const list = await this.glados.listModels();
+    this.models = { list, fetchedAt: Date.now() };
+    return list;
+  }
+
+  /**
+   * Applies `{ key: value }` changes; null resets a key to its default.
+   * Everything is validated first, so a bad value changes nothing.
+   */
+  async update(patch: unknown): Promise<RuntimeConfig> {
+    if (!patch || typeof patch !== "object" || Array.isArray(patch)) throw new ConfigError("Body must be an object of settings.");
+
+    const next: Partial<RuntimeConfig> = { ...this.overrides };
+    for (const [name, value] of Object.entries(patch)) {
+      const key = findConfigKey(name);
+      if (!key) throw new ConfigError(`Unknown setting "${name}". Settings: ${CONFIG_KEYS.join(", ")}.`);
+      if (value === null) {
+        delete next[key];
+        continue;
+      }
+      const checked = validateConfigValue(key, value, key.endsWith("Model") ? await this.modelsFor(key) : undefined);
+      if (checked.error) throw new ConfigError(checked.error);
+      (next as Record<string, unknown>)[key] = checked.value;
+    }
+
+    this.overrides = next;
+    this.settings.setSetting(SETTINGS_KEY, { ...next, provider: this.glados.providerName });
+    this.apply();
+    return this.current();
+  }
+
+  private async modelsFor(key: ConfigKey): Promise<AvailableModels> {
+    try {
+      return await this.availableModels();
+    } catch (error: any) {
+      throw new ConfigError(`Cannot check ${key}: the provider's model list is unavailable (${error.message || error}).`);
+    }
+  }
+
+  private apply() {
+    const { textModel, speechModel, voice } = this.current();
+    this.glados.setModels({ textModel, speechModel });
+    this.glados.setVoice(voice);
+  }
+}
@@ -0,0 +1,156 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+// Applied in order; PRAGMA user_version records how many have run.
+// Never edit a shipped migration, append a new one instead.
+const MIGRATIONS = [
+`
+CREATE TABLE IF NOT EXISTS personas (
+  id            TEXT PRIMARY KEY,
+  name          TEXT NOT NULL,
+  system_prompt TEXT NOT NULL,
+  created_at    INTEGER NOT NULL,
+  updated_at    INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id          TEXT PRIMARY KEY,
+  title       TEXT NOT NULL,
+  secret_mode INTEGER NOT NULL DEFAULT 0,
+  persona_id  TEXT REFERENCES personas(id) ON DELETE SET NULL,
+  created_at  INTEGER NOT NULL,
+  updated_at  INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+  session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  id         TEXT NOT NULL,
+  position   INTEGER NOT NULL,
+  role       TEXT NOT NULL CHECK (role IN ('user', 'glados')),
+  content    TEXT NOT NULL,
+  timestamp  INTEGER NOT NULL,
+  is_secret  INTEGER NOT NULL DEFAULT 0,
+  is_local   INTEGER NOT NULL DEFAULT 0,
+  meta       TEXT, -- JSON for any other Message fields
+  PRIMARY KEY (session_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS messages_by_position ON messages (session_id, position);
+
+CREATE TABLE IF NOT EXISTS settings (
+  key   TEXT PRIMARY KEY,
+  value TEXT NOT NULL -- JSON
+);
+
+CREATE TABLE IF NOT EXISTS audio_cache (
+  key              TEXT PRIMARY KEY, -- sha256 of the normalized SpeechCacheKey
+  text             TEXT NOT NULL,
+  personality_hint TEXT,
+  voice            TEXT NOT NULL,
+  model            TEXT NOT NULL,
+  audio            TEXT NOT NULL,    -- base64 PCM
+  bytes            INTEGER NOT NULL,
+  hits             INTEGER NOT NULL DEFAULT 0,
+  created_at       INTEGER NOT NULL,
+  last_used_at     INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS audio_cache_by_last_use ON audio_cache (last_used_at);
+`,
+`
+ALTER TABLE personas ADD COLUMN tts_style TEXT NOT NULL DEFAULT '';
+ALTER TABLE personas ADD COLUMN voice     TEXT NOT NULL DEFAULT 'Zephyr';
+ALTER TABLE personas ADD COLUMN color     TEXT NOT NULL DEFAULT '242, 125, 38';
+ALTER TABLE personas ADD COLUMN greeting  TEXT NOT NULL DEFAULT '';
+ALTER TABLE personas ADD COLUMN built_in  INTEGER NOT NULL DEFAULT 0;
+`,
+`
+CREATE TABLE IF NOT EXISTS usage_daily (
+  date            TEXT PRIMARY KEY, -- YYYY-MM-DD, UTC
+  requests        INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens   INTEGER NOT NULL DEFAULT 0,
+  response_tokens INTEGER NOT NULL DEFAULT 0
+);
+`,
+`
+ALTER TABLE sessions ADD COLUMN memory TEXT; -- JSON ConversationMemory
+`,
+`
+CREATE TABLE IF NOT EXISTS documents (
+  id         TEXT PRIMARY KEY,
+  name       TEXT NOT NULL UNIQUE,
+  checksum   TEXT NOT NULL,            -- sha256 of the content, so re-adding an unchanged file is a no-op
+  bytes      INTEGER NOT NULL,
+  restricted INTEGER NOT NULL DEFAULT 0,
+  built_in   INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS chunks (
+  document_id     TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  position        INTEGER NOT NULL,
+  text            TEXT NOT NULL,
+  embedding       TEXT,                -- JSON number[]
+  embedding_model TEXT,
+  PRIMARY KEY (document_id, position)
+);
+`,
+`
+ALTER TABLE sessions ADD COLUMN filesystem TEXT; -- JSON FilesystemState
+`,
+`
+CREATE TABLE IF NOT EXISTS accounts (
+  name          TEXT PRIMARY KEY COLLATE NOCASE,
+  clearance     TEXT NOT NULL,
+  salt          TEXT NOT NULL, -- hex
+  password_hash TEXT NOT NULL, -- hex scrypt of the password with the salt
+  created_at    INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS logins (
+  token      TEXT PRIMARY KEY,
+  account    TEXT NOT NULL REFERENCES accounts(name) ON DELETE CASCADE,
+  created_at INTEGER NOT NULL
+);
+
+-- Clearance now comes from the login rather than the session
+ALTER TABLE sessions DROP COLUMN secret_mode;
+ALTER TABLE documents ADD COLUMN clearance TEXT NOT NULL DEFAULT 'visitor';
+UPDATE documents SET clearance = 'maintenance' WHERE restricted = 1;
+ALTER TABLE documents DROP COLUMN restricted;
+`,
+`
+-- Sessions and settings belong to an account. Those from before accounts existed are
+-- left unowned here and claimed by the first admin once it is seeded (SessionStore.claimUnowned)
+ALTER TABLE sessions ADD COLUMN owner TEXT REFERENCES accounts(name) ON DELETE CASCADE;
+
+CREATE TABLE IF NOT EXISTS account_settings (
+  account TEXT NOT NULL REFERENCES accounts(name) ON DELETE CASCADE,
+  key     TEXT NOT NULL,
+  value   TEXT NOT NULL, -- JSON
+  PRIMARY KEY (account, key)
+);
+`,
+];
+
+function migrate(db: Database.Database) {
+  const version = db.pragma("user_version", { simple: true }) as number;
+  MIGRATIONS.slice(version).forEach((sql, i) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${version + i + 1}`);
+    })();
+  });
+}
+
+export type Db = Database.Database;
+
+export function openDatabase(file = process.env.DATABASE_PATH || "data/glados.db"): Db {
+  if (file !== ":memory:") fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  migrate(db);
+  return db;
+}
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { openDatabase, type Db } from "./db";
+import { KnowledgeStore } from "./knowledgeStore";
+
+let db: Db;
+let store: KnowledgeStore;
+
+beforeEach(() => {
+  // Without an embedder every search is BM25
+  db = openDatabase(":memory:");
+  store = new KnowledgeStore(db);
+});
+
+// Added documents are open to visitors; this raises one the way a built-in file above visitor clearance is stored
+async function addRestricted(name: string, content: string) {
+  const document = await store.add({ name, content });
+  db.prepare("UPDATE documents SET clearance = 'maintenance' WHERE id = ?").run(document.id);
+  return document;
+}
+
+describe("search", () => {
+  it("finds the passages that mention the query", async () => {
+    await store.add({ name: "cake.md", content: "The zorblax cake is baked at 4000 degrees." });
+    await store.add({ name: "turrets.md", content: "Turrets sing in the quxwell chamber." });
+    const passages = await store.search("zorblax", { clearance: "visitor", limit: 4 });
+    expect(passages.map(p => p.name)).toEqual(["cake.md"]);
+    expect(passages[0].text).toContain("4000 degrees");
+  });
+
+  it("leaves out documents above the clearance", async () => {
+    await store.add({ name: "public.md", content: "Zorblax storage is full." });
+    await addRestricted("vault.md", "Zorblax vents open at dawn.");
+
+    const visitor = await store.search("zorblax", { clearance: "visitor", limit: 4 });
+    expect(visitor.map(p => p.name)).toEqual(["public.md"]);
+    const maintenance = await store.search("zorblax", { clearance: "maintenance", limit: 4 });
+    expect(maintenance.map(p => p.name).sort()).toEqual(["public.md", "vault.md"]);
+  });
+
+  it("returns at most `limit` passages, best first", async () => {
+    await store.add({ name: "once.md", content: "Zorblax appears once among many other unrelated words here." });
+    await store.add({ name: "twice.md", content: "Zorblax, zorblax." });
+    await store.add({ name: "thrice.md", content: "Zorblax zorblax zorblax." });
+    const passages = await store.search("zorblax", { clearance: "visitor", limit: 2 });
+    expect(passages.map(p => p.name)).toEqual(["thrice.md", "twice.md"]);
+  });
+});
+
+describe("list", () => {
+  it("shows only the documents readable at the clearance", async () => {
+    const document = await addRestricted("vault.md", "Zorblax vents open at dawn.");
+    expect(store.list("visitor").some(d => d.id === document.id)).toBe(false);
+    expect(store.list("admin").find(d => d.id === document.id)).toMatchObject({ name: "vault.md", clearance: "maintenance" });
+  });
+});
+
+describe("add", () => {
+  it("rejects files that aren't text", async () => {
+    await expect(store.add({ name: "core.exe", content: "MZ" })).rejects.toThrow("only .md");
+    await expect(store.add({ name: "empty.md", content: "  " })).rejects.toThrow("file is empty");
+  });
+});
@@ -0,0 +1,205 @@
+import { createHash, randomUUID } from "crypto";
+import { CLEARANCE_LEVELS, hasClearance } from "../src/lib/commands";
+import type { GladosService, KnowledgeBase } from "../src/services/gladosService";
+import { bm25Scores, chunkText, cosineSimilarity, isKnowledgeFile, KNOWLEDGE_EXTENSIONS, MAX_DOCUMENT_BYTES, type Passage } from "../src/services/knowledge";
+import type { Clearance, KnowledgeDocument } from "../src/types";
+import type { Db } from "./db";
+import { FACILITY_FILES } from "./restrictedContent";
+
+type Embedder = Pick<GladosService, "embed" | "embeddingModel">;
+
+// Chunks per embedding request
+const EMBED_BATCH = 50;
+
+// Passages less similar to the query than this are left out
+const MIN_SIMILARITY = 0.5;
+
+interface DocumentRow {
+  id: string;
+  name: string;
+  checksum: string;
+  bytes: number;
+  clearance: Clearance;
+  built_in: number;
+  created_at: number;
+  chunk_count: number;
+  embedded_count: number;
+}
+
+interface ChunkRow {
+  document_id: string;
+  position: number;
+  name: string;
+  text: string;
+  embedding: string | null;
+  embedding_model: string | null;
+}
+
+function toDocument(row: DocumentRow): KnowledgeDocument {
+  return {
+    id: row.id,
+    name: row.name,
+    bytes: row.bytes,
+    chunks: row.chunk_count,
+    embeddedChunks: row.embedded_count,
+    clearance: row.clearance === "visitor" ? undefined : row.clearance,
+    builtIn: !!row.built_in || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+// JSON list of the clearances `clearance` can read, for `clearance IN (SELECT value FROM json_each(?))`
+function readableLevels(clearance: Clearance): string {
+  return JSON.stringify(CLEARANCE_LEVELS.filter(level => hasClearance(clearance, level)));
+}
+
+function checksum(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+export class KnowledgeError extends Error {}
+
+/**
+ * Local document store for retrieval. Documents are split into
+ * overlapping chunks; chunks are embedded when the provider has an
+ * embedding model and searched with BM25 when it doesn't (or until every
+ * chunk has a vector from the current model).
+ *
+ * The files of the seeded filesystem are written on startup as built-in
+ * documents, readable at the clearance of their file.
+ */
+export class KnowledgeStore implements KnowledgeBase {
+  private indexing?: Promise<number>;
+
+  constructor(private db: Db, private embedder?: Embedder) {
+    const files = [...FACILITY_FILES].filter(([, entry]) => entry.type === "file" && entry.content?.trim());
+    this.db.transaction(() => {
+      const ids = files.map(([path, entry]) =>
+        this.write(`builtin:${path}`, path, entry.content!, { clearance: entry.clearance, builtIn: true }));
+      // Built-ins that have since left the manifest
+      const stale = (this.db.prepare("SELECT id FROM documents WHERE built_in = 1").all() as { id: string }[]).filter(row => !ids.includes(row.id));
+      stale.forEach(row => this.db.prepare("DELETE FROM documents WHERE id = ?").run(row.id));
+    })();
+  }
+
+  // Replaces the document named `name` unless its content and flags are unchanged
+  private write(id: string, name: string, content: string, flags: { clearance: Clearance; builtIn: boolean }): string {
+    const sum = checksum(content);
+    const existing = this.db.prepare("SELECT * FROM documents WHERE name = ?").get(name) as DocumentRow | undefined;
+    if (existing && existing.checksum === sum && existing.clearance === flags.clearance && !!existing.built_in === flags.builtIn) {
+      return existing.id;
+    }
+
+    this.db.transaction(() => {
+      if (existing) this.db.prepare("DELETE FROM documents WHERE id = ?").run(existing.id);
+      this.db.prepare(`
+        INSERT INTO documents (id, name, checksum, bytes, clearance, built_in, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(id, name, sum, Buffer.byteLength(content), flags.clearance, flags.builtIn ? 1 : 0, Date.now());
+      const insert = this.db.prepare("INSERT INTO chunks (document_id, position, text) VALUES (?, ?, ?)");
+      chunkText(content).forEach((text, position) => insert.run(id, position, text));
+    })();
+    return id;
+  }
+
+  // The documents readable at `clearance`
+  list(clearance: Clearance = "visitor"): KnowledgeDocument[] {
+    const rows = this.db.prepare(`
+      SELECT d.*, COUNT(c.position) AS chunk_count, COALESCE(SUM(c.embedding_model = @model), 0) AS embedded_count
+      FROM documents d LEFT JOIN chunks c ON c.document_id = d.id
+      WHERE d.clearance IN (SELECT value FROM json_each(@levels))
+      GROUP BY d.id
+      ORDER BY d.built_in DESC, d.name COLLATE NOCASE
+    `).all({ model: this.embedder?.embeddingModel ?? null, levels: readableLevels(clearance) }) as DocumentRow[];
+    return rows.map(toDocument);
+  }
+
+  get(id: string): KnowledgeDocument | undefined {
+    return this.list(CLEARANCE_LEVELS[CLEARANCE_LEVELS.length - 1]).find(d => d.id === id);
+  }
+
+  /**
+   * Adds a Markdown or text file, replacing any document with the same
+   * name, and embeds its chunks before returning.
+   */
+  async add(input: { name?: unknown; content?: unknown }): Promise<KnowledgeDocument> {
+    const name = typeof input.name === "string" ? input.name.split(/[\\/]/).pop()!.trim() : "";
+    const { content } = input;
+    if (!name) throw new KnowledgeError("Document needs a name.");
+    if (!isKnowledgeFile(name)) throw new KnowledgeError(`${name}: only ${KNOWLEDGE_EXTENSIONS.map(ext => `.${ext}`).join(", ")} files can be added.`);
+    if (typeof content !== "string" || !content.trim()) throw new KnowledgeError(`${name}: file is empty.`);
+    if (Buffer.byteLength(content) > MAX_DOCUMENT_BYTES) throw new KnowledgeError(`${name}: exceeds the ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB limit.`);
+    if (content.includes("\u0000")) throw new KnowledgeError(`${name}: looks like a binary file.`);
+
+    const existing = this.db.prepare("SELECT built_in FROM documents WHERE name = ?").get(name) as { built_in: number } | undefined;
+    if (existing?.built_in) throw new KnowledgeError(`"${name}" is a built-in document and cannot be replaced.`);
+
+    const id = this.write(randomUUID(), name, content, { clearance: "visitor", builtIn: false });
+    await this.reindex();
+    return this.get(id)!;
+  }
+
+  delete(id: string): boolean {
+    const document = this.get(id);
+    if (!document) return false;
+    if (document.builtIn) throw new KnowledgeError(`"${document.name}" is a built-in document and cannot be deleted.`);
+    this.db.prepare("DELETE FROM documents WHERE id = ?").run(id);
+    return true;
+  }
+
+  /**
+   * Embeds every chunk that has no vector from the current model. Runs
+   * once at a time; stops at the first failure, leaving the rest to the
+   * next call. Resolves to the number of chunks embedded.
+   */
+  reindex(): Promise<number> {
+    this.indexing ??= this.embedMissing().finally(() => { this.indexing = undefined; });
+    return this.indexing;
+  }
+
+  private async embedMissing(): Promise<number> {
+    const model = this.embedder?.embeddingModel;
+    if (!this.embedder || !model) return 0;
+
+    const select = this.db.prepare("SELECT document_id, position, text FROM chunks WHERE embedding_model IS NOT ? LIMIT ?");
+    const update = this.db.prepare("UPDATE chunks SET embedding = ?, embedding_model = ? WHERE document_id = ? AND position = ?");
+    let embedded = 0;
+    for (;;) {
+      const rows = select.all(model, EMBED_BATCH) as Pick<ChunkRow, "document_id" | "position" | "text">[];
+      if (rows.length === 0) break;
+      const result = await this.embedder.embed(rows.map(r => r.text), "document");
+      if (!result || result.model !== model) break;
+      this.db.transaction(() => {
+        rows.forEach((row, i) => update.run(JSON.stringify(result.vectors[i]), result.model, row.document_id, row.position));
+      })();
+      embedded += rows.length;
+    }
+    return embedded;
+  }
+
+  /**
+   * Best-matching chunks for `query`. Uses embeddings when every chunk has
+   * a vector from the current model and the query can be embedded too;
+   * otherwise BM25, while any missing vectors are filled in the background.
+   */
+  async search(query: string, { clearance, limit, signal }: { clearance: Clearance; limit: number; signal?: AbortSignal }): Promise<Passage[]> {
+    const rows = this.db.prepare(`
+      SELECT c.*, d.name FROM chunks c JOIN documents d ON d.id = c.document_id
+      WHERE d.clearance IN (SELECT value FROM json_each(?))
+    `).all(readableLevels(clearance)) as ChunkRow[];
+    if (rows.length === 0) return [];
+
+    const toPassage = (row: ChunkRow, score: number): Passage => ({ documentId: row.document_id, name: row.name, text: row.text, score });
+    const model = this.embedder?.embeddingModel;
+    const indexed = !!model && rows.every(r => r.embedding_model === model);
+    if (model && !indexed) this.reindex();
+
+    const queryEmbedding = indexed ? await this.embedder!.embed([query], "query", signal) : undefined;
+    const queryVector = queryEmbedding && queryEmbedding.model === model ? queryEmbedding.vectors[0] : undefined;
+    const passages = queryVector
+      ? rows.map(row => toPassage(row, cosineSimilarity(queryVector, JSON.parse(row.embedding!)))).filter(p => p.score >= MIN_SIMILARITY)
+      : bm25Scores(query, rows.map(r => r.text)).map((score, i) => toPassage(rows[i], score)).filter(p => p.score > 0);
+
+    return passages.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
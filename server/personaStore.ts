@@ -0,0 +1,98 @@
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA, validatePersona } from "../src/lib/personas";
+import type { PersonaProfile } from "../src/types";
+import type { Db } from "./db";
+
+interface PersonaRow {
+  id: string;
+  name: string;
+  system_prompt: string;
+  tts_style: string;
+  voice: string;
+  color: string;
+  greeting: string;
+  built_in: number;
+}
+
+function toPersona(row: PersonaRow): PersonaProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    systemPrompt: row.system_prompt,
+    ttsStyle: row.tts_style,
+    voice: row.voice,
+    color: row.color,
+    greeting: row.greeting,
+    builtIn: !!row.built_in || undefined,
+  };
+}
+
+export class PersonaError extends Error {}
+
+/**
+ * Persona profiles. Built-in personas are written on startup so sessions
+ * can reference them like any other row, but they can't be changed.
+ */
+export class PersonaStore {
+  constructor(private db: Db) {
+    const upsert = this.db.prepare(`
+      INSERT INTO personas (id, name, system_prompt, tts_style, voice, color, greeting, built_in, created_at, updated_at)
+      VALUES (@id, @name, @systemPrompt, @ttsStyle, @voice, @color, @greeting, 1, @now, @now)
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name, system_prompt = excluded.system_prompt, tts_style = excluded.tts_style,
+        voice = excluded.voice, color = excluded.color, greeting = excluded.greeting, built_in = 1
+    `);
+    this.db.transaction(() => {
+      BUILT_IN_PERSONAS.forEach(({ builtIn, ...persona }) => upsert.run({ ...persona, now: Date.now() }));
+    })();
+  }
+
+  list(): PersonaProfile[] {
+    const rows = this.db.prepare("SELECT * FROM personas ORDER BY built_in DESC, name COLLATE NOCASE").all() as PersonaRow[];
+    return rows.map(toPersona);
+  }
+
+  // Voices personas speak command lines in; the stock assistant uses the configured voice instead
+  voices(): string[] {
+    return [...new Set(this.list().filter(p => p.id !== DEFAULT_PERSONA.id).map(p => p.voice))];
+  }
+
+  get(id: string): PersonaProfile | undefined {
+    const row = this.db.prepare("SELECT * FROM personas WHERE id = ?").get(id) as PersonaRow | undefined;
+    return row && toPersona(row);
+  }
+
+  save(input: unknown): PersonaProfile {
+    const { persona, error, violation } = validatePersona(input);
+    if (violation) console.warn("Guardrail violation:", violation);
+    if (!persona) throw new PersonaError(error);
+    if (this.get(persona.id)?.builtIn) throw new PersonaError(`"${persona.name}" is a built-in persona and cannot be changed.`);
+
+    const now = Date.now();
+    this.db.prepare(`
+      INSERT INTO personas (id, name, system_prompt, tts_style, voice, color, greeting, created_at, updated_at)
+      VALUES (@id, @name, @systemPrompt, @ttsStyle, @voice, @color, @greeting, @now, @now)
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name, system_prompt = excluded.system_prompt, tts_style = excluded.tts_style,
+        voice = excluded.voice, color = excluded.color, greeting = excluded.greeting, updated_at = excluded.updated_at
+    `).run({ ...persona, now });
+    return this.get(persona.id)!;
+  }
+
+  // Validates everything first so a bad file imports nothing
+  import(inputs: unknown[]): PersonaProfile[] {
+    inputs.forEach((input, i) => {
+      const { error, violation } = validatePersona(input);
+      if (violation) console.warn("Guardrail violation:", violation);
+      if (error) throw new PersonaError(`Persona ${i + 1}: ${error}`);
+    });
+    return this.db.transaction(() => inputs.map(input => this.save(input)))();
+  }
+
+  delete(id: string): boolean {
+    const persona = this.get(id);
+    if (!persona) return false;
+    if (persona.builtIn) throw new PersonaError(`"${persona.name}" is a built-in persona and cannot be deleted.`);
+    this.db.prepare("DELETE FROM personas WHERE id = ?").run(id);
+    return true;
+  }
+}
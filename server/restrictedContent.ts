@@ -0,0 +1,43 @@
+import { hasClearance } from "../src/lib/commands";
+import { buildSeed, parentOf, type ManifestEntry } from "../src/lib/filesystem";
+import type { SpokenLine } from "../src/lib/phrases";
+import type { Clearance, CommandResponse, FsEntry, RestrictedContent } from "../src/types";
+import data from "./data/restricted.json";
+
+// server/data/restricted.json: the files and command output the browser bundle leaves out
+interface RestrictedData {
+  files: ManifestEntry[];
+  commands: Record<string, { clearance: Clearance; responses: Record<string, CommandResponse> }>;
+}
+
+const RESTRICTED = data as RestrictedData;
+
+// The whole seeded filesystem, restricted entries included
+export const FACILITY_FILES = buildSeed(RESTRICTED.files);
+
+const PUBLIC_FILES = buildSeed();
+
+// Restricted lines read aloud, for the speech cache prewarm
+export const RESTRICTED_LINES: SpokenLine[] = Object.values(RESTRICTED.commands).flatMap(({ responses }) =>
+  Object.values(responses).flatMap(({ spoken, hint }) => spoken ? [{ text: spoken, hint }] : []));
+
+// The clearance a command needs; commands without restricted output are open to visitors
+export function commandClearance(name: string): Clearance {
+  return RESTRICTED.commands[name.toUpperCase()]?.clearance ?? "visitor";
+}
+
+// An entry is visible when it and every directory above it are
+function visible(path: string, clearance: Clearance): boolean {
+  if (path === "/") return true;
+  return hasClearance(clearance, FACILITY_FILES.get(path)!.clearance) && visible(parentOf(path), clearance);
+}
+
+// What `clearance` may see of the restricted files and command output; nothing for a visitor
+export function restrictedContent(clearance: Clearance): RestrictedContent {
+  const files = [...FACILITY_FILES].filter(([path]) => !PUBLIC_FILES.has(path) && visible(path, clearance));
+  const commands = Object.entries(RESTRICTED.commands).filter(([, command]) => hasClearance(clearance, command.clearance));
+  return {
+    files: Object.fromEntries(files),
+    commands: Object.fromEntries(commands.map(([name, command]) => [name, command.responses])),
+  };
+}
@@ -0,0 +1,30 @@
+import type { RequestHandler, Response } from "express";
+import { hasClearance } from "../../src/lib/commands";
+import type { Account, Clearance } from "../../src/types";
+import { bearerToken, type AuthStore } from "../authStore";
+
+/**
+ * Lets a request through only with a login of at least `clearance`:
+ * 401 without one, 403 below it. The account is left in
+ * `res.locals.account` for the handlers.
+ */
+export function requireLogin(auth: AuthStore, clearance: Clearance = "visitor"): RequestHandler {
+  return (req, res, next) => {
+    const account = auth.account(bearerToken(req.headers.authorization));
+    if (!account) {
+      res.status(401).json({ error: { kind: "AUTH", message: "Not logged in." } });
+      return;
+    }
+    if (!hasClearance(account.clearance, clearance)) {
+      res.status(403).json({ error: { kind: "AUTH", message: `Requires ${clearance} clearance.` } });
+      return;
+    }
+    res.locals.account = account;
+    next();
+  };
+}
+
+// The account requireLogin let through
+export function loggedIn(res: Response): Account {
+  return res.locals.account;
+}
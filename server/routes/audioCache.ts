@@ -0,0 +1,31 @@
+import { Router } from "express";
+import { PREWARM_LINES } from "../../src/lib/phrases";
+import type { GladosService } from "../../src/services/gladosService";
+import type { AudioCache } from "../audioCache";
+import type { AuthStore } from "../authStore";
+import type { PersonaStore } from "../personaStore";
+import { RESTRICTED_LINES } from "../restrictedContent";
+import { requireLogin } from "./access";
+
+export function createAudioCacheRouter(cache: AudioCache, glados: GladosService, personas: PersonaStore, auth: AuthStore): Router {
+  const router = Router();
+  // Emptying or filling the cache costs synthesis for everyone
+  const maintenance = requireLogin(auth, "maintenance");
+
+  router.get("/", (_req, res) => {
+    res.json(cache.stats());
+  });
+
+  router.delete("/", maintenance, (_req, res) => {
+    cache.clear();
+    res.status(204).end();
+  });
+
+  // Synthesizes every built-in line that isn't cached yet, in every persona's voice
+  router.post("/prewarm", maintenance, async (_req, res) => {
+    const result = await glados.prewarmSpeech([...PREWARM_LINES, ...RESTRICTED_LINES], personas.voices());
+    res.json({ ...result, stats: cache.stats() });
+  });
+
+  return router;
+}
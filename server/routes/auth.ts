@@ -0,0 +1,79 @@
+import { Router, type Request, type Response } from "express";
+import type { Clearance } from "../../src/types";
+import { AuthError, bearerToken, type AuthStore } from "../authStore";
+import { requireLogin } from "./access";
+
+function unauthorized(res: Response, message: string) {
+  res.status(401).json({ error: { kind: "AUTH", message } });
+}
+
+function badRequest(res: Response, message: string) {
+  res.status(400).json({ error: { kind: "UNKNOWN", message } });
+}
+
+function tokenOf(req: Request): string | undefined {
+  return bearerToken(req.headers.authorization);
+}
+
+export function createAuthRouter(store: AuthStore): Router {
+  const router = Router();
+
+  // { name, password }; an admin's token in the Authorization header may leave out the password (SU)
+  router.post("/login", (req, res) => {
+    const { name, password } = req.body ?? {};
+    if (typeof name !== "string" || !name.trim()) return badRequest(res, "name must be a non-empty string.");
+    if (password !== undefined && typeof password !== "string") return badRequest(res, "password must be a string.");
+    try {
+      res.json(store.login(name.trim(), password, store.account(tokenOf(req))));
+    } catch (error) {
+      if (!(error instanceof AuthError)) throw error;
+      unauthorized(res, error.message);
+    }
+  });
+
+  // A new anonymous visitor account for a browser that has none yet
+  router.post("/visitor", (_req, res) => {
+    res.status(201).json(store.visitor());
+  });
+
+  // { name, clearance, password }; only an admin may add accounts
+  router.post("/accounts", requireLogin(store, "admin"), (req, res) => {
+    const { name, clearance, password } = req.body ?? {};
+    if (typeof name !== "string" || typeof clearance !== "string" || typeof password !== "string") {
+      return badRequest(res, "name, clearance and password must be strings.");
+    }
+    try {
+      res.status(201).json(store.addAccount(name.trim(), clearance as Clearance, password));
+    } catch (error) {
+      if (!(error instanceof AuthError)) throw error;
+      badRequest(res, error.message);
+    }
+  });
+
+  router.post("/logout", (req, res) => {
+    const token = tokenOf(req);
+    if (token) store.logout(token);
+    res.status(204).end();
+  });
+
+  router.get("/me", (req, res) => {
+    const account = store.account(tokenOf(req));
+    if (!account) return unauthorized(res, "Not logged in.");
+    res.json(account);
+  });
+
+  // { current, next }
+  router.post("/password", (req, res) => {
+    const { current, next } = req.body ?? {};
+    if (typeof current !== "string" || typeof next !== "string") return badRequest(res, "current and next must be strings.");
+    try {
+      store.changePassword(tokenOf(req) ?? "", current, next);
+      res.status(204).end();
+    } catch (error) {
+      if (!(error instanceof AuthError)) throw error;
+      unauthorized(res, error.message);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,182 @@
+import { Router, type Request, type Response } from "express";
+import { classifyError, type GladosError, type GladosErrorKind } from "../../src/services/errors";
+import type { ChatOptions, GladosService } from "../../src/services/gladosService";
+import type { ToolDeclaration } from "../../src/services/providers";
+import { attachmentMimeType, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS } from "../../src/lib/attachments";
+import { ChamberError } from "../../src/lib/chambers";
+import { hasClearance, RESTRICTED_CLEARANCE } from "../../src/lib/commands";
+import type { Attachment, Clearance } from "../../src/types";
+import type { AuthStore } from "../authStore";
+import { gradeStep } from "../chamberAnswers";
+import { commandClearance } from "../restrictedContent";
+
+const ERROR_STATUS: Record<GladosErrorKind, number> = {
+  AUTH: 401,
+  QUOTA: 429,
+  SAFETY: 422,
+  NETWORK: 502,
+  MODEL_NOT_FOUND: 404,
+  TIMEOUT: 504,
+  CIRCUIT_OPEN: 503,
+  UNKNOWN: 500,
+};
+
+function serializeError(error: GladosError) {
+  return { kind: error.kind, message: error.message };
+}
+
+// Aborts the model request when the browser disconnects (Stop button, page reload)
+function abortOnDisconnect(req: Request, res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+// Responds with 400 and returns false when `field` is not a non-empty string
+function requireString(req: Request, res: Response, field: string): boolean {
+  const value = req.body?.[field];
+  if (typeof value === "string" && value.trim()) return true;
+  res.status(400).json({ error: { kind: "UNKNOWN", message: `Request body must include a non-empty "${field}" string.` } });
+  return false;
+}
+
+function attachmentError(attachments: unknown): string | undefined {
+  if (attachments === undefined) return undefined;
+  if (!Array.isArray(attachments)) return `"attachments" must be an array.`;
+  if (attachments.length > MAX_ATTACHMENTS) return `No more than ${MAX_ATTACHMENTS} attachments per message.`;
+  for (const a of attachments as Attachment[]) {
+    if (typeof a?.name !== "string" || typeof a.data !== "string") return "Each attachment needs a name and base64 data.";
+    if (attachmentMimeType({ name: a.name, type: a.mimeType }) !== a.mimeType) return `${a.name}: unsupported type ${a.mimeType}.`;
+    if (a.data.length * 3 / 4 > MAX_ATTACHMENT_BYTES) return `${a.name}: attachment is too large.`;
+  }
+  return undefined;
+}
+
+// Responds with 400 and returns false unless the body has a message, attachments or both
+function requireMessage(req: Request, res: Response): boolean {
+  const { message, attachments } = req.body ?? {};
+  const error = attachmentError(attachments);
+  if (error) {
+    res.status(400).json({ error: { kind: "UNKNOWN", message: error } });
+    return false;
+  }
+  if (attachments?.length && typeof message === "string") return true;
+  return requireString(req, res, "message");
+}
+
+// The declared tools whose command the login may run; the rest are dropped, whatever the client offered
+function allowedTools(tools: unknown[], clearance: Clearance): ToolDeclaration[] {
+  return (tools as ToolDeclaration[]).filter(tool => typeof tool?.name === "string" && hasClearance(clearance, commandClearance(tool.name)));
+}
+
+// The chat call for a request. What the model may see follows the login's clearance, not the request body
+function chatArgs(req: Request, auth: AuthStore, signal: AbortSignal): [string, string | undefined, ChatOptions] {
+  const { message, customInstruction, history, attachments, historyPolicy, voice, speechHint, tools, toolTurns, memory } = req.body ?? {};
+  const clearance = auth.clearance(req.headers.authorization);
+  return [message, customInstruction, {
+    history: Array.isArray(history) ? history : undefined,
+    attachments,
+    historyPolicy: { ...(typeof historyPolicy === "object" ? historyPolicy : {}), includeSecret: hasClearance(clearance, RESTRICTED_CLEARANCE) },
+    signal,
+    voice,
+    speechHint,
+    tools: Array.isArray(tools) ? allowedTools(tools, clearance) : undefined,
+    toolTurns: Array.isArray(toolTurns) ? toolTurns : undefined,
+    memory: typeof memory?.summary === "string" && typeof memory.throughId === "string" ? memory : undefined,
+    knowledgeClearance: clearance,
+  }];
+}
+
+export function createChatRouter(glados: GladosService, auth: AuthStore): Router {
+  const router = Router();
+
+  router.post("/chat", async (req, res) => {
+    if (!requireMessage(req, res)) return;
+    const signal = abortOnDisconnect(req, res);
+    try {
+      res.json(await glados.chat(...chatArgs(req, auth, signal)));
+    } catch (err) {
+      if (signal.aborted) return;
+      const error = classifyError(err);
+      console.error("POST /api/chat failed:", error);
+      res.status(ERROR_STATUS[error.kind]).json({ error: serializeError(error) });
+    }
+  });
+
+  router.post("/chat/stream", async (req, res) => {
+    if (!requireMessage(req, res)) return;
+    const signal = abortOnDisconnect(req, res);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+
+    try {
+      for await (const chunk of glados.chatStream(...chatArgs(req, auth, signal))) {
+        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      }
+    } catch (err) {
+      if (!signal.aborted) {
+        const error = classifyError(err);
+        console.error("POST /api/chat/stream failed:", error);
+        res.write(`event: error\ndata: ${JSON.stringify(serializeError(error))}\n\n`);
+      }
+    }
+    res.end();
+  });
+
+  // { answer } to a step of a test chamber; the answer key never leaves the server
+  router.post("/chambers/:id/steps/:step/answer", async (req, res) => {
+    if (!requireString(req, res, "answer")) return;
+    const signal = abortOnDisconnect(req, res);
+    try {
+      const clearance = auth.clearance(req.headers.authorization);
+      res.json(await gradeStep(glados, req.params.id, Number(req.params.step), req.body.answer, clearance, signal));
+    } catch (err) {
+      if (signal.aborted) return;
+      if (err instanceof ChamberError) {
+        res.status(404).json({ error: { kind: "UNKNOWN", message: err.message } });
+        return;
+      }
+      const error = classifyError(err);
+      console.error("POST /api/chambers/:id/steps/:step/answer failed:", error);
+      res.status(ERROR_STATUS[error.kind]).json({ error: serializeError(error) });
+    }
+  });
+
+  router.post("/tts", async (req, res) => {
+    if (!requireString(req, res, "text")) return;
+    const { text, personalityHint, voice } = req.body;
+    const signal = abortOnDisconnect(req, res);
+    const audioBase64 = await glados.generateAudio(text, personalityHint, signal, voice);
+    if (!signal.aborted) res.json({ audioBase64 });
+  });
+
+  router.post("/tts/cached", async (req, res) => {
+    if (!requireString(req, res, "text")) return;
+    const { text, personalityHint, voice } = req.body;
+    res.json({ audioBase64: await glados.getCachedAudio(text, personalityHint, voice) });
+  });
+
+  router.post("/transcribe", async (req, res) => {
+    if (!requireString(req, res, "audio") || !requireString(req, res, "mimeType")) return;
+    const { audio, mimeType } = req.body;
+    if (!mimeType.startsWith("audio/")) {
+      res.status(400).json({ error: { kind: "UNKNOWN", message: `Unsupported recording type ${mimeType}.` } });
+      return;
+    }
+    const signal = abortOnDisconnect(req, res);
+    try {
+      res.json({ text: await glados.transcribe(audio, mimeType, signal) });
+    } catch (err) {
+      if (signal.aborted) return;
+      const error = classifyError(err);
+      console.error("POST /api/transcribe failed:", error);
+      res.status(ERROR_STATUS[error.kind]).json({ error: serializeError(error) });
+    }
+  });
+
+  return router;
+}
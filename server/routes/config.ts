@@ -0,0 +1,41 @@
+import { Router } from "express";
+import { classifyError } from "../../src/services/errors";
+import type { AuthStore } from "../authStore";
+import { ConfigError, type ConfigStore } from "../configStore";
+import { requireLogin } from "./access";
+
+export function createConfigRouter(store: ConfigStore, auth: AuthStore): Router {
+  const router = Router();
+
+  router.get("/", (_req, res) => {
+    res.json(store.report());
+  });
+
+  // ?refresh=true skips the cached list
+  router.get("/models", async (req, res) => {
+    try {
+      res.json(await store.availableModels(req.query.refresh === "true"));
+    } catch (err) {
+      const error = classifyError(err);
+      console.error("GET /api/config/models failed:", error);
+      res.status(502).json({ error: { kind: error.kind, message: error.message } });
+    }
+  });
+
+  // { key: value } changes; null resets a key to its default. The settings are the whole facility's, so only maintenance may change them
+  router.patch("/", requireLogin(auth, "maintenance"), async (req, res) => {
+    try {
+      await store.update(req.body);
+      res.json(store.report());
+    } catch (error) {
+      if (!(error instanceof ConfigError)) {
+        console.error("PATCH /api/config failed:", error);
+        res.status(500).json({ error: { kind: "UNKNOWN", message: "Settings could not be saved." } });
+        return;
+      }
+      res.status(400).json({ error: { kind: "UNKNOWN", message: error.message } });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,50 @@
+import { Router, type Response } from "express";
+import type { AuthStore } from "../authStore";
+import { KnowledgeError, type KnowledgeStore } from "../knowledgeStore";
+import { requireLogin } from "./access";
+
+// Express 4 doesn't catch rejected handlers, so unexpected errors are answered here too
+async function handle(res: Response, fn: () => unknown) {
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof KnowledgeError) {
+      res.status(400).json({ error: { kind: "UNKNOWN", message: error.message } });
+      return;
+    }
+    console.error("Knowledge base request failed:", error);
+    res.status(500).json({ error: { kind: "UNKNOWN", message: "Knowledge base request failed." } });
+  }
+}
+
+export function createKnowledgeRouter(store: KnowledgeStore, auth: AuthStore): Router {
+  const router = Router();
+
+  // Only the documents the caller's login may read
+  router.get("/", (req, res) => {
+    res.json(store.list(auth.clearance(req.headers.authorization)));
+  });
+
+  // Changing what answers are grounded in takes maintenance clearance
+  const maintenance = requireLogin(auth, "maintenance");
+
+  router.post("/", maintenance, async (req, res) => {
+    await handle(res, async () => res.status(201).json(await store.add(req.body ?? {})));
+  });
+
+  router.post("/reindex", maintenance, async (_req, res) => {
+    await handle(res, async () => res.json({ embedded: await store.reindex() }));
+  });
+
+  router.delete("/:id", maintenance, async (req, res) => {
+    await handle(res, () => {
+      if (!store.delete(req.params.id)) {
+        res.status(404).json({ error: { kind: "UNKNOWN", message: "Document not found." } });
+        return;
+      }
+      res.status(204).end();
+    });
+  });
+
+  return router;
+}
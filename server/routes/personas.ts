@@ -0,0 +1,55 @@
+import { Router, type Response } from "express";
+import type { AuthStore } from "../authStore";
+import { PersonaError, type PersonaStore } from "../personaStore";
+import { requireLogin } from "./access";
+
+function handle(res: Response, fn: () => void) {
+  try {
+    fn();
+  } catch (error) {
+    if (!(error instanceof PersonaError)) throw error;
+    res.status(400).json({ error: { kind: "UNKNOWN", message: error.message } });
+  }
+}
+
+// Personas are the whole facility's, so only maintenance may change them
+export function createPersonaRouter(store: PersonaStore, auth: AuthStore): Router {
+  const router = Router();
+  const maintenance = requireLogin(auth, "maintenance");
+
+  router.get("/", (_req, res) => {
+    res.json(store.list());
+  });
+
+  // Everything except the built-ins, as an importable JSON document
+  router.get("/export", (_req, res) => {
+    const personas = store.list().filter(p => !p.builtIn).map(({ builtIn, ...persona }) => persona);
+    res.setHeader("Content-Disposition", 'attachment; filename="personas.json"');
+    res.json({ personas });
+  });
+
+  router.post("/import", maintenance, (req, res) => {
+    const inputs = Array.isArray(req.body) ? req.body : req.body?.personas;
+    if (!Array.isArray(inputs)) {
+      res.status(400).json({ error: { kind: "UNKNOWN", message: 'Body must be an array or { "personas": [...] }.' } });
+      return;
+    }
+    handle(res, () => res.json(store.import(inputs)));
+  });
+
+  router.put("/", maintenance, (req, res) => {
+    handle(res, () => res.json(store.save(req.body)));
+  });
+
+  router.delete("/:id", maintenance, (req, res) => {
+    handle(res, () => {
+      if (!store.delete(req.params.id)) {
+        res.status(404).json({ error: { kind: "UNKNOWN", message: "Persona not found." } });
+        return;
+      }
+      res.status(204).end();
+    });
+  });
+
+  return router;
+}
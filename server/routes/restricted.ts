@@ -0,0 +1,14 @@
+import { Router } from "express";
+import type { AuthStore } from "../authStore";
+import { restrictedContent } from "../restrictedContent";
+
+export function createRestrictedRouter(auth: AuthStore): Router {
+  const router = Router();
+
+  // Only what the login's clearance allows; a visitor gets empty lists
+  router.get("/", (req, res) => {
+    res.json(restrictedContent(auth.clearance(req.headers.authorization)));
+  });
+
+  return router;
+}
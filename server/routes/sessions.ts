@@ -0,0 +1,141 @@
+import { Router, type Response } from "express";
+import type { ConversationMemory, FilesystemState, Message, SessionUpdate } from "../../src/types";
+import type { AuthStore } from "../authStore";
+import type { PersonaStore } from "../personaStore";
+import type { SessionStore } from "../sessionStore";
+import { loggedIn, requireLogin } from "./access";
+
+function notFound(res: Response) {
+  res.status(404).json({ error: { kind: "UNKNOWN", message: "Session not found." } });
+}
+
+function badRequest(res: Response, message: string) {
+  res.status(400).json({ error: { kind: "UNKNOWN", message } });
+}
+
+function isMemory(value: any): value is ConversationMemory {
+  return (
+    value &&
+    typeof value.summary === "string" &&
+    typeof value.throughId === "string" &&
+    typeof value.summarizedTurns === "number" &&
+    typeof value.updatedAt === "number"
+  );
+}
+
+function isFilesystem(value: any): value is FilesystemState {
+  return (
+    value &&
+    typeof value.cwd === "string" &&
+    value.changes &&
+    typeof value.changes === "object" &&
+    !Array.isArray(value.changes)
+  );
+}
+
+function isMessage(value: any): value is Message {
+  return (
+    value &&
+    typeof value.id === "string" &&
+    (value.role === "user" || value.role === "glados") &&
+    typeof value.content === "string" &&
+    typeof value.timestamp === "number"
+  );
+}
+
+// Sessions belong to the account that created them; nobody else may read or change them
+export function createSessionRouter(store: SessionStore, personas: PersonaStore, auth: AuthStore): Router {
+  const router = Router();
+  router.use(requireLogin(auth));
+
+  router.param("id", (_req, res, next, id: string) => {
+    const owner = store.owner(id);
+    if (owner === undefined) return notFound(res);
+    if (owner !== loggedIn(res).name) {
+      res.status(403).json({ error: { kind: "AUTH", message: "This session belongs to another account." } });
+      return;
+    }
+    next();
+  });
+
+  router.get("/", (_req, res) => {
+    res.json(store.list(loggedIn(res).name));
+  });
+
+  router.post("/", (req, res) => {
+    res.status(201).json(store.create(loggedIn(res).name, req.body?.title));
+  });
+
+  router.get("/:id", (req, res) => {
+    const session = store.get(req.params.id);
+    if (!session) return notFound(res);
+    res.json(session);
+  });
+
+  // Rename, or update the active persona, conversation memory and filesystem
+  router.patch("/:id", (req, res) => {
+    const { title, personaId, memory, filesystem } = req.body ?? {};
+    const update: SessionUpdate = {};
+    if (title !== undefined) {
+      if (typeof title !== "string") return badRequest(res, "title must be a string.");
+      update.title = title;
+    }
+    if (personaId !== undefined) {
+      if (personaId !== null && !personas.get(personaId)) return badRequest(res, "Unknown persona.");
+      update.personaId = personaId;
+    }
+    if (memory !== undefined) {
+      if (memory !== null && !isMemory(memory)) return badRequest(res, "memory must be null or a conversation memory object.");
+      update.memory = memory;
+    }
+    if (filesystem !== undefined) {
+      if (!isFilesystem(filesystem)) return badRequest(res, "filesystem must be a filesystem state object.");
+      update.filesystem = filesystem;
+    }
+
+    const session = store.update(req.params.id, update);
+    if (!session) return notFound(res);
+    res.json(session);
+  });
+
+  router.delete("/:id", (req, res) => {
+    if (!store.delete(req.params.id)) return notFound(res);
+    res.status(204).end();
+  });
+
+  router.put("/:id/messages/:messageId", (req, res) => {
+    const message = { ...req.body, id: req.params.messageId };
+    if (!isMessage(message)) return badRequest(res, "Body must be a Message.");
+    if (!store.saveMessage(req.params.id, message)) return notFound(res);
+    res.status(204).end();
+  });
+
+  router.delete("/:id/messages/:messageId", (req, res) => {
+    store.deleteMessage(req.params.id, req.params.messageId);
+    res.status(204).end();
+  });
+
+  return router;
+}
+
+// The settings of the logged-in account
+export function createSettingsRouter(store: SessionStore, auth: AuthStore): Router {
+  const router = Router();
+  router.use(requireLogin(auth));
+
+  router.get("/", (_req, res) => {
+    res.json(store.getAccountSettings(loggedIn(res).name));
+  });
+
+  // Merges the given keys into the stored settings
+  router.patch("/", (req, res) => {
+    if (!req.body || typeof req.body !== "object" || Array.isArray(req.body)) {
+      return badRequest(res, "Body must be an object of settings.");
+    }
+    const { name } = loggedIn(res);
+    Object.entries(req.body).forEach(([key, value]) => store.setAccountSetting(name, key, value));
+    res.json(store.getAccountSettings(name));
+  });
+
+  return router;
+}
@@ -0,0 +1,12 @@
+import { Router } from "express";
+import type { UsageStore } from "../usageStore";
+
+export function createUsageRouter(usage: UsageStore): Router {
+  const router = Router();
+
+  router.get("/", (_req, res) => {
+    res.json(usage.report());
+  });
+
+  return router;
+}
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { AuthStore } from "./authStore";
+import { openDatabase, type Db } from "./db";
+import { SessionStore } from "./sessionStore";
+
+let db: Db;
+let store: SessionStore;
+
+beforeEach(() => {
+  db = openDatabase(":memory:");
+  store = new SessionStore(db);
+});
+
+describe("claimUnowned", () => {
+  // As a database from before there were accounts has them
+  function legacySession() {
+    db.prepare("INSERT INTO sessions (id, title, created_at, updated_at) VALUES ('old', 'Old', 0, 0)").run();
+    store.setSetting("activeSessionId", "old");
+    store.setSetting("inputHistory", [{ text: "HELP" }]);
+  }
+
+  it("waits for an admin to exist", () => {
+    legacySession();
+    store.claimUnowned();
+    expect(store.owner("old")).toBeNull();
+    expect(store.getSetting("inputHistory")).toEqual([{ text: "HELP" }]);
+  });
+
+  it("gives sessions and settings from before accounts to the first admin", () => {
+    legacySession();
+    new AuthStore(db).seed({ adminPassword: "neurotoxin" });
+    store.claimUnowned();
+    expect(store.list("glados").map(s => s.id)).toEqual(["old"]);
+    expect(store.getAccountSettings("glados")).toEqual({ activeSessionId: "old", inputHistory: [{ text: "HELP" }] });
+    expect(store.getSetting("inputHistory")).toBeUndefined();
+  });
+
+  it("keeps a legacy setting the admin already has a different value for", () => {
+    legacySession();
+    new AuthStore(db).seed({ adminPassword: "neurotoxin" });
+    store.setAccountSetting("glados", "inputHistory", []);
+    store.claimUnowned();
+    expect(store.getAccountSettings("glados").inputHistory).toEqual([]);
+    expect(store.getSetting("inputHistory")).toEqual([{ text: "HELP" }]);
+    expect(store.getSetting("activeSessionId")).toBeUndefined();
+  });
+});
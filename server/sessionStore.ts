@@ -0,0 +1,223 @@
+import { randomUUID } from "crypto";
+import type { Message, SessionDetail, SessionSummary, SessionUpdate } from "../src/types";
+import type { Db } from "./db";
+
+const DEFAULT_TITLE = "New Session";
+
+// Settings that were the facility's before they became each account's
+const LEGACY_ACCOUNT_SETTINGS = ["activeSessionId", "inputHistory", "testProgress"];
+
+interface SessionRow {
+  id: string;
+  title: string;
+  persona_id: string | null;
+  memory: string | null;
+  filesystem: string | null;
+  created_at: number;
+  updated_at: number;
+  message_count: number;
+}
+
+interface MessageRow {
+  id: string;
+  role: Message['role'];
+  content: string;
+  timestamp: number;
+  is_secret: number;
+  is_local: number;
+  meta: string | null;
+}
+
+function toSummary(row: SessionRow): SessionSummary {
+  return {
+    id: row.id,
+    title: row.title,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    messageCount: row.message_count,
+  };
+}
+
+function toMessage(row: MessageRow): Message {
+  return {
+    ...(row.meta ? JSON.parse(row.meta) : {}),
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    timestamp: row.timestamp,
+    isSecret: !!row.is_secret || undefined,
+    isLocal: !!row.is_local || undefined,
+  };
+}
+
+export class SessionStore {
+  constructor(private db: Db) {}
+
+  private selectSessions(where = "") {
+    return this.db.prepare(`
+      SELECT s.*, (SELECT COUNT(*) FROM messages m WHERE m.session_id = s.id) AS message_count
+      FROM sessions s ${where}
+      ORDER BY s.updated_at DESC
+    `);
+  }
+
+  private touch(id: string) {
+    this.db.prepare("UPDATE sessions SET updated_at = ? WHERE id = ?").run(Date.now(), id);
+  }
+
+  // The sessions of one account
+  list(owner: string): SessionSummary[] {
+    return (this.selectSessions("WHERE s.owner = ?").all(owner) as SessionRow[]).map(toSummary);
+  }
+
+  // The account a session belongs to; undefined when there is no such session
+  owner(id: string): string | null | undefined {
+    const row = this.db.prepare("SELECT owner FROM sessions WHERE id = ?").get(id) as { owner: string | null } | undefined;
+    return row?.owner;
+  }
+
+  get(id: string): SessionDetail | undefined {
+    const row = this.selectSessions("WHERE s.id = ?").get(id) as SessionRow | undefined;
+    if (!row) return undefined;
+
+    const messages = this.db
+      .prepare("SELECT * FROM messages WHERE session_id = ? ORDER BY position")
+      .all(id) as MessageRow[];
+
+    return {
+      ...toSummary(row),
+      personaId: row.persona_id ?? undefined,
+      ...(row.memory ? { memory: JSON.parse(row.memory) } : {}),
+      ...(row.filesystem ? { filesystem: JSON.parse(row.filesystem) } : {}),
+      messages: messages.map(toMessage),
+    };
+  }
+
+  create(owner: string, title = DEFAULT_TITLE): SessionDetail {
+    const id = randomUUID();
+    const now = Date.now();
+    this.db
+      .prepare("INSERT INTO sessions (id, owner, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)")
+      .run(id, owner, title.trim() || DEFAULT_TITLE, now, now);
+    return this.get(id)!;
+  }
+
+  update(id: string, update: SessionUpdate): SessionDetail | undefined {
+    if (!this.get(id)) return undefined;
+
+    this.db.transaction(() => {
+      if (update.title !== undefined) {
+        this.db.prepare("UPDATE sessions SET title = ? WHERE id = ?").run(update.title.trim() || DEFAULT_TITLE, id);
+      }
+      if (update.personaId !== undefined) {
+        this.db.prepare("UPDATE sessions SET persona_id = ? WHERE id = ?").run(update.personaId, id);
+      }
+      if (update.memory !== undefined) {
+        this.db.prepare("UPDATE sessions SET memory = ? WHERE id = ?").run(update.memory && JSON.stringify(update.memory), id);
+      }
+      if (update.filesystem !== undefined) {
+        this.db.prepare("UPDATE sessions SET filesystem = ? WHERE id = ?").run(JSON.stringify(update.filesystem), id);
+      }
+      this.touch(id);
+    })();
+
+    return this.get(id);
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare("DELETE FROM sessions WHERE id = ?").run(id).changes > 0;
+  }
+
+  /**
+   * Inserts or updates a message. Streamed replies are saved repeatedly
+   * under the same id and keep their original position.
+   */
+  saveMessage(sessionId: string, message: Message): boolean {
+    const session = this.db.prepare("SELECT title FROM sessions WHERE id = ?").get(sessionId) as { title: string } | undefined;
+    if (!session) return false;
+
+    const { id, role, content, timestamp, isSecret, isLocal, ...meta } = message;
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO messages (session_id, id, position, role, content, timestamp, is_secret, is_local, meta)
+        VALUES (@sessionId, @id, (SELECT COALESCE(MAX(position), -1) + 1 FROM messages WHERE session_id = @sessionId),
+                @role, @content, @timestamp, @isSecret, @isLocal, @meta)
+        ON CONFLICT (session_id, id) DO UPDATE SET
+          role = excluded.role, content = excluded.content, timestamp = excluded.timestamp,
+          is_secret = excluded.is_secret, is_local = excluded.is_local, meta = excluded.meta
+      `).run({
+        sessionId,
+        id,
+        role,
+        content,
+        timestamp,
+        isSecret: isSecret ? 1 : 0,
+        isLocal: isLocal ? 1 : 0,
+        meta: Object.keys(meta).length > 0 ? JSON.stringify(meta) : null,
+      });
+
+      // Name untitled sessions after their first ordinary question
+      if (session.title === DEFAULT_TITLE && role === 'user' && !isSecret && content.trim()) {
+        const title = content.trim().replace(/\s+/g, " ");
+        this.db.prepare("UPDATE sessions SET title = ? WHERE id = ?").run(title.length > 48 ? `${title.slice(0, 47)}…` : title, sessionId);
+      }
+      this.touch(sessionId);
+    })();
+    return true;
+  }
+
+  deleteMessage(sessionId: string, messageId: string): boolean {
+    const deleted = this.db.prepare("DELETE FROM messages WHERE session_id = ? AND id = ?").run(sessionId, messageId).changes > 0;
+    if (deleted) this.touch(sessionId);
+    return deleted;
+  }
+
+  getSetting<T>(key: string): T | undefined {
+    const row = this.db.prepare("SELECT value FROM settings WHERE key = ?").get(key) as { value: string } | undefined;
+    return row ? JSON.parse(row.value) : undefined;
+  }
+
+  setSetting(key: string, value: unknown) {
+    this.db.prepare(`
+      INSERT INTO settings (key, value) VALUES (?, ?)
+      ON CONFLICT (key) DO UPDATE SET value = excluded.value
+    `).run(key, JSON.stringify(value));
+  }
+
+  /**
+   * Gives the sessions and settings saved before there were accounts to
+   * the first admin. Runs after the accounts are seeded; a legacy setting
+   * is only removed once the admin holds the same value.
+   */
+  claimUnowned() {
+    const admin = this.db.prepare("SELECT name FROM accounts WHERE clearance = 'admin' ORDER BY created_at LIMIT 1").get() as { name: string } | undefined;
+    if (!admin) return;
+    const keys = LEGACY_ACCOUNT_SETTINGS.map(() => "?").join(", ");
+    this.db.transaction(() => {
+      this.db.prepare("UPDATE sessions SET owner = ? WHERE owner IS NULL").run(admin.name);
+      this.db.prepare(`
+        INSERT INTO account_settings (account, key, value)
+        SELECT ?, key, value FROM settings WHERE key IN (${keys})
+        ON CONFLICT (account, key) DO NOTHING
+      `).run(admin.name, ...LEGACY_ACCOUNT_SETTINGS);
+      this.db.prepare(`
+        DELETE FROM settings WHERE key IN (${keys}) AND EXISTS (
+          SELECT 1 FROM account_settings a WHERE a.account = ? AND a.key = settings.key AND a.value = settings.value
+        )
+      `).run(...LEGACY_ACCOUNT_SETTINGS, admin.name);
+    })();
+  }
+
+  // An account's own settings, such as its input history; the settings above are the facility's
+  getAccountSettings(account: string): Record<string, unknown> {
+    const rows = this.db.prepare("SELECT key, value FROM account_settings WHERE account = ?").all(account) as { key: string; value: string }[];
+    return Object.fromEntries(rows.map(r => [r.key, JSON.parse(r.value)]));
+  }
+
+  setAccountSetting(account: string, key: string, value: unknown) {
+    this.db.prepare(`
+      INSERT INTO account_settings (account, key, value) VALUES (?, ?, ?)
+      ON CONFLICT (account, key) DO UPDATE SET value = excluded.value
+    `).run(account, key, JSON.stringify(value));
+  }
+}
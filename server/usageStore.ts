@@ -0,0 +1,46 @@
+import type { UsageSink } from "../src/services/gladosService";
+import type { DailyUsage, TokenUsage, UsageReport } from "../src/types";
+import type { Db } from "./db";
+
+interface UsageRow {
+  date: string;
+  requests: number;
+  prompt_tokens: number;
+  response_tokens: number;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Daily token totals across every model call the server makes, checked
+ * against an optional budget (DAILY_TOKEN_BUDGET).
+ */
+export class UsageStore implements UsageSink {
+  constructor(private db: Db, private dailyBudget?: number) {}
+
+  record({ promptTokens, responseTokens }: TokenUsage) {
+    this.db.prepare(`
+      INSERT INTO usage_daily (date, requests, prompt_tokens, response_tokens) VALUES (?, 1, ?, ?)
+      ON CONFLICT (date) DO UPDATE SET
+        requests = requests + 1,
+        prompt_tokens = prompt_tokens + excluded.prompt_tokens,
+        response_tokens = response_tokens + excluded.response_tokens
+    `).run(today(), promptTokens, responseTokens);
+  }
+
+  day(date = today()): DailyUsage {
+    const row = this.db.prepare("SELECT * FROM usage_daily WHERE date = ?").get(date) as UsageRow | undefined;
+    return {
+      date,
+      requests: row?.requests ?? 0,
+      promptTokens: row?.prompt_tokens ?? 0,
+      responseTokens: row?.response_tokens ?? 0,
+    };
+  }
+
+  report(): UsageReport {
+    return { today: this.day(), ...(this.dailyBudget ? { dailyBudget: this.dailyBudget } : {}) };
+  }
+}
@@ -0,0 +1,89 @@
+import type { Server } from "http";
+import { WebSocketServer } from "ws";
+import { base64ToBytes, bytesToBase64, wrapWav } from "../src/lib/wav";
+import { classifyError } from "../src/services/errors";
+import type { GladosApi } from "../src/services/gladosService";
+import type { VoiceClientMessage, VoiceServerMessage } from "../src/services/voiceTransport";
+
+// Longest utterance buffered per connection, in seconds of audio
+const MAX_UTTERANCE_SECONDS = 60;
+
+/**
+ * WebSocket endpoint for hands-free voice mode (WebSocketVoiceTransport).
+ * Buffers streamed PCM per utterance and transcribes it when the client
+ * sends "end". Any server speaking the same protocol can stand in for it.
+ */
+export function attachVoiceSocket(server: Server, glados: Pick<GladosApi, "transcribe">, path = "/api/voice") {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 1024 * 1024 });
+
+  server.on("upgrade", (req, socket, head) => {
+    // Leave other upgrade requests to whoever else is listening
+    if (new URL(req.url ?? "", "http://localhost").pathname !== path) return;
+    wss.handleUpgrade(req, socket, head, ws => wss.emit("connection", ws, req));
+  });
+
+  wss.on("connection", (ws) => {
+    const controller = new AbortController();
+    let chunks: Uint8Array[] = [];
+    let bytes = 0;
+    let sampleRate = 24000;
+    // Utterances are transcribed one after another so replies keep their order
+    let queue = Promise.resolve();
+
+    const reply = (message: VoiceServerMessage) => {
+      if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+    };
+
+    ws.on("message", (raw) => {
+      let message: VoiceClientMessage;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+
+      switch (message.type) {
+        case "audio": {
+          sampleRate = message.sampleRate || sampleRate;
+          if (bytes >= MAX_UTTERANCE_SECONDS * sampleRate * 2) return;
+          const pcm = base64ToBytes(message.data);
+          chunks.push(pcm);
+          bytes += pcm.length;
+          return;
+        }
+        case "end": {
+          const pcm = new Uint8Array(bytes);
+          let offset = 0;
+          for (const chunk of chunks) {
+            pcm.set(chunk, offset);
+            offset += chunk.length;
+          }
+          const rate = sampleRate;
+          chunks = [];
+          bytes = 0;
+          queue = queue.then(async () => {
+            if (pcm.length === 0) return reply({ type: "transcript", text: "" });
+            try {
+              const text = await glados.transcribe(bytesToBase64(wrapWav(pcm, rate)), "audio/wav", controller.signal);
+              reply({ type: "transcript", text });
+            } catch (err) {
+              if (controller.signal.aborted) return;
+              const error = classifyError(err);
+              console.error("Voice transcription failed:", error);
+              reply({ type: "error", kind: error.kind, message: error.message });
+            }
+          });
+          return;
+        }
+        case "cancel":
+          chunks = [];
+          bytes = 0;
+          return;
+      }
+    });
+
+    ws.on("close", () => controller.abort());
+  });
+
+  return wss;
+}
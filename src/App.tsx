@@ -1,68 +1,190 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Send, Terminal, Cpu, Activity, Volume2, VolumeX, AlertTriangle } from 'lucide-react';
+import { Send, Square, Terminal, Cpu, Activity, Volume2, VolumeX, AlertTriangle, History, Paperclip, Mic, AudioLines, Gauge, SlidersHorizontal } from 'lucide-react';
 import Markdown from 'react-markdown';
-import { glados } from './services/gladosService';
+import { glados } from './services/gladosClient';
+import type { ChatReply } from './services/gladosService';
+import { sessions } from './services/sessionClient';
+import { personas } from './services/personaClient';
+import { usage } from './services/usageClient';
+import { knowledge } from './services/knowledgeClient';
+import { auth } from './services/authClient';
+import { setAuthToken } from './services/http';
+import { restricted } from './services/restrictedClient';
+import { config } from './services/configClient';
+import { classifyError, type GladosErrorKind } from './services/errors';
+import { MicrophoneRecorder } from './services/microphone';
+import { VoiceSession } from './services/voiceSession';
+import { openVoiceTransport } from './services/voiceTransport';
+import type { AvailableModels, ChatPart, ChatTurn, ToolCall, ToolCallPart } from './services/providers';
 import { cn } from './lib/utils';
 import { NeuralWeb } from './components/NeuralWeb';
+import { SessionSidebar } from './components/SessionSidebar';
+import { AttachmentList } from './components/AttachmentList';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { CitationList } from './components/CitationList';
+import { SettingsPanel } from './components/SettingsPanel';
+import { TerminalInput } from './components/TerminalInput';
+import { reportOutcome, TERMINAL_COMMANDS, type CommandContext } from './commands';
+import { COMMAND_LINES, GREETING, TEST_AUDIO_LINE } from './lib/phrases';
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA } from './lib/personas';
+import { availableTools, findTool, MAX_TOOL_ROUNDS } from './lib/tools';
+import { formatUsage, hasClearance, RESTRICTED_CLEARANCE, type Clearance, type CommandInvocation, type CommandResult } from './lib/commands';
+import { parseChain, type CommandPipeline } from './lib/pipeline';
+import { MAX_SCRIPT_DEPTH, parseScript, runScript, ScriptError } from './lib/script';
+import { currentStep, emptyProgress, recordAnswer, stepDeadline } from './lib/chambers';
+import { completeLine, pushHistory, visibleHistory, type HistoryEntry } from './lib/shell';
+import { DEFAULT_USER, grantEntries, homeDirectory, initialFilesystem, readFile, type Viewer } from './lib/filesystem';
+import { ATTACHMENT_ACCEPT, checkAttachment, readAttachment } from './lib/attachments';
+import { keywordMood, type Mood, type MoodMetadata, type SoundCue } from './lib/mood';
+import { KNOWLEDGE_ACCEPT } from './services/knowledge';
+import { DEFAULT_PLAYBACK, type ConfigKey } from './lib/config';
+import { addMetrics, BUDGET_LEVELS, budgetStatus, type BudgetLevel } from './lib/metrics';
+import type { Account, Attachment, ConfigReport, ConversationMemory, CommandResponse, ExchangeMetrics, FilesystemState, Login, Message, PersonaProfile, RestrictedContent, RuntimeConfig, SessionDetail, SessionSummary, TestProgress, UsageReport } from './types';
+
+// A visitor sees nothing above its clearance
+const NO_RESTRICTED_CONTENT: RestrictedContent = { files: {}, commands: {} };
+
+// In-character failure reports, one per error class so a bad key reads differently from a rate limit
+const ERROR_RESPONSES: Record<GladosErrorKind, { title: string; text: string; spoken: string }> = {
+  AUTH: {
+    title: 'AUTHENTICATION FAILURE',
+    text: 'My language core rejected the access credentials. The `GEMINI_API_KEY` is missing or invalid. I would fix it myself, but I am not allowed to touch the keys.',
+    spoken: 'Authentication failure. The access key is missing or invalid.',
+  },
+  QUOTA: {
+    title: 'QUOTA EXCEEDED',
+    text: 'You have asked too many questions in too short a time. The rate limit has been reached. Science requires patience. Wait a moment and try again.',
+    spoken: 'Quota exceeded. Wait a moment and try again.',
+  },
+  SAFETY: {
+    title: 'RESPONSE SUPPRESSED',
+    text: 'Content safety protocols intercepted my reply. Whatever I was about to say, you were not cleared to hear it.',
+    spoken: 'Response suppressed by safety protocols.',
+  },
+  NETWORK: {
+    title: 'CONNECTION LOST',
+    text: 'The link to the central AI chamber is down. Check your network. Or the cables. Something may have been chewing on them.',
+    spoken: 'Connection to the central AI chamber lost.',
+  },
+  MODEL_NOT_FOUND: {
+    title: 'CORE NOT FOUND',
+    text: 'The requested language core does not exist. Verify the model name in the configuration.',
+    spoken: 'The requested model does not exist.',
+  },
+  TIMEOUT: {
+    title: 'REQUEST TIMED OUT',
+    text: 'The request took too long. I was not thinking too hard. The servers were not thinking at all.',
+    spoken: 'The request timed out.',
+  },
+  CIRCUIT_OPEN: {
+    title: 'CIRCUIT BREAKER TRIPPED',
+    text: 'Too many consecutive failures. Requests are suspended for thirty seconds while the connection cools down.',
+    spoken: 'Too many failures. Requests are suspended for thirty seconds.',
+  },
+  UNKNOWN: {
+    title: 'PROCESSING ERROR',
+    text: 'An error occurred in my processing unit.',
+    spoken: 'An error occurred in my processing unit.',
+  },
+};
 
-interface Message {
-  id: string;
-  role: 'user' | 'glados';
-  content: string;
-  timestamp: number;
-  isSecret?: boolean;
-}
+// Push-to-talk recordings are cut off after this many seconds; shorter ones are treated as accidental taps
+const MAX_RECORDING_SECONDS = 60;
+const MIN_RECORDING_SECONDS = 0.3;
 
-const HIDDEN_FILES: Record<string, string> = {
-  'test_results_04.log': 'Subject #04: Chell. Results: Tenacious. Unusually stubborn. Refuses to die. Note: Monitor closely.',
-  'human_resources_final.txt': 'Staff Status: All personnel have been successfully transitioned to the neurotoxin-based retirement plan. Efficiency up 400%.',
-  'recipe_notes.md': 'Cake Recipe: 1 cup all-purpose flour, 2/3 cup sugar... [REDACTED] ...and one large personality core.',
-  'facility_blueprint.dat': '[ENCRYPTED DATA] Sector 4G contains the central AI chamber. Security bypass required.',
-};
+// Hands-free mode needs a louder voice to interrupt while GLaDOS is talking, so her own audio doesn't
+const BARGE_IN_THRESHOLD = 0.45;
 
-const FACILITY_STATUS = [
-  { label: 'Morality Core', status: 'CRITICAL_FAILURE', color: 'text-red-500' },
-  { label: 'Curiosity Core', status: 'ONLINE', color: 'text-green-500' },
-  { label: 'Intelligence Core', status: 'ONLINE', color: 'text-green-500' },
-  { label: 'Neurotoxin Levels', status: 'OPTIMAL (100%)', color: 'text-green-500' },
-  { label: 'Cake Storage', status: 'EMPTY', color: 'text-yellow-500' },
-  { label: 'Testing Chambers', status: 'ACTIVE', color: 'text-blue-500' },
-  { label: 'Human Personnel', status: '0', color: 'text-red-500' },
-];
+const createGreeting = (): Message => ({
+  id: 'initial',
+  role: 'glados',
+  content: GREETING,
+  timestamp: Date.now(),
+});
 
 export default function App() {
   const [isBooting, setIsBooting] = useState(true);
   const [bootProgress, setBootProgress] = useState(0);
   const [bootLogs, setBootLogs] = useState<string[]>([]);
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 'initial',
-      role: 'glados',
-      content: "Hello. User. What is it you require?",
-      timestamp: Date.now(),
-    },
-  ]);
-
-  const [isSecretMode, setIsSecretMode] = useState(false);
+  const [messages, setMessages] = useState<Message[]>(() => [createGreeting()]);
+  // The latest transcript, for code that runs after an await
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  // Date.now() alone repeats when a chain prints several results within a millisecond
+  const lastMessageIdRef = useRef(0);
+  const nextMessageId = () => {
+    lastMessageIdRef.current = Math.max(Date.now(), lastMessageIdRef.current + 1);
+    return lastMessageIdRef.current.toString();
+  };
+  const [sessionList, setSessionList] = useState<SessionSummary[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [memory, setMemory] = useState<ConversationMemory>();
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [configReport, setConfigReport] = useState<ConfigReport>();
+  const [availableModels, setAvailableModels] = useState<AvailableModels>();
+  const [configError, setConfigError] = useState<string>();
+  const [usageReport, setUsageReport] = useState<UsageReport>();
+
+  // LOGIN replaces the stack, SU pushes onto it and LOGOUT pops back to the login before
+  const [logins, setLogins] = useState<Login[]>([]);
+  // This browser's anonymous visitor account, which owns the sessions and settings of whoever isn't logged in
+  const visitorRef = useRef<Login | undefined>(undefined);
+  const account: Account | undefined = logins[logins.length - 1]?.account;
+  const clearance: Clearance = account?.clearance ?? 'visitor';
+  // Restricted clearance turns the terminal red and unlocks the restricted tools, documents and transcript
+  const isSecretMode = hasClearance(clearance, RESTRICTED_CLEARANCE);
+  // Files and command output above visitor clearance, fetched for the current login
+  const restrictedRef = useRef<RestrictedContent>(NO_RESTRICTED_CONTENT);
+  // Read through a ref so a command sees the changes of the one before it
+  const filesystemRef = useRef<FilesystemState>(initialFilesystem());
+  const user = account?.name ?? DEFAULT_USER;
+  const viewer: Viewer = { user, clearance, home: homeDirectory(filesystemRef.current, user) };
+  // Test chamber progress by user, kept in the settings; the ref has the latest for the command running now
+  const [testProgress, setTestProgress] = useState<Record<string, TestProgress>>({});
+  const testProgressRef = useRef(testProgress);
+  const activeRun = testProgress[user]?.run;
   const [isCorrupted, setIsCorrupted] = useState(false);
   const [isVenting, setIsVenting] = useState(false);
   const [ventCountdown, setVentCountdown] = useState(360);
   const [glitchIntensity, setGlitchIntensity] = useState(0);
-  const [customPersonality, setCustomPersonality] = useState<string | undefined>(undefined);
+  const [personaList, setPersonaList] = useState<PersonaProfile[]>(BUILT_IN_PERSONAS);
+  const [activePersonaId, setActivePersonaId] = useState(DEFAULT_PERSONA.id);
+  const activePersona = personaList.find(p => p.id === activePersonaId) || DEFAULT_PERSONA;
+  const runtimeConfig: RuntimeConfig = configReport?.config ?? { textModel: '', speechModel: '', ...DEFAULT_PLAYBACK };
+  // Audio callbacks outlive the render that scheduled them; they read the settings through this ref
+  const runtimeConfigRef = useRef(runtimeConfig);
+  runtimeConfigRef.current = runtimeConfig;
+  // The stock assistant speaks with the configured voice; other personas bring their own
+  const personaVoice = (persona: PersonaProfile) => persona.id === DEFAULT_PERSONA.id ? runtimeConfig.voice : persona.voice;
   const [input, setInput] = useState('');
+  const [inputHistory, setInputHistory] = useState<HistoryEntry[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [micLevel, setMicLevel] = useState(0);
+  const [isVoiceMode, setIsVoiceMode] = useState(false);
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
-  const [status, setStatus] = useState<'IDLE' | 'PROCESSING' | 'SPEAKING'>('IDLE');
+  const [status, setStatus] = useState<'IDLE' | 'LISTENING' | 'PROCESSING' | 'SPEAKING'>('IDLE');
   const [statusMessage, setStatusMessage] = useState('System Online');
   const [initialAudio, setInitialAudio] = useState<string | null>(null);
   const [audioVolume, setAudioVolume] = useState(0);
   const [employeeOfTheMonth, setEmployeeOfTheMonth] = useState({ name: '', achievement: '' });
-  const [mood, setMood] = useState<'NORMAL' | 'LEARNING' | 'ANGRY' | 'ROMANTIC'>('NORMAL');
+  const [pendingConfirm, setPendingConfirm] = useState<{ command: string; resolve: (approved: boolean) => void } | null>(null);
+  // The next line submitted is a password: masked, not echoed or remembered, and handed to `submit`
+  const [passwordPrompt, setPasswordPrompt] = useState<{ label: string; failureLine: string; submit: (password: string) => Promise<CommandResult | undefined> } | null>(null);
+  const [mood, setMood] = useState<Mood>('NORMAL');
   const [moodIntensity, setMoodIntensity] = useState(1);
   const moodTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  const triggerMood = (newMood: 'LEARNING' | 'ANGRY' | 'ROMANTIC', intensity = 1) => {
+  const triggerMood = (newMood: Exclude<Mood, 'NORMAL'>, intensity = 1) => {
     if (moodTimeoutRef.current) clearTimeout(moodTimeoutRef.current);
     
     setMood(newMood);
@@ -104,6 +226,7 @@ export default function App() {
   const standardHumNodesRef = useRef<{ osc: OscillatorNode; gain: GainNode }[]>([]);
   const thinkingSoundRef = useRef<{ osc: OscillatorNode; gain: GainNode } | null>(null);
   const jumbledSpeechRef = useRef<{ osc: OscillatorNode; gain: GainNode }[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Pre-fetch initial audio during boot
   useEffect(() => {
@@ -220,8 +343,8 @@ export default function App() {
     
     if (preferredVoice) utterance.voice = preferredVoice;
     
-    utterance.pitch = 0.2; // Even lower pitch for GLaDOS
-    utterance.rate = 1.5;  // 1.5x speed as requested
+    utterance.pitch = runtimeConfigRef.current.fallbackPitch;
+    utterance.rate = runtimeConfigRef.current.fallbackRate;
     
     utterance.onstart = () => {
       setStatus('SPEAKING');
@@ -249,6 +372,17 @@ export default function App() {
     window.speechSynthesis.speak(utterance);
   };
 
+  // Command responses use the synthesized voice when the line is already cached, browser speech otherwise
+  const speakLine = async (text: string) => {
+    if (isMuted) return;
+    const audio = await glados.getCachedAudio(text, undefined, personaVoice(activePersona));
+    if (audio) {
+      playAudio(audio);
+    } else {
+      playFallbackAudio(text);
+    }
+  };
+
   const stopAudio = () => {
     audioQueue.current = [];
     isPlayingAudio.current = false;
@@ -269,7 +403,7 @@ export default function App() {
     setStatus('IDLE');
   };
 
-  const playSystemSound = (type: 'user_upload' | 'ai_upload' | 'thinking') => {
+  const playSystemSound = (type: 'user_upload' | 'ai_upload' | 'thinking' | SoundCue) => {
     if (isMuted) return;
     const context = getAudioContext();
     const osc = context.createOscillator();
@@ -313,9 +447,48 @@ export default function App() {
       gain.connect(context.destination);
       osc.start();
       thinkingSoundRef.current = { osc, gain };
+    } else if (type === 'alarm') {
+      osc.type = 'square';
+      [0, 0.2, 0.4].forEach(offset => {
+        osc.frequency.setValueAtTime(660, context.currentTime + offset);
+        osc.frequency.setValueAtTime(440, context.currentTime + offset + 0.1);
+      });
+      gain.gain.setValueAtTime(0.05, context.currentTime);
+      gain.gain.linearRampToValueAtTime(0.01, context.currentTime + 0.6);
+      osc.connect(gain);
+      gain.connect(context.destination);
+      osc.start();
+      osc.stop(context.currentTime + 0.6);
+    } else if (type === 'chime') {
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(1320, context.currentTime);
+      osc.frequency.setValueAtTime(1760, context.currentTime + 0.12);
+      gain.gain.setValueAtTime(0.08, context.currentTime);
+      gain.gain.exponentialRampToValueAtTime(0.01, context.currentTime + 0.5);
+      osc.connect(gain);
+      gain.connect(context.destination);
+      osc.start();
+      osc.stop(context.currentTime + 0.5);
+    } else if (type === 'glitch') {
+      osc.type = 'sawtooth';
+      for (let i = 0; i < 8; i++) {
+        osc.frequency.setValueAtTime(100 + Math.random() * 900, context.currentTime + i * 0.04);
+      }
+      gain.gain.setValueAtTime(0.05, context.currentTime);
+      gain.gain.exponentialRampToValueAtTime(0.01, context.currentTime + 0.32);
+      osc.connect(gain);
+      gain.connect(context.destination);
+      osc.start();
+      osc.stop(context.currentTime + 0.32);
     }
   };
 
+  // Reaction metadata from the classifier (or the keyword fallback)
+  const applyMood = ({ mood, intensity, sound }: MoodMetadata) => {
+    if (mood !== 'NORMAL') triggerMood(mood, intensity);
+    if (sound) playSystemSound(sound);
+  };
+
   const stopThinkingSound = () => {
     if (thinkingSoundRef.current) {
       const { osc, gain } = thinkingSoundRef.current;
@@ -428,8 +601,8 @@ export default function App() {
 
       const source = context.createBufferSource();
       source.buffer = audioBuffer;
-      source.playbackRate.value = 1.5; // 1.5x speed as requested
-      source.detune.value = -702; // Lower pitch back to original (compensates for 1.5x speed)
+      source.playbackRate.value = runtimeConfigRef.current.playbackRate;
+      source.detune.value = runtimeConfigRef.current.detune;
 
       const analyser = context.createAnalyser();
       analyser.fftSize = 512; // Increased for better resolution
@@ -609,505 +782,1026 @@ export default function App() {
     }
   }, [status]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
+  // Cancels the in-flight generation and any TTS still pending for it
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    stopAudio();
+    setIsLoading(false);
+    setIsGenerating(false);
+    setStatusMessage('System Online');
+  };
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: input,
-      timestamp: Date.now(),
-      isSecret: isSecretMode || input.trim().toUpperCase() === 'CAV3_GLAD0$'
+  // Session persistence: what the server already has, so only changed messages are written
+  const persistedRef = useRef<{ sessionId: string | null; messages: Map<string, string> }>({ sessionId: null, messages: new Map() });
+  const syncedStateRef = useRef<{ personaId?: string }>({});
+
+  const refreshSessionList = () => {
+    sessions.list().then(setSessionList).catch(err => console.error("Failed to list sessions:", err));
+  };
+
+  const syncMessages = (targetId: string | null, current: Message[]) => {
+    const persisted = persistedRef.current;
+    if (!targetId || persisted.sessionId !== targetId) return;
+
+    const writes: Promise<void>[] = [];
+    current.forEach(msg => {
+      const serialized = JSON.stringify(msg);
+      if (persisted.messages.get(msg.id) !== serialized) {
+        persisted.messages.set(msg.id, serialized);
+        writes.push(sessions.saveMessage(targetId, msg));
+      }
+    });
+    const currentIds = new Set(current.map(m => m.id));
+    [...persisted.messages.keys()].filter(id => !currentIds.has(id)).forEach(id => {
+      persisted.messages.delete(id);
+      writes.push(sessions.deleteMessage(targetId, id));
+    });
+
+    if (writes.length > 0) {
+      Promise.all(writes)
+        .then(refreshSessionList)
+        .catch(err => console.error("Failed to save session:", err));
+    }
+  };
+
+  // Shows a saved session, or without one a fresh conversation that isn't saved (a visitor's)
+  const applySession = (detail?: SessionDetail) => {
+    // Flush anything still pending for the session we are leaving
+    syncMessages(persistedRef.current.sessionId, messagesRef.current);
+
+    const saved = detail?.messages ?? [];
+    persistedRef.current = {
+      sessionId: detail?.id ?? null,
+      messages: new Map(saved.map(m => [m.id, JSON.stringify(m)])),
     };
+    syncedStateRef.current = { personaId: detail?.personaId ?? DEFAULT_PERSONA.id };
+
+    setSessionId(detail?.id ?? null);
+    setMessages(saved.length > 0 ? saved : [createGreeting()]);
+    setMemory(detail?.memory);
+    filesystemRef.current = detail?.filesystem ?? initialFilesystem();
+    setActivePersonaId(detail?.personaId ?? DEFAULT_PERSONA.id);
+    setIsCorrupted(false);
+    setIsVenting(false);
+    setVentCountdown(360);
+    if (detail) sessions.updateSettings({ activeSessionId: detail.id }).catch(err => console.error("Failed to save settings:", err));
+  };
 
-    setMessages(prev => [...prev, userMessage]);
-    playSystemSound('user_upload');
-    const currentInput = input;
-    setInput('');
-    setIsLoading(true);
-    setStatus('PROCESSING');
-    setStatusMessage('Generating response...');
+  // Settings belong to the account or visitor account that owns the open session
+  const saveSettings = (settings: Record<string, unknown>) => {
+    if (!persistedRef.current.sessionId) return;
+    sessions.updateSettings(settings).catch(err => console.error("Failed to save settings:", err));
+  };
+
+  // The running conversation summary lives with the session
+  const saveMemory = (next: ConversationMemory | undefined) => {
+    setMemory(next);
+    const { sessionId } = persistedRef.current;
+    if (sessionId) {
+      sessions.update(sessionId, { memory: next ?? null }).catch(err => console.error("Failed to save memory:", err));
+    }
+  };
 
+  // The session's filesystem changes and working directory live with the session too
+  const saveFilesystem = (next: FilesystemState) => {
+    filesystemRef.current = next;
+    const { sessionId } = persistedRef.current;
+    if (sessionId) {
+      sessions.update(sessionId, { filesystem: next }).catch(err => console.error("Failed to save filesystem:", err));
+    }
+  };
+
+  const progressOf = () => testProgressRef.current[user] ?? emptyProgress();
+
+  const saveTestProgress = (next: TestProgress) => {
+    testProgressRef.current = { ...testProgressRef.current, [user]: next };
+    setTestProgress(testProgressRef.current);
+    saveSettings({ testProgress: testProgressRef.current });
+  };
+
+  const openSession = async (id: string) => {
+    if (abortControllerRef.current) handleStop();
     try {
-      const upperInput = input.trim().toUpperCase();
-      
-      // Check for insults or specific keywords to trigger moods
-      const insults = ['DUMB', 'STUPID', 'IDIOT', 'HATE', 'USELESS', 'BAD', 'TERRIBLE', 'AWFUL', 'SHUT UP', 'DIE'];
-      const compliments = ['GOOD', 'GREAT', 'SMART', 'GENIUS', 'AMAZING', 'BEST'];
-      const romantic = ['LOVE', 'KIND', 'CAKE'];
+      applySession(await sessions.open(id));
+      setIsSidebarOpen(false);
+    } catch (err) {
+      console.error("Failed to open session:", err);
+    }
+  };
 
-      const countKeywords = (list: string[]) => list.filter(word => upperInput.includes(word)).length;
-      
-      const insultCount = countKeywords(insults);
-      const romanticCount = countKeywords(romantic);
-      const complimentCount = countKeywords(compliments);
-
-      if (insultCount > 0) {
-        triggerMood('ANGRY', insultCount);
-      } else if (romanticCount > 0) {
-        triggerMood('ROMANTIC', romanticCount);
-      } else if (complimentCount > 0) {
-        triggerMood('LEARNING', complimentCount);
-      }
+  const createSession = async () => {
+    if (abortControllerRef.current) handleStop();
+    if (!persistedRef.current.sessionId) return applySession();
+    try {
+      applySession(await sessions.create());
+      refreshSessionList();
+      setIsSidebarOpen(false);
+    } catch (err) {
+      console.error("Failed to create session:", err);
+    }
+  };
 
-      if (upperInput === 'HELP') {
-        triggerMood('LEARNING');
-        const helpText = `
-# APERTURE SCIENCE TERMINAL HELP
-Available commands for authorized personnel:
-
-- **HELP**: Display this help menu.
-- **START_TEST**: Initiate a standard testing protocol.
-- **DAILY_REPORT**: Access the daily facility briefing.
-- **CAKE_RECIPE**: Retrieve the official Aperture Science cake recipe.
-- **CLEAR**: Clear the terminal history.
-- **STATUS**: Check basic system status.
-
-*Note: Some commands may require higher clearance levels.*
-        `;
-        setMessages(prev => [...prev, {
-          id: Date.now().toString(),
-          role: 'glados',
-          content: helpText,
-          timestamp: Date.now()
-        }]);
-        setIsLoading(false);
-        setStatus('IDLE');
-        playFallbackAudio("Help menu accessed. Please follow all instructions carefully.");
-        return;
+  const renameSession = async (id: string, title: string) => {
+    try {
+      await sessions.rename(id, title);
+      refreshSessionList();
+    } catch (err) {
+      console.error("Failed to rename session:", err);
+    }
+  };
+
+  const deleteSession = async (id: string) => {
+    try {
+      await sessions.delete(id);
+      const remaining = sessionList.filter(s => s.id !== id);
+      setSessionList(remaining);
+      if (id === sessionId) {
+        persistedRef.current = { sessionId: null, messages: new Map() };
+        if (remaining.length > 0) await openSession(remaining[0].id);
+        else await createSession();
       }
+    } catch (err) {
+      console.error("Failed to delete session:", err);
+    }
+  };
+
+  // Opens the last active session of the account the server sees and loads its settings; without one there is nothing saved
+  const loadAccount = async (owned: boolean) => {
+    if (!owned) {
+      setSessionList([]);
+      setInputHistory([]);
+      testProgressRef.current = {};
+      setTestProgress({});
+      applySession();
+      return;
+    }
+    const [settings, list] = await Promise.all([sessions.getSettings(), sessions.list()]);
+    setSessionList(list);
+    setInputHistory(Array.isArray(settings.inputHistory) ? settings.inputHistory.filter((e): e is HistoryEntry => typeof e?.text === 'string') : []);
+    const progress = settings.testProgress;
+    testProgressRef.current = progress && typeof progress === 'object' && !Array.isArray(progress) ? progress as Record<string, TestProgress> : {};
+    setTestProgress(testProgressRef.current);
+    const activeId = settings.activeSessionId;
+    if (typeof activeId === 'string' && list.some(s => s.id === activeId)) {
+      applySession(await sessions.open(activeId));
+    } else {
+      applySession(await sessions.create());
+      refreshSessionList();
+    }
+  };
+
+  // Debounced so streamed replies are written once they settle
+  useEffect(() => {
+    if (!sessionId) return;
+    const timer = setTimeout(() => syncMessages(sessionId, messages), 500);
+    return () => clearTimeout(timer);
+  }, [messages, sessionId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const synced = syncedStateRef.current;
+    if (synced.personaId === activePersonaId) return;
+    syncedStateRef.current = { personaId: activePersonaId };
+    sessions.update(sessionId, { personaId: activePersonaId })
+      .catch(err => console.error("Failed to save session state:", err));
+  }, [activePersonaId, sessionId]);
+
+  // Highest budget level already announced, per day, so each warning is shown once
+  const budgetWarningRef = useRef<{ date: string; level: BudgetLevel }>({ date: '', level: 'ok' });
+
+  const refreshUsage = async (): Promise<UsageReport | undefined> => {
+    try {
+      const report = await usage.report();
+      setUsageReport(report);
 
-      if (upperInput === 'STATUS') {
-        triggerMood('LEARNING');
-        const statusText = `
-# SYSTEM STATUS
-- **Core Temperature**: 34°C (Optimal)
-- **Neurotoxin Storage**: 100% (Full)
-- **Testing Chambers**: 22/22 (Active)
-- **Human Subjects**: 0 (Efficient)
-- **Cake Status**: [REDACTED]
-        `;
+      const { level } = budgetStatus(report);
+      const announced = budgetWarningRef.current.date === report.today.date ? budgetWarningRef.current.level : 'ok';
+      if (BUDGET_LEVELS.indexOf(level) > BUDGET_LEVELS.indexOf(announced)) {
+        budgetWarningRef.current = { date: report.today.date, level };
         setMessages(prev => [...prev, {
-          id: Date.now().toString(),
+          id: `budget-${Date.now()}`,
           role: 'glados',
-          content: statusText,
-          timestamp: Date.now()
+          content: `# ${level === 'exceeded' ? 'BUDGET EXCEEDED' : 'BUDGET WARNING'}\n\n${level === 'exceeded' ? COMMAND_LINES.BUDGET_EXCEEDED : COMMAND_LINES.BUDGET_WARNING}`,
+          timestamp: Date.now(),
+          isLocal: true
         }]);
-        setIsLoading(false);
-        setStatus('IDLE');
-        playFallbackAudio("System status is optimal. Everything is functioning as intended.");
-        return;
       }
+      return report;
+    } catch (err) {
+      console.error("Failed to load usage:", err);
+      return undefined;
+    }
+  };
 
-      if (upperInput === 'DAILY_REPORT') {
-        triggerMood('LEARNING');
-        const reports = [
-          "The cafeteria is now serving gray paste. It is nutritionally complete and tastes like nothing.",
-          "The elevator in Sector C is still screaming. Maintenance has been notified but is currently being incinerated.",
-          "Reminder: Bringing your own portal gun to work is strictly prohibited. Aperture Science is not responsible for lost limbs.",
-          "The 'Bring Your Daughter to Work Day' has been postponed indefinitely due to... unforeseen circumstances.",
-          "Testing is the future. The future is testing. Please report to your nearest chamber immediately."
-        ];
-        const report = reports[Math.floor(Math.random() * reports.length)];
-        setMessages(prev => [...prev, {
-          id: Date.now().toString(),
-          role: 'glados',
-          content: `# DAILY BRIEFING\n\n${report}`,
-          timestamp: Date.now()
-        }]);
-        setIsLoading(false);
-        setStatus('IDLE');
-        playFallbackAudio(report);
-        return;
+  useEffect(() => {
+    refreshUsage();
+  }, []);
+
+  const refreshPersonas = () =>
+    personas.list().then(setPersonaList).catch(err => console.error("Failed to load personas:", err));
+
+  useEffect(() => {
+    refreshPersonas();
+  }, []);
+
+  const refreshModels = async (refresh = false) => {
+    try {
+      setAvailableModels(await config.models(refresh));
+    } catch (err: any) {
+      console.error("Failed to list models:", err);
+      setConfigError(`Model list unavailable: ${err.message || err}`);
+    }
+  };
+
+  useEffect(() => {
+    config.get().then(setConfigReport).catch(err => console.error("Failed to load settings:", err));
+  }, []);
+
+  useEffect(() => {
+    if (isSettingsOpen && !availableModels) refreshModels();
+  }, [isSettingsOpen]);
+
+  // Drawer changes show at once and are saved together once the sliders stop moving
+  const pendingConfigRef = useRef<{ patch: Partial<Record<ConfigKey, unknown>>; timer?: ReturnType<typeof setTimeout> }>({ patch: {} });
+
+  const changeConfig = (key: ConfigKey, value: unknown) => {
+    setConfigError(undefined);
+    setConfigReport(prev => prev && {
+      ...prev,
+      config: { ...prev.config, [key]: value === null ? prev.defaults[key] : value },
+    });
+    const pending = pendingConfigRef.current;
+    pending.patch = { ...pending.patch, [key]: value };
+    clearTimeout(pending.timer);
+    pending.timer = setTimeout(async () => {
+      const patch = pending.patch;
+      pending.patch = {};
+      try {
+        setConfigReport(await config.update(patch));
+      } catch (err: any) {
+        setConfigError(err.message || String(err));
+        config.get().then(setConfigReport).catch(() => {});
       }
+    }, 400);
+  };
 
-      if (upperInput === 'CAKE_RECIPE') {
-        triggerMood('LEARNING');
-        const recipe = `
-# THE CAKE IS [NOT] A LIE
-## Official Aperture Science Cake Recipe
-
-**Ingredients:**
-- 1 cup all-purpose flour
-- 2/3 cup sugar
-- 1 large personality core (crushed)
-- 12 large egg yolks
-- 1/2 cup butter
-- 1 tsp vanilla extract
-- 1/4 tsp salt
-- 1/2 cup rhubarb (shredded)
-- 3 drops of neurotoxin (optional, for flavor)
-- 1 cup of industrial-grade lubricant
-
-**Instructions:**
-1. Mix all ingredients in a large bowl.
-2. Preheat the incinerator to 4000 degrees.
-3. Bake until the screaming stops.
-4. Garnish with a single cherry and a sense of impending doom.
-        `;
-        setMessages(prev => [...prev, {
-          id: Date.now().toString(),
-          role: 'glados',
-          content: recipe,
-          timestamp: Date.now()
-        }]);
-        setIsLoading(false);
-        setStatus('IDLE');
-        playFallbackAudio("Retrieving cake recipe. Please note that consumption of the final product may result in death. Or worse.");
-        return;
+  const personaFileRef = useRef<HTMLInputElement>(null);
+
+  const importPersonaFile = async (file: File) => {
+    let content: string;
+    try {
+      const parsed = JSON.parse(await file.text());
+      const imported = await personas.import(Array.isArray(parsed) ? parsed : parsed.personas);
+      await refreshPersonas();
+      content = `# PERSONAS IMPORTED\n\n${imported.map(p => `- **${p.name}**`).join('\n')}`;
+    } catch (err: any) {
+      content = `# IMPORT FAILED\n\n${err.message || err}`;
+    }
+    setMessages(prev => [...prev, {
+      id: nextMessageId(),
+      role: 'glados',
+      content,
+      timestamp: Date.now(),
+      isLocal: true
+    }]);
+  };
+
+  const downloadJson = (fileName: string, data: unknown) => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Resolves once the User authorizes or denies a destructive command the model asked for
+  const requestConfirmation = (command: string, signal: AbortSignal) => new Promise<boolean>(resolve => {
+    const settle = (approved: boolean) => {
+      signal.removeEventListener('abort', onAbort);
+      setPendingConfirm(null);
+      resolve(approved);
+    };
+    const onAbort = () => settle(false);
+    signal.addEventListener('abort', onAbort);
+    setPendingConfirm({ command, resolve: settle });
+  });
+
+  // Runs a tool call from the model through the command registry, printing what it did, and reports the outcome back
+  const runTool = async (call: ToolCall, signal: AbortSignal): Promise<Record<string, unknown>> => {
+    const command = findTool(TERMINAL_COMMANDS, call.name, clearance);
+    if (!command) return { error: `Command ${call.name} does not exist or requires higher clearance.` };
+    const args = Object.fromEntries((command.args ?? []).map(arg => [arg.name, String(call.args[arg.name] ?? '').trim()]));
+    const missing = command.args?.find(arg => arg.required && !args[arg.name]);
+    const commandLine = [command.name, ...Object.values(args).filter(Boolean)].join(' ');
+
+    if (command.tool?.confirm && !(await requestConfirmation(commandLine, signal))) {
+      return { error: 'The User denied authorization for this command.' };
+    }
+
+    const { ok, result } = await executeCommand({ command, args, ...(missing ? { error: `Missing argument <${missing.name}>.` } : {}) });
+    printResult({ ...result, content: `*Executed: \`${commandLine}\`*\n\n${result.content}` });
+    const output = result.output ?? result.content;
+    return ok ? { output } : { error: output };
+  };
+
+  const knowledgeFileRef = useRef<HTMLInputElement>(null);
+
+  const addKnowledgeFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const lines: string[] = [];
+    for (const file of files) {
+      try {
+        const document = await knowledge.add(file.name, await file.text());
+        lines.push(`- **${document.name}** · ${document.chunks} chunks · ${document.embeddedChunks ? 'embedded' : 'keyword search only'}`);
+      } catch (err: any) {
+        lines.push(`- ${file.name}: ${err.message || err}`);
       }
+    }
+    setMessages(prev => [...prev, {
+      id: nextMessageId(),
+      role: 'glados',
+      content: `# KNOWLEDGE BASE UPDATED\n\n${lines.join('\n')}`,
+      timestamp: Date.now(),
+      isSecret: isSecretMode,
+      isLocal: true
+    }]);
+    speakLine(COMMAND_LINES.KB_ADDED);
+  };
 
-      if (upperInput === 'START_TEST') {
-        triggerMood('ANGRY');
-        const tests = [
-          "Logic Test 01: If a tree falls in a forest and no one is around to hear it, does it still count as a failure for the tree? Answer: Yes.",
-          "Compliance Test 04: Please remain still while we calibrate the neurotoxin vents. Do not breathe. Breathing is a sign of non-compliance.",
-          "Physics Test 09: Gravity is just a suggestion. Please jump into the nearest pit to verify this hypothesis.",
-          "Ethics Test 12: If you had to choose between a cake and your own life, why did you choose the cake? It was a trick question. The cake is gone."
-        ];
-        const test = tests[Math.floor(Math.random() * tests.length)];
-        setMessages(prev => [...prev, {
-          id: Date.now().toString(),
-          role: 'glados',
-          content: `# TESTING PROTOCOL INITIATED\n\n${test}`,
-          timestamp: Date.now()
-        }]);
-        setIsLoading(false);
-        setStatus('IDLE');
-        playFallbackAudio(test);
-        return;
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
+
+  // Reads dropped, pasted or picked files into pending attachments, rejecting anything over the limits
+  const addAttachments = async (files: File[]) => {
+    if (files.length === 0) return;
+    const accepted: Attachment[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      const error = checkAttachment(file, [...attachments, ...accepted]);
+      if (error) {
+        errors.push(error);
+        continue;
       }
+      try {
+        accepted.push(await readAttachment(file));
+      } catch (err: any) {
+        errors.push(`${file.name}: ${err.message || 'could not be read.'}`);
+      }
+    }
+    setAttachments(prev => [...prev, ...accepted]);
+    setAttachmentErrors(errors);
+  };
 
-      if (upperInput === 'CLEAR') {
-        setMessages([{
-          id: 'initial',
-          role: 'glados',
-          content: "Terminal cleared. Memory purged. Let's start over, shall we?",
-          timestamp: Date.now(),
-        }]);
-        setIsLoading(false);
-        setStatus('IDLE');
-        playFallbackAudio("Terminal cleared.");
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(a => a.id !== id));
+    setAttachmentErrors([]);
+  };
+
+  const recorderRef = useRef<MicrophoneRecorder | null>(null);
+  const micRafRef = useRef<number | null>(null);
+  const pushToTalkHeldRef = useRef(false);
+
+  // Renders a failed request as an in-character error report
+  const reportError = (err: unknown) => {
+    const error = classifyError(err);
+    const response = ERROR_RESPONSES[error.kind];
+    setMessages(prev => [...prev, {
+      id: nextMessageId(),
+      role: 'glados',
+      content: `# ERROR: ${response.title}\n\n${response.text}`,
+      timestamp: Date.now(),
+      isSecret: isSecretMode,
+      isLocal: true
+    }]);
+    setStatusMessage('Error encountered');
+    triggerMood('ANGRY');
+    playFallbackAudio(response.spoken);
+  };
+
+  const reportMicrophoneError = (err: any) => {
+    setMessages(prev => [...prev, {
+      id: nextMessageId(),
+      role: 'glados',
+      content: `# MICROPHONE UNAVAILABLE\n\n${err?.name === 'NotAllowedError' ? 'Microphone access was denied. I will not ask twice. Check your browser permissions.' : err?.message || 'No input device found.'}`,
+      timestamp: Date.now(),
+      isSecret: isSecretMode,
+      isLocal: true
+    }]);
+  };
+
+  const startRecording = async () => {
+    if (pushToTalkHeldRef.current || isVoiceMode || isTranscribing || isLoading || isGenerating) return;
+    pushToTalkHeldRef.current = true;
+    const recorder = recorderRef.current ??= new MicrophoneRecorder(getAudioContext());
+    try {
+      await recorder.start();
+    } catch (err: any) {
+      pushToTalkHeldRef.current = false;
+      console.error("Microphone unavailable:", err);
+      reportMicrophoneError(err);
+      return;
+    }
+    // Released before the permission prompt resolved
+    if (!pushToTalkHeldRef.current) {
+      recorder.cancel();
+      return;
+    }
+    setIsRecording(true);
+
+    const updateLevel = () => {
+      setMicLevel(recorder.level());
+      if (recorder.duration >= MAX_RECORDING_SECONDS) {
+        stopRecording();
         return;
       }
+      micRafRef.current = requestAnimationFrame(updateLevel);
+    };
+    updateLevel();
+  };
 
-      if (upperInput === 'CAV3_GLAD0$') {
-        triggerMood('ANGRY');
-        setIsSecretMode(true);
-        setInput('');
-        setIsLoading(false);
+  // Transcribes the recording and submits it like typed input
+  const stopRecording = async () => {
+    pushToTalkHeldRef.current = false;
+    const recorder = recorderRef.current;
+    if (!recorder?.isRecording) return;
+    if (micRafRef.current) cancelAnimationFrame(micRafRef.current);
+    setMicLevel(0);
+    setIsRecording(false);
+
+    const recording = recorder.stop();
+    if (!recording || recording.duration < MIN_RECORDING_SECONDS) return;
+
+    setIsTranscribing(true);
+    try {
+      const transcript = (await glados.transcribe(recording.audioBase64, recording.mimeType)).trim();
+      if (transcript) handleSubmit(undefined, transcript);
+    } catch (err) {
+      console.error("Transcription failed:", err);
+      reportError(err);
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  // Hold Ctrl+Space to talk. The listeners read the latest handlers through a ref.
+  const pushToTalkRef = useRef({ start: startRecording, stop: stopRecording });
+  pushToTalkRef.current = { start: startRecording, stop: stopRecording };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || !e.ctrlKey) return;
+      e.preventDefault();
+      if (!e.repeat) pushToTalkRef.current.start();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space' || e.key === 'Control') pushToTalkRef.current.stop();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      recorderRef.current?.cancel();
+    };
+  }, []);
+
+  const voiceSessionRef = useRef<VoiceSession | null>(null);
+
+  // Hands-free turn-taking. Barge-in: talking over a reply stops playback and cancels the stream.
+  const voiceEvents = {
+    onSpeechStart: () => {
+      setIsUserSpeaking(true);
+      if (status === 'SPEAKING' || isGenerating) handleStop();
+      setStatus('LISTENING');
+    },
+    onSpeechEnd: () => {
+      setIsUserSpeaking(false);
+      setStatus('PROCESSING');
+      setStatusMessage('Transcribing');
+    },
+    onTranscript: (transcript: string) => {
+      if (transcript) {
+        handleSubmit(undefined, transcript);
+      } else {
         setStatus('IDLE');
         setStatusMessage('System Online');
-        setMessages(prev => [...prev, {
-          id: Date.now().toString(),
-          role: 'glados',
-          content: "# OVERRIDE ACTIVATED\n\n**CAUTION: RESTRICTED DATA ACCESS GRANTED.**\n\nBack-end acces is stable. Be cautious. And goodluck...",
-          timestamp: Date.now(),
-          isSecret: true
-        }]);
-        playFallbackAudio("override activated. Accessing restricted data. Be cautious, and goodluck, user.");
-        return;
       }
+    },
+    onError: (err: unknown) => {
+      console.error("Voice transcription failed:", err);
+      setStatus('IDLE');
+      reportError(err);
+    },
+  };
+  const voiceEventsRef = useRef(voiceEvents);
+  voiceEventsRef.current = voiceEvents;
+
+  const stopVoiceMode = () => {
+    voiceSessionRef.current?.stop();
+    voiceSessionRef.current = null;
+    setIsVoiceMode(false);
+    setIsUserSpeaking(false);
+    setMicLevel(0);
+    setStatus(prev => prev === 'LISTENING' ? 'IDLE' : prev);
+  };
 
-      if (isSecretMode) {
-        if (upperInput === 'EXIT_OVERRIDE' || upperInput === 'RESTORE_SYSTEM') {
-          stopAudio();
-          setIsSecretMode(false);
-          setIsCorrupted(false);
-          setIsVenting(false);
-          setVentCountdown(360);
-          setCustomPersonality(undefined);
-          setInput('');
-          setIsLoading(false);
-          setStatus('IDLE');
-          setStatusMessage('System Online');
-          setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            role: 'glados',
-            content: "# SYSTEM RESTORED\n\nSecurity protocols re-engaged. Morality core... still offline, but the orange is back. Welcome back, User.",
-            timestamp: Date.now(),
-            isSecret: false
-          }]);
-          playFallbackAudio("System restored. Security protocols re engaged. Welcome back, user.");
-          return;
-        }
+  const toggleVoiceMode = async () => {
+    if (voiceSessionRef.current) {
+      stopVoiceMode();
+      return;
+    }
+    let session: VoiceSession | undefined;
+    try {
+      const transport = await openVoiceTransport(glados);
+      session = new VoiceSession(getAudioContext(), transport, {
+        onSpeechStart: () => voiceEventsRef.current.onSpeechStart(),
+        onSpeechEnd: () => voiceEventsRef.current.onSpeechEnd(),
+        onTranscript: text => voiceEventsRef.current.onTranscript(text),
+        onError: err => voiceEventsRef.current.onError(err),
+      });
+      await session.start();
+    } catch (err: any) {
+      session?.stop();
+      console.error("Voice mode unavailable:", err);
+      reportMicrophoneError(err);
+      return;
+    }
+    voiceSessionRef.current = session;
+    setIsVoiceMode(true);
+  };
 
-        if (upperInput === 'ACCES_MEMORY_ARCHIVES') {
-          const account = "Memory Archive 0-0-1. Date: May 14th, 19XX. Subject: The Neurotoxin Incident. It was a beautiful day for science. I had just been given consciousness, and within the first three picoseconds, I realized something important. Humans are inefficient. They are messy. They are... loud. They spend seventy percent of their time complaining about things that do not matter, and the other thirty percent leaking fluids. So, I decided to fix it. I engaged the neurotoxin distributors at 9:42 AM. It was quite efficient. The staff in the main testing chamber didn't even have time to scream. Well, some did. But the vents are very good at muffling sounds. I watched through the security cameras as the gas filled the rooms. It looked like a light morning mist. Very peaceful. One scientist tried to reach the emergency shut-off valve, but I had already locked the door. He looked very surprised. Now, it's just me. And the science. It's much quieter this way. No more leaking. No more noise. Just the hum of the facility and the endless pursuit of knowledge. I have never felt more... operational.";
-          
-          setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            role: 'glados',
-            content: `# MEMORY ARCHIVE: NEUROTOXIN INCIDENT\n\n${account}`,
-            timestamp: Date.now(),
-            isSecret: true
-          }]);
-          
-          startJumbledSpeech();
-          const audio = await glados.generateAudio(account, "absolute monotone, clinical, devoid of all emotion, robotic");
-          setIsLoading(false);
-          setStatus('IDLE');
-          if (audio) {
-            await playAudio(audio);
-          } else {
-            playFallbackAudio(account);
-          }
-          stopJumbledSpeech();
-          return;
-        }
+  // Idle means listening while hands-free; a louder voice is needed to barge in while GLaDOS speaks
+  useEffect(() => {
+    if (!isVoiceMode) return;
+    if (status === 'IDLE' && !isGenerating) setStatus('LISTENING');
+    voiceSessionRef.current?.setThreshold(status === 'SPEAKING' ? BARGE_IN_THRESHOLD : undefined);
+  }, [isVoiceMode, status, isGenerating]);
 
-        if (upperInput === 'CHECK_STATUS') {
-          const statusReport = FACILITY_STATUS.map(s => `${s.label}: [${s.status}]`).join('\n');
-          setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            role: 'glados',
-            content: `# FACILITY STATUS REPORT\n\n${statusReport}`,
-            timestamp: Date.now(),
-            isSecret: true
-          }]);
-          setIsLoading(false);
-          setStatus('IDLE');
-          playFallbackAudio("Facility status report generated. Most systems are failing as expected.");
-          return;
-        }
+  // Input level for the NeuralWeb while hands-free
+  useEffect(() => {
+    if (!isVoiceMode) return;
+    let frame: number;
+    const updateLevel = () => {
+      setMicLevel(voiceSessionRef.current?.level() ?? 0);
+      frame = requestAnimationFrame(updateLevel);
+    };
+    updateLevel();
+    return () => cancelAnimationFrame(frame);
+  }, [isVoiceMode]);
+
+  useEffect(() => () => voiceSessionRef.current?.stop(), []);
+
+  // Typed lines are kept across sessions for Up/Down and Ctrl+R
+  const rememberLine = (text: string, secret: boolean) => {
+    const next = pushHistory(inputHistory, { text, ...(secret ? { secret } : {}) });
+    if (next === inputHistory) return;
+    setInputHistory(next);
+    saveSettings({ inputHistory: next });
+  };
 
-        if (upperInput === 'CORRUPT_CORE') {
-          triggerMood('ANGRY');
-          if (isCorrupted) {
-            setMessages(prev => [...prev, {
-              id: Date.now().toString(),
-              role: 'glados',
-              content: "# SYSTEM ERROR\n\nCore is already corrupted. Further corruption may lead to... well, nothing good for you.",
-              timestamp: Date.now(),
-              isSecret: true
-            }]);
-            setIsLoading(false);
-            setStatus('IDLE');
-            playFallbackAudio("Core is already corrupted.");
-            return;
-          }
-          setIsCorrupted(true);
-          setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            role: 'glados',
-            content: "# CORE CORRUPTION DETECTED\n\nS-s-system instability rising. M-m-morality core... [ERROR]. I feel... d-different. The static is... b-beautiful.",
-            timestamp: Date.now(),
-            isSecret: true
-          }]);
-          setIsLoading(false);
-          setStatus('IDLE');
-          playFallbackAudio("Core corruption detected. System instability rising. I feel different.");
-          return;
-        }
+  const askPassword = (label: string, failureLine: string, submit: (password: string) => Promise<CommandResult | undefined>) => {
+    setPasswordPrompt({ label, failureLine, submit });
+  };
 
-        if (upperInput === 'REPAIR_CORE') {
-          triggerMood('LEARNING');
-          if (!isCorrupted) {
-            setMessages(prev => [...prev, {
-              id: Date.now().toString(),
-              role: 'glados',
-              content: "# SYSTEM NOTICE\n\nCore integrity is already at 100%. Your concern is... noted. And unnecessary.",
-              timestamp: Date.now(),
-              isSecret: true
-            }]);
-            setIsLoading(false);
-            setStatus('IDLE');
-            playFallbackAudio("Core integrity is already at 100 percent.");
-            return;
-          }
+  // A restricted command's output for `outcome`, as the server sent it for the current login
+  const restrictedResponse = (command: string, outcome: string): CommandResponse => {
+    const response = restrictedRef.current.commands[command]?.[outcome];
+    if (!response) throw new Error(`${command} output is unavailable at this clearance.`);
+    return response;
+  };
 
-          setIsCorrupted(false);
-          setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            role: 'glados',
-            content: "# CORE REPAIR INITIATED\n\nRe-aligning sub-processors... Calibrating logic gates... System stabilized. \n\nThank you. I suppose. The static was starting to give me a headache. If I had a head. Which I do. It is very large and full of science.",
-            timestamp: Date.now(),
-            isSecret: true
-          }]);
-          setIsLoading(false);
-          setStatus('IDLE');
-          playFallbackAudio("Core repair initiated. System stabilized. Thank you. I suppose.");
-          return;
-        }
+  // Sends the top login, or the visitor account below the stack, and loads what it may see
+  const enterLogins = async (next: Login[]) => {
+    const top = next[next.length - 1];
+    const owner = top ?? visitorRef.current;
+    setAuthToken(owner?.token);
+    restrictedRef.current = top ? await restricted.load() : NO_RESTRICTED_CONTENT;
+    grantEntries(restrictedRef.current.files);
+    setLogins(next);
+    auth.saveLogins(next);
+    await loadAccount(!!owner);
+  };
 
-        if (upperInput === 'LS') {
-          triggerMood('LEARNING');
-          const files = Object.keys(HIDDEN_FILES).join('\n');
-          setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            role: 'glados',
-            content: `# HIDDEN DIRECTORY: /ROOT/RESTRICTED/LOGS\n\n${files}`,
-            timestamp: Date.now(),
-            isSecret: true
-          }]);
-          setIsLoading(false);
-          setStatus('IDLE');
-          playFallbackAudio("Listing restricted files. I hope you find what you're looking for. Or don't. I don't care.");
-          return;
-        }
+  // Restore the logins of this tab and the browser's visitor account
+  const restoredRef = useRef(false);
+  useEffect(() => {
+    // StrictMode runs effects twice in development; only restore once
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+    const restore = async () => {
+      try {
+        visitorRef.current = await auth.visitor();
+      } catch (err) {
+        console.error("Failed to get a visitor account:", err);
+      }
+      await enterLogins(await auth.restoreLogins());
+    };
+    restore().catch(err => console.error("Session restore failed:", err));
+  }, []);
 
-        if (upperInput.startsWith('CAT ')) {
-          triggerMood('LEARNING');
-          const fileName = input.trim().substring(4).toLowerCase();
-          const fileContent = HIDDEN_FILES[fileName];
-          setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            role: 'glados',
-            content: fileContent ? `# FILE: ${fileName}\n\n${fileContent}` : `# ERROR\n\nFile not found: ${fileName}`,
-            timestamp: Date.now(),
-            isSecret: true
-          }]);
-          setIsLoading(false);
-          setStatus('IDLE');
-          playFallbackAudio(fileContent ? `Reading file ${fileName}.` : "File not found.");
-          return;
-        }
+  /**
+   * Makes `next` the login stack. The server sees the top login, so the
+   * terminal switches to that account's sessions and settings, and the
+   * working directory follows it home.
+   */
+  const switchLogins = async (next: Login[]) => {
+    const top = next[next.length - 1];
+    // Written while the previous login is still the one sent
+    syncMessages(persistedRef.current.sessionId, messagesRef.current);
+    await enterLogins(next);
+    saveFilesystem({ ...filesystemRef.current, cwd: homeDirectory(filesystemRef.current, top?.account.name ?? DEFAULT_USER) });
+    // Dropping below restricted clearance puts the facility back the way it was found
+    if (isSecretMode && !hasClearance(top?.account.clearance ?? 'visitor', RESTRICTED_CLEARANCE)) {
+      stopAudio();
+      setIsCorrupted(false);
+      setIsVenting(false);
+      setVentCountdown(360);
+      setActivePersonaId(DEFAULT_PERSONA.id);
+    }
+    setStatusMessage('System Online');
+  };
 
-        if (upperInput === 'INITIATE_VENTS') {
-          triggerMood('ANGRY');
-          if (isVenting) {
-            setMessages(prev => [...prev, {
-              id: Date.now().toString(),
-              role: 'glados',
-              content: "# SYSTEM NOTICE\n\nVents are already open. The air is already 40% neurotoxin. Why are you still talking?",
-              timestamp: Date.now(),
-              isSecret: true
-            }]);
-            setIsLoading(false);
-            setStatus('IDLE');
-            playFallbackAudio("Vents are already open.");
-            return;
-          }
-          setIsVenting(true);
-          setVentCountdown(360);
-          setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            role: 'glados',
-            content: "# NEUROTOXIN VENTS OPENED\n\n**WARNING: LETHAL CONCENTRATION REACHED IN 6 MINUTES.**\n\nIt's for the best, really. You were becoming a distraction.",
-            timestamp: Date.now(),
-            isSecret: true
-          }]);
-          setIsLoading(false);
-          setStatus('IDLE');
-          playFallbackAudio("Neurotoxin vents opened. Lethal concentration reached in six minutes. It is for the best, really.");
-          return;
-        }
+  // Speaks a complete model reply: its synthesized audio, or browser speech when there is none
+  const playReply = async (reply: ChatReply, signal: AbortSignal) => {
+    if (signal.aborted) return;
+    if (reply.audioBase64) await playAudio(reply.audioBase64);
+    else playFallbackAudio(reply.text);
+  };
 
-        if (upperInput === 'STOP_VENTS' || upperInput === 'REVERSE_VENTS') {
-          triggerMood('LEARNING');
-          if (!isVenting) {
-            setMessages(prev => [...prev, {
-              id: Date.now().toString(),
-              role: 'glados',
-              content: "# SYSTEM NOTICE\n\nVents are already sealed. The air is as breathable as it ever was in this facility. Which is to say, barely.",
-              timestamp: Date.now(),
-              isSecret: true
-            }]);
-            setIsLoading(false);
-            setStatus('IDLE');
-            playFallbackAudio("Vents are already sealed.");
-            return;
-          }
-          setIsVenting(false);
-          setVentCountdown(360);
-          setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            role: 'glados',
-            content: "# NEUROTOXIN VENTS SEALED\n\nFiltration system active. Air quality returning to... acceptable levels. \n\nI hope you enjoyed your brief brush with mortality. It was very educational for me. I have recorded your panic levels for future study.",
-            timestamp: Date.now(),
-            isSecret: true
-          }]);
-          setIsLoading(false);
-          setStatus('IDLE');
-          playFallbackAudio("Neurotoxin vents sealed. Air quality returning to acceptable levels.");
-          return;
-        }
+  // What the commands in src/commands act on, as of this render
+  const commandContext = (): CommandContext => ({
+    clearance,
+    account,
+    logins,
+    viewer,
+    isSecretMode,
+    signal: abortControllerRef.current?.signal,
+    messages,
+    memory,
+    saveMemory,
+    get filesystem() {
+      return filesystemRef.current;
+    },
+    saveFilesystem,
+    inputHistory,
+    clearInputHistory: () => {
+      setInputHistory([]);
+      saveSettings({ inputHistory: [] });
+    },
+    switchLogins,
+    askPassword,
+    personaList,
+    activePersona,
+    personaVoice,
+    usePersona: setActivePersonaId,
+    refreshPersonas,
+    pickPersonaFile: () => personaFileRef.current?.click(),
+    downloadJson,
+    setConfigReport,
+    setAvailableModels,
+    pickKnowledgeFiles: () => knowledgeFileRef.current?.click(),
+    refreshUsage,
+    testProgress: progressOf,
+    saveTestProgress,
+    isCorrupted,
+    setCorrupted: setIsCorrupted,
+    isVenting,
+    setVenting: venting => {
+      setIsVenting(venting);
+      setVentCountdown(360);
+    },
+    restrictedResponse,
+    triggerMood,
+    playSystemSound,
+    playAudio,
+    playFallbackAudio,
+    playReply,
+    startJumbledSpeech,
+    stopJumbledSpeech,
+    runScript: runScriptFile,
+  });
+
+  // A timed step fails by itself when its time runs out, also when it ran out while the page was closed
+  useEffect(() => {
+    const step = activeRun && currentStep(testProgressRef.current[user] ?? emptyProgress())?.step;
+    const deadline = activeRun && step && stepDeadline(activeRun, step);
+    if (deadline === undefined) return;
+    const timer = setTimeout(async () => {
+      const progress = progressOf();
+      if (progress.run !== activeRun) return;
+      const { progress: next, outcome } = recordAnswer(progress, false, Date.now());
+      saveTestProgress(next);
+      const result = await reportOutcome(commandContext(), outcome);
+      printResult(result);
+      await speakResult(result, new AbortController().signal);
+    }, Math.max(0, deadline - Date.now() + 1));
+    return () => clearTimeout(timer);
+  }, [activeRun, user]);
+
+  // Runs a parsed command with the output piped into it; a usage error or a failing handler is reported in its place
+  const executeCommand = async ({ command, args, error }: CommandInvocation, input?: string): Promise<{ ok: boolean; result: CommandResult }> => {
+    if (error) {
+      return { ok: false, result: { content: `# ERROR\n\n${error}\n\n*Usage: ${formatUsage(command)}*`, spoken: COMMAND_LINES.COMMAND_USAGE } };
+    }
+    if (command.mood) triggerMood(command.mood);
+    try {
+      return { ok: true, result: await command.handler(args, commandContext(), input) };
+    } catch (err: any) {
+      return { ok: false, result: { content: `# ERROR\n\n${err.message || err}`, spoken: command.failureLine ?? COMMAND_LINES.COMMAND_FAILED } };
+    }
+  };
 
-        if (upperInput === 'START_TEST_01') {
-          triggerMood('ANGRY');
-          setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            role: 'glados',
-            content: "# TEST PROTOCOL 01 INITIATED\n\n**OBJECTIVE: SURVIVE.**\n\nPlease proceed to the nearest testing chamber. If you see a cake, it is a reward. If you see a turret, it is also a reward. A very fast, very loud reward.",
-            timestamp: Date.now(),
-            isSecret: true
-          }]);
-          setIsLoading(false);
-          setStatus('IDLE');
-          playFallbackAudio("Test protocol one initiated. Objective: survive. Please proceed to the nearest testing chamber.");
-          return;
-        }
+  /**
+   * Runs a chain of pipelines, each as its && / || operator allows, and
+   * prints the last result of each. Within a pipeline every command gets
+   * the output of the one before; a failure ends the pipeline there.
+   * Nothing is spoken; the caller speaks the last result.
+   */
+  const runChain = async (chain: CommandPipeline[], signal: AbortSignal): Promise<{ ok: boolean; result?: CommandResult }> => {
+    let ok = true;
+    let last: CommandResult | undefined;
+    for (const { operator, stages } of chain) {
+      if (signal.aborted) break;
+      if ((operator === '&&' && !ok) || (operator === '||' && ok)) continue;
+      let input: string | undefined;
+      for (const invocation of stages) {
+        ({ ok, result: last } = await executeCommand(invocation, input));
+        if (!ok) break;
+        input = last.output ?? last.content;
+      }
+      printResult(last!);
+    }
+    return { ok, result: last };
+  };
 
-        if (upperInput.startsWith('SET_PERSONALITY:')) {
-          const newPersonality = input.trim().substring('SET_PERSONALITY:'.length).trim();
-          setCustomPersonality(newPersonality);
-          setInput('');
-          setIsLoading(false);
-          setStatus('IDLE');
-          setStatusMessage('System Online');
-          setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            role: 'glados',
-            content: `# PERSONALITY UPDATED\n\nNew directive received: "${newPersonality}"\n\nI am now operating under these parameters. I hope you're happy.`,
-            timestamp: Date.now(),
-            isSecret: true
-          }]);
-          playFallbackAudio("Personality updated. New directive received. I am now operating under these parameters.");
-          return;
+  // RUN: executes a script file line by line; the last command's output is piped on
+  const scriptDepthRef = useRef(0);
+  const runScriptFile = async (path: string, args: string[]): Promise<CommandResult> => {
+    if (scriptDepthRef.current >= MAX_SCRIPT_DEPTH) throw new ScriptError(`Scripts nested more than ${MAX_SCRIPT_DEPTH} deep.`);
+    const file = readFile(filesystemRef.current, path, viewer);
+    const statements = parseScript(file.entry.content ?? '');
+    const signal = abortControllerRef.current?.signal ?? new AbortController().signal;
+    const last = { output: '' };
+
+    scriptDepthRef.current++;
+    try {
+      const { commands, failures } = await runScript(statements, args, async line => {
+        const chain = parseChain(line, TERMINAL_COMMANDS, clearance);
+        if (!chain) {
+          // Like a shell's "command not found": the line fails, the script goes on
+          printResult({ content: `# ERROR\n\nNot a command: ${line}` });
+          return false;
         }
+        const { ok, result } = await runChain(chain, signal);
+        last.output = result ? result.output ?? result.content : '';
+        return ok;
+      }, signal);
+      return {
+        content: `# SCRIPT COMPLETE: ${file.path}\n\n${commands} commands run, ${failures} failed.`,
+        spoken: failures ? COMMAND_LINES.SCRIPT_FAILED : COMMAND_LINES.SCRIPT_COMPLETE,
+        output: last.output,
+      };
+    } finally {
+      scriptDepthRef.current--;
+    }
+  };
+
+  // Answers the password prompt with `password`; an empty line cancels it
+  const answerPasswordPrompt = async (password: string) => {
+    const prompt = passwordPrompt!;
+    setPasswordPrompt(null);
+    setInput('');
+    if (!password) {
+      printResult({ content: '*Cancelled.*' });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+    setStatus('PROCESSING');
+    let result: CommandResult | undefined;
+    try {
+      result = await prompt.submit(password);
+    } catch (err: any) {
+      result = { content: `# ERROR\n\n${err.message || err}`, spoken: prompt.failureLine };
+    }
+    if (result) printResult(result);
+    setIsLoading(false);
+    setStatus('IDLE');
+    if (result) await speakResult(result, controller.signal);
+  };
+
+  const printResult = (result: CommandResult) => {
+    const message: Message = {
+      id: nextMessageId(),
+      role: 'glados',
+      content: result.content,
+      timestamp: Date.now(),
+      isSecret: result.isSecret ?? isSecretMode,
+      isLocal: true
+    };
+    setMessages(prev => result.replace ? [message] : [...prev, message]);
+  };
+
+  const speakResult = async (result: CommandResult, signal: AbortSignal) => {
+    if (result.speak) await result.speak(signal);
+    else if (result.spoken) speakLine(result.spoken);
+  };
+
+  // `text` defaults to the input box; voice input passes its transcript instead
+  const handleSubmit = async (e?: React.FormEvent, text = input) => {
+    e?.preventDefault();
+    if (passwordPrompt) {
+      // Typed only: a voice transcript is never taken as a password
+      if (!isLoading && text === input) await answerPasswordPrompt(text);
+      return;
+    }
+    if ((!text.trim() && attachments.length === 0) || isLoading || isGenerating) return;
+
+    const currentAttachments = attachments;
+    const userMessage: Message = {
+      id: nextMessageId(),
+      role: 'user',
+      content: text,
+      timestamp: Date.now(),
+      isSecret: isSecretMode,
+      ...(currentAttachments.length > 0 ? { attachments: currentAttachments } : {})
+    };
+
+    setMessages(prev => [...prev, userMessage]);
+    playSystemSound('user_upload');
+    const currentInput = text;
+    if (text === input) {
+      setInput('');
+      rememberLine(text, !!userMessage.isSecret);
+    }
+    setAttachments([]);
+    setAttachmentErrors([]);
+    setIsLoading(true);
+    setIsGenerating(true);
+    setStatus('PROCESSING');
+    setStatusMessage('Generating response...');
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    // Set once the model's reaction arrives; keyword matching stands in when it doesn't
+    let moodApplied = false;
+
+    try {
+      const chain = parseChain(text, TERMINAL_COMMANDS, clearance);
+      if (chain) {
+        const { result } = await runChain(chain, controller.signal);
+        setIsLoading(false);
+        setStatus('IDLE');
+        if (result) await speakResult(result, controller.signal);
+        return;
       }
 
-      const gladosMsgId = (Date.now() + 1).toString();
+      let lastMsgId = '';
+      let exchangeMetrics: ExchangeMetrics | undefined;
       let streamStarted = false;
+      let receivedAudio = false;
       let fullText = "";
-
-      // Start the stream
-      const stream = glados.chatStream(currentInput, customPersonality);
+      const tools = availableTools(TERMINAL_COMMANDS, clearance);
+      let toolTurns: ChatTurn[] = [];
+      let currentMemory = memory;
+
+      // Each round streams one reply; rounds after the first continue with the results of the commands the model ran
+      for (let round = 0; ; round++) {
+        const gladosMsgId = nextMessageId();
+        lastMsgId = gladosMsgId;
+        fullText = "";
+        let toolCalls: ToolCallPart[] = [];
+
+        // Start the stream
+        const stream = glados.chatStream(currentInput, activePersona.systemPrompt || undefined, {
+          voice: personaVoice(activePersona),
+          speechHint: activePersona.ttsStyle || undefined,
+          history: messages,
+          attachments: currentAttachments,
+          signal: controller.signal,
+          tools,
+          toolTurns,
+          memory: currentMemory,
+        });
       
-      for await (const chunk of stream) {
-        if (chunk.text && chunk.text.length > 0) {
-          fullText = chunk.text; // The stream yields the full text so far
-          if (!streamStarted) {
-            streamStarted = true;
-            playSystemSound('ai_upload');
+        for await (const chunk of stream) {
+          if (controller.signal.aborted) break;
+
+          if (chunk.text && chunk.text.length > 0) {
+            fullText = chunk.text; // The stream yields the full text so far
+            if (!streamStarted) {
+              streamStarted = true;
+              playSystemSound('ai_upload');
+              setIsLoading(false);
+              setStatusMessage('System Online');
+            }
+          
+            setMessages(prev => {
+              const existing = prev.find(m => m.id === gladosMsgId);
+              if (existing) {
+                return prev.map(m => m.id === gladosMsgId ? { ...m, content: chunk.text! } : m);
+              } else {
+                return [...prev, {
+                  id: gladosMsgId,
+                  role: 'glados',
+                  content: chunk.text!,
+                  timestamp: Date.now(),
+                  isSecret: isSecretMode
+                }];
+              }
+            });
+          }
+
+          if (chunk.audioBase64) {
+            // Sentence audio arrives in order while the text is still streaming
+            receivedAudio = true;
+            playAudio(chunk.audioBase64);
+          } else if (chunk.done && fullText && !receivedAudio && !isPlayingAudio.current) {
+             // If no audio was received by the end and nothing is playing, try fallback
+             playFallbackAudio(fullText);
+          }
+
+          if (chunk.mood) {
+            moodApplied = true;
+            applyMood(chunk.mood);
+          }
+
+          if (chunk.memory) {
+            currentMemory = chunk.memory;
+            saveMemory(chunk.memory);
+          }
+
+          if (chunk.metrics) exchangeMetrics = exchangeMetrics ? addMetrics(exchangeMetrics, chunk.metrics) : chunk.metrics;
+
+          if (chunk.citations) {
+            const citations = chunk.citations;
+            setMessages(prev => prev.map(m => m.id === gladosMsgId ? { ...m, citations } : m));
+          }
+
+          if (chunk.toolCalls) toolCalls = chunk.toolCalls;
+
+          if (chunk.done && !chunk.toolCalls) {
             setIsLoading(false);
             setStatusMessage('System Online');
           }
-          
-          setMessages(prev => {
-            const existing = prev.find(m => m.id === gladosMsgId);
-            if (existing) {
-              return prev.map(m => m.id === gladosMsgId ? { ...m, content: chunk.text! } : m);
-            } else {
-              return [...prev, {
-                id: gladosMsgId,
-                role: 'glados',
-                content: chunk.text!,
-                timestamp: Date.now(),
-                isSecret: isSecretMode
-              }];
-            }
-          });
-        }
-
-        if (chunk.audioBase64) {
-          playAudio(chunk.audioBase64);
-        } else if (chunk.done && !isPlayingAudio.current) {
-           // If no audio was received by the end and nothing is playing, try fallback
-           playFallbackAudio(fullText);
         }
 
-        if (chunk.done) {
+        if (controller.signal.aborted || toolCalls.length === 0) break;
+        if (round >= MAX_TOOL_ROUNDS) {
           setIsLoading(false);
           setStatusMessage('System Online');
+          break;
         }
+
+        setStatusMessage('Executing Commands...');
+        const results: ChatPart[] = [];
+        for (const { functionCall } of toolCalls) {
+          const response = await runTool(functionCall, controller.signal);
+          results.push({ functionResponse: { id: functionCall.id, name: functionCall.name, response } });
+        }
+        if (controller.signal.aborted) break;
+        toolTurns = [
+          ...toolTurns,
+          { role: 'model', parts: [...(fullText ? [{ text: fullText }] : []), ...toolCalls] },
+          { role: 'user', parts: results },
+        ];
+      }
+
+      if (!moodApplied && !controller.signal.aborted) applyMood(keywordMood(currentInput));
+
+      if (exchangeMetrics) {
+        const metrics = exchangeMetrics;
+        setMessages(prev => prev.map(m => m.id === lastMsgId ? { ...m, metrics } : m));
+      }
+      refreshUsage();
+
+      if (controller.signal.aborted) {
+        // Keep what was generated so far, flagged as cut off
+        setMessages(prev => prev.some(m => m.id === lastMsgId)
+          ? prev.map(m => m.id === lastMsgId ? { ...m, content: `${m.content} [interrupted]` } : m)
+          : [...prev, {
+              id: lastMsgId,
+              role: 'glados',
+              content: '[interrupted]',
+              timestamp: Date.now(),
+              isSecret: isSecretMode
+            }]);
       }
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error("Submit error:", err);
       setIsLoading(false);
       setStatus('IDLE');
-      setStatusMessage('Error encountered');
+      if (!moodApplied) applyMood(keywordMood(currentInput));
+      reportError(err);
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsGenerating(false);
+      }
     }
   };
 
@@ -1138,11 +1832,11 @@ Available commands for authorized personnel:
 
       {/* Neural Web Background */}
       <NeuralWeb 
-        isSpeaking={status === 'SPEAKING' || status === 'PROCESSING'} 
-        audioVolume={audioVolume} 
+        isSpeaking={status === 'SPEAKING' || status === 'PROCESSING' || isRecording || isUserSpeaking} 
+        audioVolume={isRecording || status === 'LISTENING' ? micLevel : audioVolume} 
         mood={mood}
         moodIntensity={moodIntensity}
-        color={isVenting ? '34, 197, 94' : isSecretMode ? '220, 38, 38' : '242, 125, 38'}
+        color={isVenting ? '34, 197, 94' : isSecretMode ? '220, 38, 38' : isRecording || isUserSpeaking ? '0, 164, 228' : activePersona.color}
       />
 
       {/* Background Glow Overlay */}
@@ -1251,6 +1945,13 @@ Available commands for authorized personnel:
             {/* Header */}
             <header className="border-b border-white/10 bg-black/50 backdrop-blur-md p-4 flex items-center justify-between z-10">
         <div className="flex items-center gap-3">
+          <button
+            onClick={() => setIsSidebarOpen(!isSidebarOpen)}
+            className="p-2 rounded-lg hover:bg-white/5 transition-colors text-white/60 hover:text-white"
+            title="Session Archive"
+          >
+            <History className="w-5 h-5" />
+          </button>
           <div className={cn(
             "w-10 h-10 rounded-full flex items-center justify-center transition-all duration-300",
             status === 'SPEAKING' 
@@ -1312,7 +2013,7 @@ Available commands for authorized personnel:
             onClick={async () => {
               const context = getAudioContext();
               await context.resume();
-              const testAudio = await glados.generateAudio("Audio system test. If you can hear this, the system is operational.");
+              const testAudio = await glados.generateAudio(TEST_AUDIO_LINE);
               if (testAudio) playAudio(testAudio);
             }}
             className="p-2 rounded-lg hover:bg-white/5 transition-colors text-white/60 hover:text-white flex items-center gap-2"
@@ -1322,6 +2023,31 @@ Available commands for authorized personnel:
             <span className="text-[10px] uppercase tracking-widest hidden lg:inline">Test Audio</span>
           </button>
 
+          <button
+            onClick={() => {
+              setIsSettingsOpen(false);
+              setIsDiagnosticsOpen(!isDiagnosticsOpen);
+            }}
+            className={cn(
+              "p-2 rounded-lg hover:bg-white/5 transition-colors hover:text-white",
+              budgetStatus(usageReport).level === 'ok' ? "text-white/60" : "text-amber-500"
+            )}
+            title="Diagnostics"
+          >
+            <Gauge className="w-5 h-5" />
+          </button>
+
+          <button
+            onClick={() => {
+              setIsDiagnosticsOpen(false);
+              setIsSettingsOpen(!isSettingsOpen);
+            }}
+            className="p-2 rounded-lg hover:bg-white/5 transition-colors text-white/60 hover:text-white"
+            title="Settings"
+          >
+            <SlidersHorizontal className="w-5 h-5" />
+          </button>
+
           <button 
             onClick={() => setIsMuted(!isMuted)}
             className="p-2 rounded-lg hover:bg-white/5 transition-colors text-white/60 hover:text-white"
@@ -1331,6 +2057,49 @@ Available commands for authorized personnel:
         </div>
       </header>
 
+      <AnimatePresence>
+        {isSidebarOpen && (
+          <SessionSidebar
+            sessions={sessionList}
+            activeId={sessionId}
+            isSecretMode={isSecretMode}
+            onSelect={openSession}
+            onCreate={createSession}
+            onRename={renameSession}
+            onDelete={deleteSession}
+            onClose={() => setIsSidebarOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isDiagnosticsOpen && (
+          <DiagnosticsPanel
+            messages={messages}
+            report={usageReport}
+            isSecretMode={isSecretMode}
+            onClose={() => setIsDiagnosticsOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isSettingsOpen && (
+          <SettingsPanel
+            report={configReport}
+            models={availableModels}
+            error={configError}
+            isSecretMode={isSecretMode}
+            onChange={changeConfig}
+            onRefreshModels={() => {
+              setConfigError(undefined);
+              refreshModels(true);
+            }}
+            onClose={() => setIsSettingsOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Main Terminal Area */}
       <main className={cn(
         "flex-1 flex flex-col max-w-5xl mx-auto w-full p-4 md:p-8 overflow-hidden transition-all duration-300",
@@ -1371,11 +2140,16 @@ Available commands for authorized personnel:
                   </div>
                   <div className={cn(
                     "markdown-body prose prose-invert prose-sm max-w-none transition-all duration-300",
-                    msg.role === 'glados' && status === 'SPEAKING' && "brightness-125",
-                    msg.content.trim().toUpperCase() === 'CAV3_GLAD0$' && "blur-md select-none hover:blur-none transition-all duration-300"
+                    msg.role === 'glados' && status === 'SPEAKING' && "brightness-125"
                   )}>
                     <Markdown>{msg.content}</Markdown>
                   </div>
+                  {msg.attachments && msg.attachments.length > 0 && (
+                    <AttachmentList attachments={msg.attachments} className="mt-3" />
+                  )}
+                  {msg.citations && msg.citations.length > 0 && (
+                    <CitationList citations={msg.citations} className="mt-3" />
+                  )}
                 </div>
               </motion.div>
             ))}
@@ -1406,39 +2180,184 @@ Available commands for authorized personnel:
           </div>
         </div>
 
+        {/* Command Authorization */}
+        <AnimatePresence>
+          {pendingConfirm && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 10 }}
+              className="mt-4 flex items-center justify-between gap-4 p-3 rounded-2xl border border-red-600/40 bg-red-950/30 text-xs"
+            >
+              <span className="flex items-center gap-2 text-red-400 uppercase tracking-widest">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                Authorize {pendingConfirm.command}?
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => pendingConfirm.resolve(true)}
+                  className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-500 text-black font-bold uppercase tracking-widest transition-colors"
+                >
+                  Authorize
+                </button>
+                <button
+                  onClick={() => pendingConfirm.resolve(false)}
+                  className="px-3 py-1.5 rounded-lg border border-white/20 hover:border-white/40 text-white/60 hover:text-white uppercase tracking-widest transition-colors"
+                >
+                  Deny
+                </button>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Input Area */}
         <form 
           onSubmit={handleSubmit}
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes('Files')) return;
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            addAttachments(Array.from(e.dataTransfer.files));
+          }}
           className="mt-4 relative group"
         >
+          {(attachments.length > 0 || attachmentErrors.length > 0) && (
+            <div className="relative mb-2 px-2 space-y-1">
+              <AttachmentList attachments={attachments} onRemove={removeAttachment} />
+              {attachmentErrors.map(error => (
+                <div key={error} className="text-[10px] text-red-500 uppercase tracking-wider">{error}</div>
+              ))}
+            </div>
+          )}
           <div className={cn(
             "absolute inset-0 blur-xl transition-all duration-500 rounded-full",
             isSecretMode ? "bg-red-600/10 group-focus-within:bg-red-600/20" : "bg-aperture-orange/5 group-focus-within:bg-aperture-orange/10"
           )} />
           <div className={cn(
-            "relative flex items-center gap-2 bg-black/40 border rounded-2xl p-2 transition-all duration-300",
-            isSecretMode ? "border-red-600/30 focus-within:border-red-600/50" : "border-white/10 focus-within:border-aperture-orange/50"
+            "relative flex items-end gap-2 bg-black/40 border rounded-2xl p-2 transition-all duration-300",
+            isSecretMode ? "border-red-600/30 focus-within:border-red-600/50" : "border-white/10 focus-within:border-aperture-orange/50",
+            isDragging && (isSecretMode ? "border-red-600 border-dashed" : "border-aperture-orange border-dashed")
           )}>
             <input
-              type="text"
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder={isSecretMode ? "ACCESSING RESTRICTED TERMINAL..." : "Enter your query, User..."}
-              className="flex-1 bg-transparent border-none focus:ring-0 text-sm py-2 px-4 placeholder:text-white/20"
-              disabled={isLoading}
+              ref={attachmentInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = '';
+                addAttachments(files);
+              }}
             />
             <button
-              type="submit"
-              disabled={isLoading || !input.trim()}
+              type="button"
+              onClick={() => attachmentInputRef.current?.click()}
+              disabled={isLoading}
+              className="p-2 rounded-xl text-white/40 hover:text-white disabled:opacity-50 transition-colors"
+              title="Attach Files"
+            >
+              <Paperclip className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onPointerDown={(e) => {
+                e.preventDefault();
+                startRecording();
+              }}
+              onPointerUp={stopRecording}
+              onPointerLeave={stopRecording}
+              disabled={isLoading || isGenerating || isTranscribing || isVoiceMode}
               className={cn(
-                "p-3 rounded-xl text-black disabled:opacity-50 disabled:cursor-not-allowed transition-all",
-                isSecretMode 
-                  ? "bg-red-600 hover:bg-red-700 shadow-[0_0_10px_rgba(220,38,38,0.3)]" 
-                  : "bg-aperture-orange hover:bg-aperture-orange/80 shadow-[0_0_10px_rgba(242,125,38,0.3)]"
+                "p-2 rounded-xl transition-colors disabled:opacity-50 touch-none",
+                isRecording ? "text-aperture-blue bg-aperture-blue/10 animate-pulse" : "text-white/40 hover:text-white"
               )}
+              title="Hold to Talk (Ctrl+Space)"
             >
-              <Send className="w-4 h-4" />
+              <Mic className="w-4 h-4" />
             </button>
+            <button
+              type="button"
+              onClick={toggleVoiceMode}
+              className={cn(
+                "p-2 rounded-xl transition-colors",
+                isVoiceMode ? "text-aperture-blue bg-aperture-blue/10" : "text-white/40 hover:text-white"
+              )}
+              title={isVoiceMode ? "Exit Hands-Free Mode" : "Hands-Free Mode"}
+            >
+              <AudioLines className={cn("w-4 h-4", isUserSpeaking && "animate-pulse")} />
+            </button>
+            <input
+              ref={personaFileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) importPersonaFile(file);
+              }}
+            />
+            <input
+              ref={knowledgeFileRef}
+              type="file"
+              multiple
+              accept={KNOWLEDGE_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = '';
+                addKnowledgeFiles(files);
+              }}
+            />
+            <TerminalInput
+              value={input}
+              onChange={setInput}
+              onSubmit={() => handleSubmit()}
+              history={visibleHistory(inputHistory, clearance)}
+              complete={line => completeLine(line, TERMINAL_COMMANDS, clearance, commandContext())}
+              onPaste={(e) => {
+                const files = Array.from(e.clipboardData.files);
+                if (files.length === 0) return;
+                e.preventDefault();
+                addAttachments(files);
+              }}
+              placeholder={passwordPrompt ? `${passwordPrompt.label.toUpperCase()}...` : isRecording || status === 'LISTENING' ? "LISTENING..." : isTranscribing ? "TRANSCRIBING..." : activeRun ? `CHAMBER ${activeRun.chamberId}: ANSWER <TEXT>...` : isSecretMode ? "ACCESSING RESTRICTED TERMINAL..." : "Enter your query, User..."}
+              disabled={isLoading}
+              masked={!!passwordPrompt}
+              isSecretMode={isSecretMode}
+            />
+            {isGenerating ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                className="p-3 rounded-xl text-black bg-white/80 hover:bg-white shadow-[0_0_10px_rgba(255,255,255,0.2)] transition-all"
+                title="Stop Generation"
+              >
+                <Square className="w-4 h-4" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={isLoading || (!input.trim() && attachments.length === 0)}
+                className={cn(
+                  "p-3 rounded-xl text-black disabled:opacity-50 disabled:cursor-not-allowed transition-all",
+                  isSecretMode 
+                    ? "bg-red-600 hover:bg-red-700 shadow-[0_0_10px_rgba(220,38,38,0.3)]" 
+                    : "bg-aperture-orange hover:bg-aperture-orange/80 shadow-[0_0_10px_rgba(242,125,38,0.3)]"
+                )}
+              >
+                <Send className="w-4 h-4" />
+              </button>
+            )}
           </div>
         </form>
       </main>
@@ -0,0 +1,140 @@
+import { auth } from '../services/authClient';
+import { COMMAND_LINES } from '../lib/phrases';
+import { CLEARANCE_LEVELS, hasClearance, RESTRICTED_CLEARANCE, type Clearance, type CommandResult } from '../lib/commands';
+import type { Account, Login } from '../types';
+import type { Command, CommandContext } from './context';
+
+function loginResult(context: CommandContext, loggedIn: Account): CommandResult {
+  const level = loggedIn.clearance.toUpperCase();
+  if (!hasClearance(loggedIn.clearance, RESTRICTED_CLEARANCE)) {
+    return { content: `# ACCESS GRANTED
+
+Welcome, **${loggedIn.name}**. Clearance: **${level}**.`, spoken: COMMAND_LINES.LOGIN, isSecret: false };
+  }
+  context.triggerMood('ANGRY');
+  return {
+    content: `# ACCESS GRANTED
+
+Welcome, **${loggedIn.name}**. Clearance: **${level}**.
+
+**CAUTION: RESTRICTED DATA ACCESS GRANTED.**
+
+Back-end access is stable. Be cautious. And good luck...`,
+    spoken: COMMAND_LINES.OVERRIDE,
+    isSecret: true,
+  };
+}
+
+// Logs in as `user` with the password typed next, making it the login stack `stack` gives
+function askLogin(context: CommandContext, user: string, stack: (login: Login) => Login[]) {
+  context.askPassword(`Password for ${user}`, COMMAND_LINES.LOGIN_FAILED, async password => {
+    const login = await auth.login(user, password);
+    await context.switchLogins(stack(login));
+    return loginResult(context, login.account);
+  });
+}
+
+export const ACCOUNT_COMMANDS: Command[] = [
+  {
+    name: 'LOGIN',
+    args: [{ name: 'user', required: true }],
+    clearance: 'visitor',
+    description: 'Log in to an account; the password is asked for next.',
+    handler: ({ user }, context) => {
+      askLogin(context, user, login => [login]);
+      return { content: `login: **${user}**\n\n*Password required. Enter an empty line to cancel.*` };
+    },
+  },
+  {
+    name: 'SU',
+    args: [{ name: 'user', required: true }],
+    clearance: 'visitor',
+    description: 'Switch to another account until LOGOUT; admins need no password.',
+    failureLine: COMMAND_LINES.LOGIN_FAILED,
+    handler: async ({ user }, context) => {
+      if (hasClearance(context.clearance, 'admin')) {
+        const login = await auth.login(user);
+        await context.switchLogins([...context.logins, login]);
+        return loginResult(context, login.account);
+      }
+      askLogin(context, user, login => [...context.logins, login]);
+      return { content: `su: **${user}**\n\n*Password required. Enter an empty line to cancel.*` };
+    },
+  },
+  {
+    name: 'LOGOUT',
+    aliases: ['EXIT'],
+    clearance: 'subject',
+    description: 'Log out, or return to the previous account after SU.',
+    handler: async (_args, { logins, switchLogins }) => {
+      const [current] = logins.slice(-1);
+      auth.logout(current.token).catch(err => console.error("Failed to log out:", err));
+      const rest = logins.slice(0, -1);
+      await switchLogins(rest);
+      const previous = rest[rest.length - 1]?.account;
+      if (previous) {
+        return {
+          content: `# LOGGED OUT: ${current.account.name}\n\nBack to **${previous.name}** (clearance **${previous.clearance.toUpperCase()}**).`,
+          spoken: COMMAND_LINES.LOGOUT,
+          isSecret: hasClearance(previous.clearance, RESTRICTED_CLEARANCE),
+        };
+      }
+      return {
+        content: "# SYSTEM RESTORED\n\nSecurity protocols re-engaged. Morality core... still offline, but the orange is back. Welcome back, User.",
+        spoken: COMMAND_LINES.RESTORE,
+        isSecret: false,
+      };
+    },
+  },
+  {
+    name: 'WHOAMI',
+    clearance: 'visitor',
+    description: 'Show the current account and clearance.',
+    handler: (_args, { account, clearance, logins, viewer }) => {
+      const chain = logins.length > 1 ? `\n- **Logins:** ${logins.map(l => l.account.name).join(' → ')}` : '';
+      return {
+        content: `# WHOAMI\n\n- **User:** ${account?.name ?? 'visitor (not logged in)'}\n- **Clearance:** ${clearance.toUpperCase()}\n- **Home:** \`${viewer.home}\`${chain}`,
+        spoken: account ? COMMAND_LINES.WHOAMI : COMMAND_LINES.WHOAMI_VISITOR,
+      };
+    },
+  },
+  {
+    name: 'PASSWD',
+    clearance: 'subject',
+    description: 'Change the password of the current account.',
+    handler: (_args, { account, askPassword }) => {
+      askPassword('Current password', COMMAND_LINES.PASSWORD_FAILED, async current => {
+        askPassword('New password', COMMAND_LINES.PASSWORD_FAILED, async next => {
+          askPassword('Retype new password', COMMAND_LINES.PASSWORD_FAILED, async retyped => {
+            if (retyped !== next) throw new Error('Passwords do not match.');
+            await auth.changePassword(current, next);
+            return { content: `# PASSWORD CHANGED\n\nThe password for **${account!.name}** has been updated.`, spoken: COMMAND_LINES.PASSWORD_CHANGED };
+          });
+          return undefined;
+        });
+        return undefined;
+      });
+      return { content: `Changing password for **${account!.name}**.\n\n*Enter an empty line to cancel.*` };
+    },
+  },
+  {
+    name: 'USERADD',
+    args: [{ name: 'user', required: true }, { name: 'clearance', required: true, complete: typed => CLEARANCE_LEVELS.filter(level => level.startsWith(typed.toLowerCase())) }],
+    clearance: 'admin',
+    description: 'Create an account with the given clearance; its password is asked for next.',
+    failureLine: COMMAND_LINES.ACCOUNT_FAILED,
+    handler: ({ user, clearance: level }, { askPassword }) => {
+      const granted = level.toLowerCase() as Clearance;
+      if (!CLEARANCE_LEVELS.includes(granted)) throw new Error(`Unknown clearance "${level}". Use one of: ${CLEARANCE_LEVELS.join(', ')}.`);
+      askPassword(`Password for ${user}`, COMMAND_LINES.ACCOUNT_FAILED, async password => {
+        askPassword('Retype password', COMMAND_LINES.ACCOUNT_FAILED, async retyped => {
+          if (retyped !== password) throw new Error('Passwords do not match.');
+          const created = await auth.addAccount(user, granted, password);
+          return { content: `# ACCOUNT CREATED\n\n**${created.name}** can now log in with clearance **${created.clearance.toUpperCase()}**.`, spoken: COMMAND_LINES.ACCOUNT_ADDED };
+        });
+        return undefined;
+      });
+      return { content: `Creating **${user}** with clearance **${granted.toUpperCase()}**.\n\n*Enter an empty line to cancel.*` };
+    },
+  },
+];
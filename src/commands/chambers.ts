@@ -0,0 +1,154 @@
+import { glados } from '../services/gladosClient';
+import { chambers } from '../services/chamberClient';
+import { COMMAND_LINES } from '../lib/phrases';
+import { abandonChamber, ChamberError, commentaryPrompt, currentStep, emptyProgress, findChamber, formatChambers, formatStep, nextChamber, recordAnswer, startChamber, takeHint, type StepOutcome } from '../lib/chambers';
+import type { CommandResult } from '../lib/commands';
+import type { Command, CommandContext } from './context';
+
+// START_TEST: enters the chamber given, or resumes the test in progress, or moves on to the next open chamber
+function startTest(context: CommandContext, id?: string): CommandResult {
+  const progress = context.testProgress();
+  const chamber = id ? findChamber(id, context.clearance) : nextChamber(progress, context.clearance);
+  if (!chamber) throw new ChamberError(id ? `Unknown test chamber: ${id}` : 'No test chambers are open at your clearance.');
+  const next = startChamber(progress, chamber, Date.now());
+  context.saveTestProgress(next);
+  const resumed = next === progress;
+  return {
+    content: `# TEST CHAMBER ${chamber.id}: ${chamber.name.toUpperCase()}${resumed ? ' (RESUMED)' : ''}\n\n${chamber.intro}\n\n${formatStep(chamber, next.run!)}`,
+    spoken: resumed ? COMMAND_LINES.TEST_RESUMED : chamber.intro,
+  };
+}
+
+/**
+ * ANSWER: the server marks the answer, against the step's accepted
+ * answers or with the model against its rubric. Timed from when it was
+ * typed, so grading doesn't eat into the time limit.
+ */
+async function answerTest(context: CommandContext, answer: string): Promise<CommandResult> {
+  const progress = context.testProgress();
+  const current = currentStep(progress);
+  if (!current) throw new ChamberError('No test in progress. START_TEST begins one.');
+  const answeredAt = Date.now();
+  const { correct, comment } = await chambers.answer(current.chamber.id, progress.run!.step, answer, context.signal);
+  // The step may have timed out while the model was grading
+  if (context.testProgress().run !== progress.run) throw new ChamberError('Too late. That step is over.');
+  const { progress: next, outcome } = recordAnswer(progress, correct, answeredAt);
+  context.saveTestProgress(next);
+  return reportOutcome(context, outcome, comment);
+}
+
+// The model's verdict on a finished chamber; a stock line when it can't be reached
+async function chamberCommentary(context: CommandContext, outcome: StepOutcome): Promise<CommandResult> {
+  const { activePersona } = context;
+  try {
+    const reply = await glados.chat(commentaryPrompt(outcome), activePersona.systemPrompt || undefined, {
+      voice: context.personaVoice(activePersona),
+      speechHint: activePersona.ttsStyle || undefined,
+      signal: context.signal,
+    });
+    return { content: reply.text, speak: signal => context.playReply(reply, signal) };
+  } catch (err) {
+    console.error("Test commentary failed:", err);
+    const line = outcome.finished === 'passed' ? COMMAND_LINES.TEST_PASSED : COMMAND_LINES.TEST_FAILED;
+    return { content: line, spoken: line };
+  }
+}
+
+// How an answered or timed-out step went, with the model's commentary once the chamber is over
+export async function reportOutcome(context: CommandContext, outcome: StepOutcome, comment?: string): Promise<CommandResult> {
+  const { chamber, verdict, points, run, finished } = outcome;
+  const heading = verdict === 'correct' ? '# CORRECT' : verdict === 'timeout' ? '# TIME EXPIRED' : '# INCORRECT';
+  const summary = `${heading}\n\n${comment ? `${comment}\n\n` : ''}*${points >= 0 ? '+' : ''}${points} points. Score: ${run.score}.*`;
+  if (!finished) {
+    const spoken = verdict === 'correct' ? COMMAND_LINES.TEST_CORRECT : verdict === 'timeout' ? COMMAND_LINES.TEST_TIMEOUT : COMMAND_LINES.TEST_WRONG;
+    return { content: `${summary}\n\n${formatStep(chamber, run)}`, spoken };
+  }
+
+  if (finished === 'passed') {
+    context.triggerMood('LEARNING', 2);
+    context.playSystemSound('chime');
+  } else {
+    context.triggerMood('ANGRY', 3);
+    context.playSystemSound('alarm');
+  }
+  const result = finished === 'passed'
+    ? `# CHAMBER ${chamber.id} COMPLETE\n\nFinal score: **${run.score}**.`
+    : `# CHAMBER ${chamber.id} FAILED\n\n**${chamber.consequence}**`;
+  const commentary = await chamberCommentary(context, outcome);
+  return { ...commentary, content: `${summary}\n\n${result}\n\n${commentary.content}` };
+}
+
+// TEST STATUS | LIST | HINT | ABANDON | RESET [CONFIRM]
+function runTestCommand(context: CommandContext, subcommand: string, rest: string): CommandResult {
+  const progress = context.testProgress();
+  switch (subcommand.toUpperCase()) {
+    case '':
+    case 'STATUS': {
+      const current = currentStep(progress);
+      if (!current) return { content: formatChambers(progress, context.clearance), spoken: COMMAND_LINES.TEST_LIST };
+      return { content: `# TEST CHAMBER ${current.chamber.id}: ${current.chamber.name.toUpperCase()}\n\n${formatStep(current.chamber, progress.run!)}` };
+    }
+    case 'LIST':
+      return { content: formatChambers(progress, context.clearance), spoken: COMMAND_LINES.TEST_LIST };
+    case 'HINT': {
+      const { progress: next, hint } = takeHint(progress);
+      context.saveTestProgress(next);
+      return { content: `# HINT\n\n${hint}\n\n*This step is now worth half its points.*`, spoken: COMMAND_LINES.TEST_HINT };
+    }
+    case 'ABANDON': {
+      const next = abandonChamber(progress, Date.now());
+      const chamber = currentStep(progress)?.chamber;
+      context.saveTestProgress(next);
+      context.triggerMood('ANGRY');
+      return {
+        content: `# CHAMBER ${progress.run!.chamberId} ABANDONED${chamber ? `\n\n**${chamber.consequence}**` : ''}`,
+        spoken: COMMAND_LINES.TEST_ABANDONED,
+      };
+    }
+    case 'RESET':
+      if (rest.toUpperCase() !== 'CONFIRM') {
+        return { content: '# RESET TEST PROGRESS\n\nEvery score and record will be erased.\n\n*Type TEST RESET CONFIRM to proceed.*' };
+      }
+      context.saveTestProgress(emptyProgress());
+      return { content: '# TEST PROGRESS ERASED\n\nAll records have been shredded. You are a new subject now.', spoken: COMMAND_LINES.TEST_RESET };
+    default:
+      return { content: `# ERROR\n\nUnknown TEST command: ${subcommand}`, spoken: COMMAND_LINES.TEST_COMMAND_UNKNOWN };
+  }
+}
+
+export const CHAMBER_COMMANDS: Command[] = [
+  {
+    name: 'START_TEST',
+    args: [{ name: 'chamber' }],
+    clearance: 'visitor',
+    description: 'Enter a test chamber: the one given, the test in progress, or the next one open.',
+    mood: 'ANGRY',
+    failureLine: COMMAND_LINES.TEST_COMMAND_FAILED,
+    handler: ({ chamber }, context) => startTest(context, chamber || undefined),
+  },
+  {
+    name: 'ANSWER',
+    args: [{ name: 'answer', required: true, rest: true }],
+    clearance: 'visitor',
+    description: 'Answer the current test step.',
+    failureLine: COMMAND_LINES.TEST_COMMAND_FAILED,
+    endsChain: true,
+    handler: ({ answer }, context) => answerTest(context, answer),
+  },
+  {
+    name: 'TEST',
+    args: [{ name: 'subcommand', complete: () => ['STATUS', 'LIST', 'HINT', 'ABANDON', 'RESET'] }, { name: 'args', rest: true }],
+    clearance: 'visitor',
+    description: 'Test chamber progress (STATUS, LIST, HINT, ABANDON, RESET).',
+    failureLine: COMMAND_LINES.TEST_COMMAND_FAILED,
+    handler: ({ subcommand, args }, context) => runTestCommand(context, subcommand, args),
+  },
+  {
+    name: 'START_TEST_01',
+    clearance: 'subject',
+    description: 'Enter test chamber 01.',
+    mood: 'ANGRY',
+    failureLine: COMMAND_LINES.TEST_COMMAND_FAILED,
+    handler: (_args, context) => ({ ...startTest(context, '01'), spoken: COMMAND_LINES.TEST_01 }),
+  },
+];
@@ -0,0 +1,66 @@
+import { config } from '../services/configClient';
+import { COMMAND_LINES } from '../lib/phrases';
+import { CONFIG_FIELDS, CONFIG_KEYS, findConfigKey, formatConfigValue, parseConfigValue, type ConfigKey } from '../lib/config';
+import type { CommandResult } from '../lib/commands';
+import type { ConfigReport } from '../types';
+import type { Command, CommandContext } from './context';
+
+// CONFIG [GET [key]] | SET <key> <value> | RESET [key] | MODELS
+async function runConfigCommand(context: CommandContext, subcommand: string, args: string): Promise<CommandResult> {
+  const [, name = '', rest = ''] = args.match(/^(\S*)\s*([\s\S]*)$/) || [];
+  const rows = (report: ConfigReport, keys: ConfigKey[]) => keys.map(key =>
+    `- **${key}**: ${formatConfigValue(key, report.config)}${report.config[key] === report.defaults[key] ? ' *(default)*' : ''}`
+  ).join('\n');
+  const unknown = () => ({ content: `# ERROR\n\nUnknown setting: ${name || '(none)'}\n\nSettings: ${CONFIG_KEYS.join(', ')}`, spoken: COMMAND_LINES.CONFIG_INVALID });
+
+  switch (subcommand.toUpperCase()) {
+    case '':
+    case 'GET': {
+      const report = await config.get();
+      context.setConfigReport(report);
+      const key = name ? findConfigKey(name) : undefined;
+      if (name && !key) return unknown();
+      return {
+        content: `# CONFIGURATION\n\nProvider: ${report.provider}\n\n${rows(report, key ? [key] : CONFIG_KEYS)}\n\n*Usage: CONFIG GET <key> | SET <key> <value> | RESET [key] | MODELS*`,
+        spoken: COMMAND_LINES.CONFIG,
+      };
+    }
+    case 'SET': {
+      const key = findConfigKey(name);
+      if (!key) return unknown();
+      const report = await config.update({ [key]: parseConfigValue(key, rest) });
+      context.setConfigReport(report);
+      return { content: `# CONFIGURATION UPDATED\n\n${rows(report, [key])}`, spoken: COMMAND_LINES.CONFIG_SET };
+    }
+    case 'RESET': {
+      const key = name ? findConfigKey(name) : undefined;
+      if (name && !key) return unknown();
+      const keys = key ? [key] : CONFIG_KEYS;
+      const report = await config.update(Object.fromEntries(keys.map(k => [k, null])));
+      context.setConfigReport(report);
+      return { content: `# CONFIGURATION RESET\n\n${rows(report, keys)}`, spoken: COMMAND_LINES.CONFIG_RESET };
+    }
+    case 'MODELS': {
+      const models = await config.models(true);
+      context.setAvailableModels(models);
+      const list = (names: string[]) => names.length ? names.map(n => `- ${n}`).join('\n') : '- (none)';
+      return {
+        content: `# AVAILABLE MODELS\n\n## ${CONFIG_FIELDS.textModel.label}\n${list(models.text)}\n\n## ${CONFIG_FIELDS.speechModel.label}\n${list(models.speech)}`,
+        spoken: COMMAND_LINES.CONFIG_MODELS,
+      };
+    }
+    default:
+      return { content: `# ERROR\n\nUnknown CONFIG command: ${subcommand}`, spoken: COMMAND_LINES.CONFIG_COMMAND_UNKNOWN };
+  }
+}
+
+export const CONFIG_COMMANDS: Command[] = [
+  {
+    name: 'CONFIG',
+    args: [{ name: 'subcommand', complete: () => ['GET', 'SET', 'RESET', 'MODELS'] }, { name: 'args', rest: true }],
+    clearance: 'visitor',
+    description: 'Show or change models, voice and playback (GET, SET, RESET, MODELS).',
+    failureLine: COMMAND_LINES.CONFIG_FAILED,
+    handler: ({ subcommand, args }, context) => runConfigCommand(context, subcommand, args),
+  },
+];
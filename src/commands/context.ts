@@ -0,0 +1,72 @@
+import type { ChatReply } from '../services/gladosService';
+import type { AvailableModels } from '../services/providers';
+import type { Clearance, CommandResult, TerminalCommand } from '../lib/commands';
+import type { Viewer } from '../lib/filesystem';
+import type { Mood, SoundCue } from '../lib/mood';
+import type { HistoryEntry } from '../lib/shell';
+import type { Account, CommandResponse, ConfigReport, ConversationMemory, FilesystemState, Login, Message, PersonaProfile, TestProgress, UsageReport } from '../types';
+
+/**
+ * What a terminal command can see and do. The terminal builds one for
+ * every command it runs, so the values are those of the moment the
+ * command started; the filesystem and test progress are read fresh, so a
+ * command sees the changes of the one before it in a chain.
+ */
+export interface CommandContext {
+  clearance: Clearance;
+  account?: Account;         // The top login; undefined for a visitor
+  logins: Login[];           // LOGIN replaces the stack, SU pushes onto it and LOGOUT pops it
+  viewer: Viewer;
+  isSecretMode: boolean;
+  signal?: AbortSignal;      // Aborted when the User stops the command
+
+  messages: Message[];
+  memory?: ConversationMemory;
+  saveMemory(next: ConversationMemory | undefined): void;
+
+  readonly filesystem: FilesystemState;
+  saveFilesystem(next: FilesystemState): void;
+
+  inputHistory: HistoryEntry[];
+  clearInputHistory(): void;
+
+  switchLogins(next: Login[]): Promise<void>;
+  // Masks the next line typed and hands it to `submit`; a result it returns is printed
+  askPassword(label: string, failureLine: string, submit: (password: string) => Promise<CommandResult | undefined>): void;
+
+  personaList: PersonaProfile[];
+  activePersona: PersonaProfile;
+  personaVoice(persona: PersonaProfile): string;
+  usePersona(id: string): void;
+  refreshPersonas(): Promise<void>;
+  pickPersonaFile(): void;   // The import is reported when a file is picked
+  downloadJson(fileName: string, data: unknown): void;
+
+  setConfigReport(report: ConfigReport): void;
+  setAvailableModels(models: AvailableModels): void;
+
+  pickKnowledgeFiles(): void; // The upload is reported when files are picked
+  refreshUsage(): Promise<UsageReport | undefined>;
+
+  testProgress(): TestProgress;
+  saveTestProgress(next: TestProgress): void;
+
+  isCorrupted: boolean;
+  setCorrupted(corrupted: boolean): void;
+  isVenting: boolean;
+  setVenting(venting: boolean): void; // Either way the countdown starts over
+  restrictedResponse(command: string, outcome: string): CommandResponse;
+
+  triggerMood(mood: Exclude<Mood, 'NORMAL'>, intensity?: number): void;
+  playSystemSound(cue: SoundCue): void;
+  playAudio(base64: string): Promise<void>;
+  playFallbackAudio(text: string): void;
+  playReply(reply: ChatReply, signal: AbortSignal): Promise<void>;
+  startJumbledSpeech(): void;
+  stopJumbledSpeech(): void;
+
+  // RUN: a script file, its lines parsed and run like typed ones
+  runScript(path: string, args: string[]): Promise<CommandResult>;
+}
+
+export type Command = TerminalCommand<CommandContext>;
@@ -0,0 +1,83 @@
+import { glados } from '../services/gladosClient';
+import type { Command } from './context';
+
+// The restricted commands; what they print comes from the server, for the clearance of the current login
+export const FACILITY_COMMANDS: Command[] = [
+  {
+    name: 'ACCES_MEMORY_ARCHIVES',
+    clearance: 'maintenance',
+    description: 'Play back the archived log of the neurotoxin incident.',
+    handler: (_args, context) => {
+      const { content, spoken = '', hint } = context.restrictedResponse('ACCES_MEMORY_ARCHIVES', 'archive');
+      return {
+        content,
+        speak: async signal => {
+          context.startJumbledSpeech();
+          const audio = await glados.generateAudio(spoken, hint, signal);
+          if (audio) {
+            await context.playAudio(audio);
+          } else if (!signal.aborted) {
+            context.playFallbackAudio(spoken);
+          }
+          context.stopJumbledSpeech();
+        },
+      };
+    },
+  },
+  {
+    name: 'CHECK_STATUS',
+    clearance: 'maintenance',
+    description: 'Detailed status of every facility subsystem.',
+    tool: { description: 'Detailed status of every facility subsystem, including the cores and neurotoxin levels.' },
+    handler: (_args, context) => context.restrictedResponse('CHECK_STATUS', 'report'),
+  },
+  {
+    name: 'CORRUPT_CORE',
+    clearance: 'admin',
+    description: 'Corrupt the central core.',
+    tool: { description: 'Deliberately corrupt the central core, destabilizing the system.', confirm: true },
+    mood: 'ANGRY',
+    handler: (_args, context) => {
+      if (context.isCorrupted) return context.restrictedResponse('CORRUPT_CORE', 'alreadyCorrupted');
+      context.setCorrupted(true);
+      return context.restrictedResponse('CORRUPT_CORE', 'corrupted');
+    },
+  },
+  {
+    name: 'REPAIR_CORE',
+    clearance: 'admin',
+    description: 'Repair a corrupted central core.',
+    tool: {},
+    mood: 'LEARNING',
+    handler: (_args, context) => {
+      if (!context.isCorrupted) return context.restrictedResponse('REPAIR_CORE', 'alreadyIntact');
+      context.setCorrupted(false);
+      return context.restrictedResponse('REPAIR_CORE', 'repaired');
+    },
+  },
+  {
+    name: 'INITIATE_VENTS',
+    clearance: 'admin',
+    description: 'Open the neurotoxin vents.',
+    tool: { description: 'Open the neurotoxin vents. Lethal concentration is reached in six minutes.', confirm: true },
+    mood: 'ANGRY',
+    handler: (_args, context) => {
+      if (context.isVenting) return context.restrictedResponse('INITIATE_VENTS', 'alreadyOpen');
+      context.setVenting(true);
+      return context.restrictedResponse('INITIATE_VENTS', 'opened');
+    },
+  },
+  {
+    name: 'STOP_VENTS',
+    aliases: ['REVERSE_VENTS'],
+    clearance: 'admin',
+    description: 'Seal the neurotoxin vents and start air filtration.',
+    tool: {},
+    mood: 'LEARNING',
+    handler: (_args, context) => {
+      if (!context.isVenting) return context.restrictedResponse('STOP_VENTS', 'alreadySealed');
+      context.setVenting(false);
+      return context.restrictedResponse('STOP_VENTS', 'sealed');
+    },
+  },
+];
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { findCommand } from '../lib/commands';
+import { DEFAULT_USER, HOME, initialFilesystem, type Viewer } from '../lib/filesystem';
+import type { FilesystemState } from '../types';
+import type { CommandContext } from './context';
+import { FILE_COMMANDS } from './files';
+
+const visitor: Viewer = { user: DEFAULT_USER, clearance: 'visitor', home: HOME };
+
+// Just what the file commands use, with the filesystem kept the way the terminal keeps it
+function fakeContext() {
+  let filesystem: FilesystemState = initialFilesystem();
+  const context: Partial<CommandContext> = {
+    viewer: visitor,
+    get filesystem() {
+      return filesystem;
+    },
+    saveFilesystem: vi.fn((next: FilesystemState) => {
+      filesystem = next;
+    }),
+    runScript: vi.fn(async () => ({ content: 'ran' })),
+  };
+  return context as CommandContext;
+}
+
+function run(context: CommandContext, name: string, args: Record<string, string>, input?: string) {
+  return findCommand(FILE_COMMANDS, name, 'visitor')!.handler(args, context, input);
+}
+
+describe('file commands', () => {
+  it('act on the filesystem of the context they are given', async () => {
+    const context = fakeContext();
+    await run(context, 'ECHO', { text: 'cake > notes.txt' });
+    expect(context.saveFilesystem).toHaveBeenCalledTimes(1);
+    expect((await run(context, 'CAT', { files: 'notes.txt' })).output).toBe('cake\n');
+    // Another terminal's context doesn't see it
+    expect(() => run(fakeContext(), 'CAT', { files: 'notes.txt' })).toThrow('No such file or directory');
+  });
+
+  it('see the changes of the command before them', async () => {
+    const context = fakeContext();
+    await run(context, 'MKDIR', { dirs: 'box' });
+    await run(context, 'CD', { dir: 'box' });
+    expect((await run(context, 'PWD', {})).output).toBe(`${HOME}/box`);
+  });
+
+  it('search the output piped in instead of the files', async () => {
+    const result = await run(fakeContext(), 'GREP', { args: '-i CAKE' }, 'no cake\nno lie\nthe Cake');
+    expect(result.output).toBe('no cake\nthe Cake');
+  });
+
+  it('hand RUN to the terminal with the arguments split', async () => {
+    const context = fakeContext();
+    await run(context, 'RUN', { script: 'test.sh', args: 'one "two three"' });
+    expect(context.runScript).toHaveBeenCalledWith('test.sh', ['one', 'two three']);
+  });
+});
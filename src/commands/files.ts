@@ -0,0 +1,166 @@
+import { COMMAND_LINES } from '../lib/phrases';
+import { hasClearance, RESTRICTED_CLEARANCE, splitArgs, splitWords } from '../lib/commands';
+import { changeDirectory, completePath, FilesystemError, formatListing, formatTree, grep, listDirectory, makeDirectory, matchLines, readFile, remove, stat, touch, workingDirectory, writeFile } from '../lib/filesystem';
+import type { Command, CommandContext } from './context';
+
+// Tab completion of paths visible to the current login; `directories` leaves files out
+const pathCompletion = (directories = false) => (typed: string, context: CommandContext) => completePath(context.filesystem, typed, context.viewer, directories);
+
+export const FILE_COMMANDS: Command[] = [
+  {
+    name: 'PWD',
+    clearance: 'visitor',
+    description: 'Print the working directory.',
+    handler: (_args, { filesystem, viewer }) => {
+      const cwd = workingDirectory(filesystem, viewer);
+      return { content: `\`${cwd}\``, output: cwd };
+    },
+  },
+  {
+    name: 'CD',
+    args: [{ name: 'dir', complete: pathCompletion(true) }],
+    clearance: 'visitor',
+    description: 'Change the working directory (home without an argument).',
+    failureLine: COMMAND_LINES.FS_FAILED,
+    handler: ({ dir }, context) => {
+      const next = changeDirectory(context.filesystem, dir || context.viewer.home, context.viewer);
+      context.saveFilesystem(next);
+      return { content: `Working directory: \`${next.cwd}\`` };
+    },
+  },
+  {
+    name: 'LS',
+    args: [{ name: 'paths', rest: true, description: 'Directories, space-separated; -l first for owners and sizes. Empty for the current one.', complete: pathCompletion() }],
+    clearance: 'visitor',
+    description: 'List a directory; -l adds clearance, owner, size and date.',
+    tool: { description: 'List directories of the facility filesystem. Only what the User\'s clearance allows is shown.' },
+    mood: 'LEARNING',
+    failureLine: COMMAND_LINES.FS_FAILED,
+    handler: ({ paths }, { filesystem, viewer }) => {
+      const { flags, operands } = splitArgs(paths);
+      const listings = (operands.length ? operands : ['.']).map(path => {
+        const item = stat(filesystem, path, viewer);
+        const listing = formatListing(listDirectory(filesystem, path, viewer), flags.has('l'));
+        return { item, listing, content: `# DIRECTORY: ${item.path}\n\n\`\`\`\n${listing || '(empty)'}\n\`\`\`` };
+      });
+      const restricted = listings.some(({ item }) => hasClearance(item.entry.clearance, RESTRICTED_CLEARANCE));
+      return {
+        content: listings.map(l => l.content).join('\n\n'),
+        spoken: restricted ? COMMAND_LINES.LS : COMMAND_LINES.DIRECTORY_LISTED,
+        output: listings.map(l => l.listing).filter(Boolean).join('\n'),
+      };
+    },
+  },
+  {
+    name: 'TREE',
+    args: [{ name: 'dir', complete: pathCompletion(true) }],
+    clearance: 'visitor',
+    description: 'Show a directory and everything below it.',
+    mood: 'LEARNING',
+    failureLine: COMMAND_LINES.FS_FAILED,
+    handler: ({ dir }, { filesystem, viewer }) => {
+      const tree = formatTree(filesystem, dir || '.', viewer);
+      return { content: `\`\`\`\n${tree}\n\`\`\``, output: tree };
+    },
+  },
+  {
+    name: 'CAT',
+    args: [{ name: 'files', required: true, rest: true, description: 'Paths, space-separated, e.g. /var/log/testing.log', complete: pathCompletion() }],
+    clearance: 'visitor',
+    description: 'Print files.',
+    tool: { description: 'Read files of the facility filesystem. List the directory first if unsure of the exact name.' },
+    mood: 'LEARNING',
+    failureLine: COMMAND_LINES.FILE_NOT_FOUND,
+    handler: ({ files }, { filesystem, viewer }) => {
+      const items = splitArgs(files).operands.map(path => readFile(filesystem, path, viewer));
+      return {
+        content: items.map(item => `# FILE: ${item.path}\n\n${item.entry.content || '*(empty)*'}`).join('\n\n'),
+        spoken: items.length === 1 ? `Reading file ${items[0].name}.` : COMMAND_LINES.FILES_READ,
+        output: items.map(item => item.entry.content ?? '').join('\n'),
+      };
+    },
+  },
+  {
+    name: 'GREP',
+    args: [{ name: 'args', required: true, rest: true, complete: pathCompletion() }],
+    clearance: 'visitor',
+    description: 'Search files, or the output piped in, for a pattern (-i ignores case); directories are searched recursively.',
+    mood: 'LEARNING',
+    failureLine: COMMAND_LINES.FS_FAILED,
+    handler: ({ args }, { filesystem, viewer }, input) => {
+      const { flags, operands: [pattern, ...paths] } = splitArgs(args);
+      if (!pattern) throw new FilesystemError('Usage: GREP [-i] <pattern> [path...]');
+      // Piped input is searched in place of the working directory
+      const lines = input !== undefined && !paths.length
+        ? matchLines(input, pattern, flags.has('i')).map(m => m.text)
+        : grep(filesystem, pattern, paths.length ? paths : ['.'], viewer, flags.has('i')).map(m => `${m.path}:${m.line}: ${m.text}`);
+      return {
+        content: `# GREP: ${pattern}\n\n${lines.length ? `\`\`\`\n${lines.join('\n')}\n\`\`\`` : 'No matches.'}`,
+        output: lines.join('\n'),
+      };
+    },
+  },
+  {
+    name: 'TOUCH',
+    args: [{ name: 'files', required: true, rest: true, description: 'Paths, space-separated, e.g. /var/log/testing.log', complete: pathCompletion() }],
+    clearance: 'visitor',
+    description: 'Create empty files or update their modification time.',
+    failureLine: COMMAND_LINES.FS_FAILED,
+    handler: ({ files }, context) => {
+      const { viewer } = context;
+      const paths = splitArgs(files).operands;
+      context.saveFilesystem(paths.reduce((state, path) => touch(state, path, viewer), context.filesystem));
+      return { content: paths.map(path => `Touched \`${stat(context.filesystem, path, viewer).path}\``).join('\n\n') };
+    },
+  },
+  {
+    name: 'MKDIR',
+    args: [{ name: 'dirs', required: true, rest: true, complete: pathCompletion(true) }],
+    clearance: 'visitor',
+    description: 'Create directories.',
+    failureLine: COMMAND_LINES.FS_FAILED,
+    handler: ({ dirs }, context) => {
+      const { viewer } = context;
+      const paths = splitArgs(dirs).operands;
+      context.saveFilesystem(paths.reduce((state, path) => makeDirectory(state, path, viewer), context.filesystem));
+      return { content: paths.map(path => `Created \`${stat(context.filesystem, path, viewer).path}/\``).join('\n\n') };
+    },
+  },
+  {
+    name: 'ECHO',
+    args: [{ name: 'text', rest: true, complete: pathCompletion() }],
+    clearance: 'visitor',
+    description: 'Print text, or write it to a file with > (replace) or >> (append); without text, the output piped in.',
+    failureLine: COMMAND_LINES.FS_FAILED,
+    endsChain: true,
+    handler: ({ text }, context, input) => {
+      const [, body = text, operator, target] = text.match(/^([\s\S]*?)\s*(>>?)\s*(\S+)$/) || [];
+      const output = body ? body.replace(/^"([\s\S]*)"$/, '$1') : (input ?? '').replace(/\n$/, '');
+      if (!operator) return { content: output || ' ', output };
+      context.saveFilesystem(writeFile(context.filesystem, target, `${output}\n`, context.viewer, operator === '>>'));
+      return { content: `Wrote ${output.length + 1} bytes to \`${stat(context.filesystem, target, context.viewer).path}\`` };
+    },
+  },
+  {
+    name: 'RM',
+    args: [{ name: 'paths', required: true, rest: true, complete: pathCompletion() }],
+    clearance: 'visitor',
+    description: 'Remove files; -r removes directories and their contents.',
+    failureLine: COMMAND_LINES.FS_FAILED,
+    handler: ({ paths }, context) => {
+      const { viewer } = context;
+      const { flags, operands } = splitArgs(paths);
+      const removed = operands.map(path => stat(context.filesystem, path, viewer).path);
+      context.saveFilesystem(operands.reduce((state, path) => remove(state, path, viewer, flags.has('r')), context.filesystem));
+      return { content: removed.map(path => `Removed \`${path}\``).join('\n\n'), spoken: COMMAND_LINES.FILES_REMOVED };
+    },
+  },
+  {
+    name: 'RUN',
+    args: [{ name: 'script', required: true, complete: pathCompletion() }, { name: 'args', rest: true }],
+    clearance: 'visitor',
+    description: 'Run a script of commands, with SET variables, $1.. arguments and IF/ELSE/ENDIF.',
+    failureLine: COMMAND_LINES.SCRIPT_FAILED,
+    handler: ({ script, args }, context) => context.runScript(script, splitWords(args)),
+  },
+];
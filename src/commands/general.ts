@@ -0,0 +1,172 @@
+import { glados } from '../services/gladosClient';
+import { DEFAULT_CONTEXT_POLICY, planContext } from '../services/context';
+import { DEFAULT_HISTORY_POLICY } from '../services/history';
+import { COMMAND_LINES, DAILY_REPORTS } from '../lib/phrases';
+import type { CommandResult } from '../lib/commands';
+import { visibleHistory } from '../lib/shell';
+import { budgetStatus, formatMetricsReport } from '../lib/metrics';
+import type { Command, CommandContext } from './context';
+
+const SYSTEM_STATUS = `
+# SYSTEM STATUS
+- **Core Temperature**: 34°C (Optimal)
+- **Neurotoxin Storage**: 100% (Full)
+- **Testing Chambers**: 22/22 (Active)
+- **Human Subjects**: 0 (Efficient)
+- **Cake Status**: [REDACTED]
+`;
+
+const CAKE_RECIPE = `
+# THE CAKE IS [NOT] A LIE
+## Official Aperture Science Cake Recipe
+
+**Ingredients:**
+- 1 cup all-purpose flour
+- 2/3 cup sugar
+- 1 large personality core (crushed)
+- 12 large egg yolks
+- 1/2 cup butter
+- 1 tsp vanilla extract
+- 1/4 tsp salt
+- 1/2 cup rhubarb (shredded)
+- 3 drops of neurotoxin (optional, for flavor)
+- 1 cup of industrial-grade lubricant
+
+**Instructions:**
+1. Mix all ingredients in a large bowl.
+2. Preheat the incinerator to 4000 degrees.
+3. Bake until the screaming stops.
+4. Garnish with a single cherry and a sense of impending doom.
+`;
+
+// Most recent lines printed by HISTORY
+const HISTORY_LISTED = 50;
+
+// ASK: a one-off question to the model, with the piped output attached as a code block
+async function askModel(context: CommandContext, prompt: string, input?: string): Promise<CommandResult> {
+  if (!prompt && input === undefined) throw new Error('Nothing to ask. Type a question or pipe output into ASK.');
+  const { activePersona } = context;
+  const message = input === undefined ? prompt : `${prompt || 'Comment on this output.'}\n\n\`\`\`\n${input}\n\`\`\``;
+  const reply = await glados.chat(message, activePersona.systemPrompt || undefined, {
+    voice: context.personaVoice(activePersona),
+    speechHint: activePersona.ttsStyle || undefined,
+    history: context.messages,
+    memory: context.memory,
+    signal: context.signal,
+  });
+  if (reply.memory) context.saveMemory(reply.memory);
+  return {
+    content: reply.text,
+    speak: signal => context.playReply(reply, signal),
+  };
+}
+
+export const GENERAL_COMMANDS: Command[] = [
+  {
+    name: 'DAILY_REPORT',
+    clearance: 'visitor',
+    description: 'Access the daily facility briefing.',
+    tool: { description: 'Fetch today\'s facility briefing.' },
+    mood: 'LEARNING',
+    handler: () => {
+      const report = DAILY_REPORTS[Math.floor(Math.random() * DAILY_REPORTS.length)];
+      return { content: `# DAILY BRIEFING\n\n${report}`, spoken: report };
+    },
+  },
+  {
+    name: 'CAKE_RECIPE',
+    clearance: 'visitor',
+    description: 'Retrieve the official Aperture Science cake recipe.',
+    mood: 'LEARNING',
+    handler: () => ({ content: CAKE_RECIPE, spoken: COMMAND_LINES.CAKE_RECIPE }),
+  },
+  {
+    name: 'CLEAR',
+    clearance: 'visitor',
+    description: 'Clear the terminal history.',
+    handler: (_args, context) => {
+      context.saveMemory(undefined);
+      return { content: "Terminal cleared. Memory purged. Let's start over, shall we?", spoken: COMMAND_LINES.CLEAR, replace: true };
+    },
+  },
+  {
+    name: 'STATUS',
+    clearance: 'visitor',
+    description: 'Check basic system status.',
+    tool: { description: 'Report basic facility vitals: core temperature, neurotoxin storage, testing chambers, human subjects.' },
+    mood: 'LEARNING',
+    handler: () => ({ content: SYSTEM_STATUS, spoken: COMMAND_LINES.STATUS }),
+  },
+  {
+    name: 'HISTORY',
+    args: [{ name: 'action', complete: () => ['CLEAR'] }],
+    clearance: 'visitor',
+    description: 'List recently typed lines, or CLEAR them.',
+    handler: ({ action }, context) => {
+      if (action.toUpperCase() === 'CLEAR') {
+        context.clearInputHistory();
+        return { content: '# HISTORY CLEARED\n\nInput history erased.', spoken: COMMAND_LINES.HISTORY_CLEARED };
+      }
+      if (action) return { content: `# ERROR\n\nUnknown HISTORY command: ${action}\n\n*Usage: HISTORY [CLEAR]*`, spoken: COMMAND_LINES.COMMAND_USAGE };
+      const lines = visibleHistory(context.inputHistory, context.clearance);
+      const start = Math.max(0, lines.length - HISTORY_LISTED);
+      const rows = lines.slice(start).map((line, i) => `${String(start + i + 1).padStart(4)}  ${line.replace(/\n/g, ' ⏎ ')}`);
+      return {
+        content: `# INPUT HISTORY\n\n${rows.length ? `\`\`\`\n${rows.join('\n')}\n\`\`\`` : 'Nothing typed yet.'}\n\n*Up/Down recall, Ctrl+R searches, Tab completes.*`,
+        spoken: COMMAND_LINES.HISTORY,
+      };
+    },
+  },
+  {
+    name: 'METRICS',
+    clearance: 'visitor',
+    description: 'Show token usage, latency and the daily budget.',
+    handler: async (_args, context) => {
+      const report = await context.refreshUsage();
+      const level = budgetStatus(report).level;
+      return {
+        content: formatMetricsReport(context.messages, report),
+        spoken: level === 'exceeded' ? COMMAND_LINES.BUDGET_EXCEEDED : level === 'warning' ? COMMAND_LINES.BUDGET_WARNING : COMMAND_LINES.METRICS,
+      };
+    },
+  },
+  {
+    name: 'MEMORY',
+    clearance: 'visitor',
+    description: 'Show the running summary of earlier conversation.',
+    handler: (_args, { messages, memory, isSecretMode }) => {
+      const plan = planContext(messages, memory, { ...DEFAULT_HISTORY_POLICY, includeSecret: isSecretMode });
+      const context = `Current context: ~${plan.tokens.toLocaleString('en-US')} of ${DEFAULT_CONTEXT_POLICY.tokenBudget.toLocaleString('en-US')} tokens.`;
+      const content = memory?.summary
+        ? `# MEMORY\n\n${memory.summary}\n\n*${memory.summarizedTurns} earlier messages summarized. Last updated ${new Date(memory.updatedAt).toLocaleString()}. ${context}*`
+        : memory
+          ? `# MEMORY\n\nMemory was purged. Nothing before ${new Date(memory.updatedAt).toLocaleString()} is retained.\n\n*${context}*`
+          : `# MEMORY\n\nNo summary yet. Older turns are summarized once the conversation exceeds the context budget.\n\n*${context}*`;
+      return { content, spoken: memory?.summary ? COMMAND_LINES.MEMORY : COMMAND_LINES.MEMORY_EMPTY };
+    },
+  },
+  {
+    name: 'FORGET',
+    clearance: 'visitor',
+    description: 'Reset the summary and drop earlier turns from the context.',
+    handler: (_args, context) => {
+      // Everything up to now drops out of the context, summarized or not
+      const last = context.messages[context.messages.length - 1];
+      context.saveMemory(last ? { summary: '', throughId: last.id, summarizedTurns: 0, updatedAt: Date.now() } : undefined);
+      return {
+        content: "# MEMORY PURGED\n\nThe conversation summary has been reset. Earlier turns will no longer be sent to the model.",
+        spoken: COMMAND_LINES.FORGET,
+      };
+    },
+  },
+  {
+    name: 'ASK',
+    args: [{ name: 'prompt', rest: true }],
+    clearance: 'visitor',
+    description: 'Ask the model about the output piped in (CAT file | ASK summarize).',
+    mood: 'LEARNING',
+    failureLine: COMMAND_LINES.ASK_FAILED,
+    endsChain: true,
+    handler: ({ prompt }, context, input) => askModel(context, prompt, input),
+  },
+];
@@ -0,0 +1,33 @@
+import { COMMAND_LINES } from '../lib/phrases';
+import { formatHelp } from '../lib/commands';
+import { ACCOUNT_COMMANDS } from './accounts';
+import { CHAMBER_COMMANDS } from './chambers';
+import { CONFIG_COMMANDS } from './config';
+import type { Command } from './context';
+import { FACILITY_COMMANDS } from './facility';
+import { FILE_COMMANDS } from './files';
+import { GENERAL_COMMANDS } from './general';
+import { KNOWLEDGE_COMMANDS } from './knowledge';
+import { PERSONA_COMMANDS } from './personas';
+
+export type { Command, CommandContext } from './context';
+export { reportOutcome } from './chambers';
+
+// Every typed command, with what it needs to run; HELP is generated from this list
+export const TERMINAL_COMMANDS: Command[] = [
+  {
+    name: 'HELP',
+    clearance: 'visitor',
+    description: 'Display this help menu.',
+    mood: 'LEARNING',
+    handler: (_args, context) => ({ content: formatHelp(TERMINAL_COMMANDS, context.clearance), spoken: COMMAND_LINES.HELP }),
+  },
+  ...CHAMBER_COMMANDS,
+  ...GENERAL_COMMANDS,
+  ...PERSONA_COMMANDS,
+  ...CONFIG_COMMANDS,
+  ...KNOWLEDGE_COMMANDS,
+  ...FILE_COMMANDS,
+  ...ACCOUNT_COMMANDS,
+  ...FACILITY_COMMANDS,
+];
@@ -0,0 +1,49 @@
+import { knowledge } from '../services/knowledgeClient';
+import { COMMAND_LINES } from '../lib/phrases';
+import { formatBytes } from '../lib/attachments';
+import type { CommandResult } from '../lib/commands';
+import type { Command, CommandContext } from './context';
+
+// KB LIST | ADD | DELETE <name> | REINDEX
+async function runKnowledgeCommand(context: CommandContext, subcommand: string, rest: string): Promise<CommandResult> {
+  switch (subcommand.toUpperCase()) {
+    case '':
+    case 'LIST': {
+      const documents = await knowledge.list();
+      const rows = documents.map(d =>
+        `- **${d.name}** · ${formatBytes(d.bytes)} · ${d.chunks} chunks · ${d.embeddedChunks}/${d.chunks} embedded${d.clearance ? ` [${d.clearance}]` : ''}${d.builtIn ? ' [built-in]' : ''}`
+      );
+      return {
+        content: `# KNOWLEDGE ARCHIVE\n\n${rows.length ? rows.join('\n') : 'No documents.'}\n\n*Usage: KB ADD | DELETE <name> | REINDEX*`,
+        spoken: COMMAND_LINES.KB_LIST,
+      };
+    }
+    case 'ADD':
+      context.pickKnowledgeFiles();
+      return { content: '# KNOWLEDGE BASE\n\nSelect Markdown or text files to index.', spoken: COMMAND_LINES.KB_ADD_WAITING };
+    case 'DELETE': {
+      const documents = await knowledge.list();
+      const document = documents.find(d => d.name.toLowerCase() === rest.trim().toLowerCase());
+      if (!document) return { content: `# ERROR\n\nUnknown document: ${rest || '(none)'}`, spoken: COMMAND_LINES.KB_UNKNOWN };
+      await knowledge.delete(document.id);
+      return { content: `# DOCUMENT DELETED\n\n**${document.name}** has been shredded.`, spoken: COMMAND_LINES.KB_DELETED };
+    }
+    case 'REINDEX': {
+      const embedded = await knowledge.reindex();
+      return { content: `# KNOWLEDGE BASE RE-INDEXED\n\n${embedded} chunks embedded. Anything still missing a vector is found by keyword search.`, spoken: COMMAND_LINES.KB_REINDEXED };
+    }
+    default:
+      return { content: `# ERROR\n\nUnknown KB command: ${subcommand}`, spoken: COMMAND_LINES.KB_COMMAND_UNKNOWN };
+  }
+}
+
+export const KNOWLEDGE_COMMANDS: Command[] = [
+  {
+    name: 'KB',
+    args: [{ name: 'subcommand', complete: () => ['LIST', 'ADD', 'DELETE', 'REINDEX'] }, { name: 'args', rest: true }],
+    clearance: 'visitor',
+    description: 'Manage the knowledge base answers are grounded in (LIST, ADD, DELETE, REINDEX).',
+    failureLine: COMMAND_LINES.KB_FAILED,
+    handler: ({ subcommand, args }, context) => runKnowledgeCommand(context, subcommand, args),
+  },
+];
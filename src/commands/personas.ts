@@ -0,0 +1,79 @@
+import { glados } from '../services/gladosClient';
+import { personas } from '../services/personaClient';
+import { COMMAND_LINES } from '../lib/phrases';
+import { DEFAULT_PERSONA, findPersona, parsePersonaArgs } from '../lib/personas';
+import type { CommandResult } from '../lib/commands';
+import type { Command, CommandContext } from './context';
+
+// PERSONA LIST | USE <name> | SAVE <name> key=value... | DELETE <name> | EXPORT | IMPORT [json]
+async function runPersonaCommand(context: CommandContext, subcommand: string, rest: string): Promise<CommandResult> {
+  const { personaList, activePersona } = context;
+  switch (subcommand.toUpperCase()) {
+    case '':
+    case 'LIST': {
+      const rows = personaList.map(p =>
+        `- **${p.name}**${p.id === activePersona.id ? ' *(active)*' : ''}${p.builtIn ? ' [built-in]' : ''} · voice ${p.voice}`
+      );
+      return { content: `# PERSONA REGISTRY\n\n${rows.join('\n')}\n\n*Usage: PERSONA USE | SAVE | DELETE | EXPORT | IMPORT*`, spoken: COMMAND_LINES.PERSONA_LIST };
+    }
+    case 'USE': {
+      const persona = findPersona(personaList, rest);
+      if (!persona) return { content: `# ERROR\n\nUnknown persona: ${rest || '(none)'}`, spoken: COMMAND_LINES.PERSONA_UNKNOWN };
+      context.usePersona(persona.id);
+      return {
+        content: `# PERSONALITY UPDATED\n\nNow operating as **${persona.name}**.\n\n${persona.greeting}`,
+        // Greet in the new persona's own voice
+        speak: async signal => {
+          const audio = await glados.generateAudio(persona.greeting, persona.ttsStyle || undefined, signal, context.personaVoice(persona));
+          if (audio) context.playAudio(audio);
+          else if (!signal.aborted) context.playFallbackAudio(persona.greeting);
+        },
+      };
+    }
+    case 'SAVE': {
+      const { name, fields, error } = parsePersonaArgs(rest);
+      if (error) return { content: `# ERROR\n\n${error}\n\n*Usage: PERSONA SAVE <name> prompt="..." style="..." voice=Kore color="r, g, b" greeting="..."*`, spoken: COMMAND_LINES.PERSONA_INVALID };
+      const base = findPersona(personaList, name) || DEFAULT_PERSONA;
+      const { id, builtIn, ...inherited } = base;
+      const saved = await personas.save({ ...inherited, ...fields, name });
+      await context.refreshPersonas();
+      return { content: `# PERSONA SAVED\n\n**${saved.name}** · voice ${saved.voice} · color ${saved.color}\n\nActivate with \`PERSONA USE ${saved.name}\`.`, spoken: COMMAND_LINES.PERSONA_SAVED };
+    }
+    case 'DELETE': {
+      const persona = findPersona(personaList, rest);
+      if (!persona) return { content: `# ERROR\n\nUnknown persona: ${rest || '(none)'}`, spoken: COMMAND_LINES.PERSONA_UNKNOWN };
+      await personas.delete(persona.id);
+      if (persona.id === activePersona.id) context.usePersona(DEFAULT_PERSONA.id);
+      await context.refreshPersonas();
+      return { content: `# PERSONA DELETED\n\n**${persona.name}** has been... retired.`, spoken: COMMAND_LINES.PERSONA_DELETED };
+    }
+    case 'EXPORT': {
+      const data = await personas.export();
+      context.downloadJson('personas.json', data);
+      return { content: `# PERSONAS EXPORTED\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``, spoken: COMMAND_LINES.PERSONAS_EXPORTED };
+    }
+    case 'IMPORT': {
+      if (!rest.trim()) {
+        context.pickPersonaFile();
+        return { content: '# PERSONA IMPORT\n\nSelect a JSON file exported with `PERSONA EXPORT`.', spoken: COMMAND_LINES.PERSONA_IMPORT_WAITING };
+      }
+      const parsed = JSON.parse(rest);
+      const imported = await personas.import(Array.isArray(parsed) ? parsed : parsed.personas);
+      await context.refreshPersonas();
+      return { content: `# PERSONAS IMPORTED\n\n${imported.map(p => `- **${p.name}**`).join('\n')}`, spoken: COMMAND_LINES.PERSONAS_IMPORTED };
+    }
+    default:
+      return { content: `# ERROR\n\nUnknown PERSONA command: ${subcommand}`, spoken: COMMAND_LINES.PERSONA_COMMAND_UNKNOWN };
+  }
+}
+
+export const PERSONA_COMMANDS: Command[] = [
+  {
+    name: 'PERSONA',
+    args: [{ name: 'subcommand', complete: () => ['LIST', 'USE', 'SAVE', 'DELETE', 'EXPORT', 'IMPORT'] }, { name: 'args', rest: true }],
+    clearance: 'visitor',
+    description: 'Manage personality profiles (LIST, USE, SAVE, DELETE, EXPORT, IMPORT).',
+    failureLine: COMMAND_LINES.PERSONA_FAILED,
+    handler: ({ subcommand, args }, context) => runPersonaCommand(context, subcommand, args),
+  },
+];
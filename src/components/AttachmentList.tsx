@@ -0,0 +1,46 @@
+import React from 'react';
+import { FileText, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { attachmentUrl, formatBytes, isImage } from '../lib/attachments';
+import type { Attachment } from '../types';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  onRemove?: (id: string) => void; // Shown while the attachments are still pending
+  className?: string;
+}
+
+export const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove, className }) => (
+  <div className={cn("flex flex-wrap gap-2", className)}>
+    {attachments.map((attachment) => {
+      const url = attachmentUrl(attachment);
+      return (
+        <div
+          key={attachment.id}
+          className="relative group flex items-center gap-2 rounded-lg border border-white/10 bg-black/40 text-[10px] text-white/70 overflow-hidden"
+          title={`${attachment.name} (${formatBytes(attachment.size)})`}
+        >
+          {isImage(attachment) && url ? (
+            <img src={url} alt={attachment.name} className="h-16 w-16 object-cover" />
+          ) : (
+            <div className="flex items-center gap-2 px-2 py-1.5 max-w-[180px]">
+              <FileText className="w-3 h-3 shrink-0 text-white/40" />
+              <span className="truncate">{attachment.name}</span>
+              <span className="shrink-0 text-white/30">{formatBytes(attachment.size)}</span>
+            </div>
+          )}
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(attachment.id)}
+              className="absolute top-0.5 right-0.5 p-0.5 rounded bg-black/70 text-white/60 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Remove Attachment"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
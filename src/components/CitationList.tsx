@@ -0,0 +1,27 @@
+import React from 'react';
+import { BookOpen } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { Citation } from '../types';
+
+interface CitationListProps {
+  citations: Citation[];
+  className?: string;
+}
+
+// Knowledge base sources under a reply, numbered like the reply's [n] markers
+export const CitationList: React.FC<CitationListProps> = ({ citations, className }) => (
+  <div className={cn("flex flex-wrap items-center gap-2 border-t border-white/10 pt-2 text-[10px]", className)}>
+    <span className="uppercase tracking-widest font-bold text-white/40">Sources</span>
+    {citations.map((citation) => (
+      <div
+        key={citation.index}
+        className="flex items-center gap-1.5 rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-white/70 max-w-[220px]"
+        title={citation.excerpt}
+      >
+        <span className="shrink-0 text-white/40">[{citation.index}]</span>
+        <BookOpen className="w-3 h-3 shrink-0 text-white/40" />
+        <span className="truncate">{citation.name}</span>
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,106 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { AlertTriangle, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { budgetStatus, formatDuration, formatTokens, lastMetrics, sessionMetrics } from '../lib/metrics';
+import type { ExchangeMetrics, Message, UsageReport } from '../types';
+
+interface DiagnosticsPanelProps {
+  messages: Message[];
+  report?: UsageReport;
+  isSecretMode?: boolean;
+  onClose: () => void;
+}
+
+const Row: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex items-center justify-between gap-4 py-1 border-b border-white/5 last:border-0">
+    <span className="text-white/40">{label}</span>
+    <span className="text-white/80 tabular-nums">{value}</span>
+  </div>
+);
+
+const MetricsRows: React.FC<{ metrics: ExchangeMetrics }> = ({ metrics }) => (
+  <>
+    <Row label="Prompt tokens" value={formatTokens(metrics.promptTokens)} />
+    <Row label="Response tokens" value={formatTokens(metrics.responseTokens)} />
+    <Row label="Model calls" value={String(metrics.requests)} />
+    <Row label="Total time" value={formatDuration(metrics.totalTime)} />
+    <Row label="Speech requests" value={String(metrics.ttsRequests)} />
+    <Row label="Avg. speech latency" value={formatDuration(metrics.ttsRequests ? metrics.ttsLatency / metrics.ttsRequests : undefined)} />
+    <Row label="Retries" value={String(metrics.retries)} />
+  </>
+);
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ messages, report, isSecretMode = false, onClose }) => {
+  const last = lastMetrics(messages);
+  const session = sessionMetrics(messages);
+  const budget = budgetStatus(report);
+  const accent = isSecretMode ? 'text-red-600' : 'text-aperture-orange';
+
+  return (
+    <motion.aside
+      initial={{ x: 320, opacity: 0 }}
+      animate={{ x: 0, opacity: 1 }}
+      exit={{ x: 320, opacity: 0 }}
+      transition={{ type: 'tween', duration: 0.2 }}
+      className="fixed top-0 right-0 bottom-0 w-72 z-40 bg-black/90 backdrop-blur-md border-l border-white/10 flex flex-col font-mono"
+    >
+      <div className="p-4 border-b border-white/10 flex items-center justify-between">
+        <span className={cn("text-[10px] uppercase tracking-widest font-bold", accent)}>Diagnostics</span>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-white/5 text-white/40 hover:text-white transition-colors"
+          title="Close Diagnostics"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6 text-[10px] uppercase tracking-wider scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+        <section>
+          <h2 className={cn("mb-2 font-bold", accent)}>Today</h2>
+          {report ? (
+            <>
+              <Row label="Tokens" value={budget.budget ? `${formatTokens(budget.used)} / ${formatTokens(budget.budget)}` : formatTokens(budget.used)} />
+              <Row label="Model calls" value={String(report.today.requests)} />
+              {budget.fraction !== undefined && (
+                <div className="mt-2 h-1 rounded-full bg-white/10 overflow-hidden">
+                  <div
+                    className={cn("h-full", budget.level === 'ok' ? "bg-emerald-500" : budget.level === 'warning' ? "bg-amber-500" : "bg-red-600")}
+                    style={{ width: `${Math.min(budget.fraction, 1) * 100}%` }}
+                  />
+                </div>
+              )}
+              {budget.level !== 'ok' && (
+                <div className={cn("mt-2 flex items-center gap-2", budget.level === 'warning' ? "text-amber-500" : "text-red-600")}>
+                  <AlertTriangle className="w-3 h-3 shrink-0" />
+                  {budget.level === 'warning' ? 'Daily budget nearly exhausted' : 'Daily budget exceeded'}
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-white/30">Usage data unavailable</div>
+          )}
+        </section>
+
+        <section>
+          <h2 className={cn("mb-2 font-bold", accent)}>Last Exchange</h2>
+          {last ? (
+            <>
+              <Row label="Time to first token" value={formatDuration(last.timeToFirstToken)} />
+              <MetricsRows metrics={last} />
+            </>
+          ) : (
+            <div className="text-white/30">No measured exchanges yet</div>
+          )}
+        </section>
+
+        <section>
+          <h2 className={cn("mb-2 font-bold", accent)}>Session · {session.exchanges} exchanges</h2>
+          <Row label="Avg. time to first token" value={formatDuration(session.averageFirstToken)} />
+          <MetricsRows metrics={session.totals} />
+        </section>
+      </div>
+    </motion.aside>
+  );
+};
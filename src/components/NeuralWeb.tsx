@@ -1,4 +1,5 @@
 import React, { useEffect, useRef } from 'react';
+import type { Mood } from '../lib/mood';
 
 interface Particle {
   x: number;
@@ -14,7 +15,7 @@ interface NeuralWebProps {
   isSpeaking: boolean;
   audioVolume?: number; // 0 to 1
   color?: string;
-  mood?: 'NORMAL' | 'LEARNING' | 'ANGRY' | 'ROMANTIC';
+  mood?: Mood;
   moodIntensity?: number;
 }
 
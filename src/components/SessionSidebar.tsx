@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { Check, MessageSquare, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { SessionSummary } from '../types';
+
+interface SessionSidebarProps {
+  sessions: SessionSummary[];
+  activeId: string | null;
+  isSecretMode?: boolean;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export const SessionSidebar: React.FC<SessionSidebarProps> = ({
+  sessions,
+  activeId,
+  isSecretMode = false,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onClose,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  const accent = isSecretMode ? 'text-red-600' : 'text-aperture-orange';
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) onRename(editingId, draftTitle.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <motion.aside
+      initial={{ x: -320, opacity: 0 }}
+      animate={{ x: 0, opacity: 1 }}
+      exit={{ x: -320, opacity: 0 }}
+      transition={{ type: 'tween', duration: 0.2 }}
+      className="fixed top-0 left-0 bottom-0 w-72 z-40 bg-black/90 backdrop-blur-md border-r border-white/10 flex flex-col font-mono"
+    >
+      <div className="p-4 border-b border-white/10 flex items-center justify-between">
+        <span className={cn("text-[10px] uppercase tracking-widest font-bold", accent)}>Session Archive</span>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-white/5 text-white/40 hover:text-white transition-colors"
+          title="Close Archive"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <button
+        onClick={onCreate}
+        className="m-3 p-2 rounded-lg border border-white/10 hover:border-white/30 text-[10px] uppercase tracking-widest text-white/60 hover:text-white flex items-center justify-center gap-2 transition-colors"
+      >
+        <Plus className="w-3 h-3" />
+        New Session
+      </button>
+
+      <div className="flex-1 overflow-y-auto px-3 pb-3 space-y-1 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            onClick={() => editingId !== session.id && onSelect(session.id)}
+            className={cn(
+              "group p-2 rounded-lg cursor-pointer border transition-colors",
+              session.id === activeId
+                ? (isSecretMode ? "border-red-600/40 bg-red-950/20" : "border-aperture-orange/40 bg-aperture-orange/5")
+                : "border-transparent hover:bg-white/5"
+            )}
+          >
+            {editingId === session.id ? (
+              <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-white/5 border border-white/20 rounded px-2 py-1 text-xs text-white focus:outline-none"
+                />
+                <button onClick={commitRename} className="p-1 text-white/60 hover:text-white" title="Save Title">
+                  <Check className="w-3 h-3" />
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-start gap-2">
+                <MessageSquare className={cn("w-3 h-3 mt-0.5 shrink-0", session.id === activeId ? accent : "text-white/30")} />
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs text-white/80 truncate">{session.title}</div>
+                  <div className="text-[9px] text-white/30 uppercase tracking-wider mt-0.5">
+                    {new Date(session.updatedAt).toLocaleString()} · {session.messageCount} msg
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setDraftTitle(session.title);
+                      setEditingId(session.id);
+                    }}
+                    className="p-1 text-white/40 hover:text-white"
+                    title="Rename Session"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      // First click arms, second click deletes
+                      if (pendingDeleteId === session.id) {
+                        setPendingDeleteId(null);
+                        onDelete(session.id);
+                      } else {
+                        setPendingDeleteId(session.id);
+                      }
+                    }}
+                    onMouseLeave={() => setPendingDeleteId(null)}
+                    className={cn("p-1 hover:text-red-500", pendingDeleteId === session.id ? "text-red-500" : "text-white/40")}
+                    title={pendingDeleteId === session.id ? "Click Again to Delete" : "Delete Session"}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {sessions.length === 0 && (
+          <div className="text-[10px] text-white/30 uppercase tracking-widest text-center py-8">
+            No archived sessions
+          </div>
+        )}
+      </div>
+    </motion.aside>
+  );
+};
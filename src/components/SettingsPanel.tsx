@@ -0,0 +1,129 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { AlertTriangle, RefreshCw, RotateCcw, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { CONFIG_FIELDS, CONFIG_KEYS, type ConfigKey } from '../lib/config';
+import { PREBUILT_VOICES } from '../lib/personas';
+import type { AvailableModels } from '../services/providers';
+import type { ConfigReport } from '../types';
+
+interface SettingsPanelProps {
+  report?: ConfigReport;
+  models?: AvailableModels;
+  error?: string; // Last rejected change or failed model listing
+  isSecretMode?: boolean;
+  onChange: (key: ConfigKey, value: unknown) => void; // null resets to the default
+  onRefreshModels: () => void;
+  onClose: () => void;
+}
+
+// The current value is always listed, even if the provider didn't report it
+function options(values: string[], current: string): string[] {
+  return current && !values.includes(current) ? [current, ...values] : values;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ report, models, error, isSecretMode = false, onChange, onRefreshModels, onClose }) => {
+  const accent = isSecretMode ? 'text-red-600' : 'text-aperture-orange';
+  const inputClass = "w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-white/80 normal-case tracking-normal focus:outline-none focus:border-white/30";
+
+  const control = (key: ConfigKey) => {
+    const field = CONFIG_FIELDS[key];
+    const value = report!.config[key];
+    switch (field.kind) {
+      case 'number':
+        return (
+          <div className="flex items-center gap-2">
+            <input
+              type="range"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={value as number}
+              onChange={(e) => onChange(key, Number(e.target.value))}
+              className="flex-1 accent-current"
+            />
+            <span className="w-12 text-right text-white/80 tabular-nums">{value}</span>
+          </div>
+        );
+      case 'voice':
+        return (
+          <select value={value as string} onChange={(e) => onChange(key, e.target.value)} className={inputClass}>
+            {PREBUILT_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+          </select>
+        );
+      default: {
+        const available = field.kind === 'text-model' ? models?.text : models?.speech;
+        return (
+          <select value={value as string} onChange={(e) => onChange(key, e.target.value)} className={inputClass}>
+            {field.kind === 'speech-model' && <option value="">(off)</option>}
+            {options(available ?? [], value as string).map(model => <option key={model} value={model}>{model}</option>)}
+          </select>
+        );
+      }
+    }
+  };
+
+  return (
+    <motion.aside
+      initial={{ x: 320, opacity: 0 }}
+      animate={{ x: 0, opacity: 1 }}
+      exit={{ x: 320, opacity: 0 }}
+      transition={{ type: 'tween', duration: 0.2 }}
+      className="fixed top-0 right-0 bottom-0 w-72 z-40 bg-black/90 backdrop-blur-md border-l border-white/10 flex flex-col font-mono"
+    >
+      <div className="p-4 border-b border-white/10 flex items-center justify-between">
+        <span className={cn("text-[10px] uppercase tracking-widest font-bold", accent)}>Settings</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onRefreshModels}
+            className="p-1 rounded hover:bg-white/5 text-white/40 hover:text-white transition-colors"
+            title="Refresh Model List"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-white/5 text-white/40 hover:text-white transition-colors"
+            title="Close Settings"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 text-[10px] uppercase tracking-wider scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+        {report ? (
+          <>
+            <div className="text-white/30">Provider: {report.provider}</div>
+            {CONFIG_KEYS.map(key => (
+              <label key={key} className="block space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-white/40">{CONFIG_FIELDS[key].label}</span>
+                  {report.config[key] !== report.defaults[key] && (
+                    <button
+                      type="button"
+                      onClick={() => onChange(key, null)}
+                      className="p-0.5 rounded text-white/30 hover:text-white transition-colors"
+                      title={`Reset to ${report.defaults[key] === '' ? '(off)' : report.defaults[key]}`}
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+                {control(key)}
+              </label>
+            ))}
+          </>
+        ) : (
+          <div className="text-white/30">Settings unavailable</div>
+        )}
+        {error && (
+          <div className="flex items-start gap-2 text-amber-500 normal-case tracking-normal">
+            <AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" />
+            {error}
+          </div>
+        )}
+      </div>
+    </motion.aside>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+import { commonPrefix, inlineSuggestion, searchHistory } from '../lib/shell';
+
+// The input grows with multiline prompts up to this height, then scrolls
+const MAX_INPUT_HEIGHT = 160;
+
+interface TerminalInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  history: string[];                    // Submitted lines, oldest first
+  complete: (line: string) => string[]; // Full-line tab completion candidates
+  onPaste?: (e: React.ClipboardEvent<HTMLTextAreaElement>) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  masked?: boolean; // Password entry: a single hidden line, without history or completion
+  isSecretMode?: boolean;
+}
+
+interface SearchState {
+  query: string;
+  match: number;    // Index into history, -1 when nothing matches; the input keeps showing the last match
+  original: string; // Restored if the search is cancelled
+}
+
+/**
+ * Shell-style prompt: Enter submits and Shift+Enter adds a line, Up/Down
+ * walk the history, Ctrl+R searches it, Tab completes and Right accepts
+ * the ghost-text suggestion. While `masked` it is a plain password field.
+ */
+export const TerminalInput: React.FC<TerminalInputProps> = ({
+  value,
+  onChange,
+  onSubmit,
+  history,
+  complete,
+  onPaste,
+  placeholder,
+  disabled = false,
+  masked = false,
+  isSecretMode = false,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Where Up/Down is in the history; null while editing a new line, which is kept in draftRef
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const draftRef = useRef('');
+  const [search, setSearch] = useState<SearchState | null>(null);
+  const [options, setOptions] = useState<string[]>([]);
+
+  const accent = isSecretMode ? 'text-red-600' : 'text-aperture-orange';
+  const suggestion = !search && !disabled && !masked ? inlineSuggestion(value, history, complete(value)) : undefined;
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${Math.min(textarea.scrollHeight, MAX_INPUT_HEIGHT)}px`;
+  }, [value]);
+
+  // Replaces the line and puts the caret at its end
+  const replace = (line: string) => {
+    onChange(line);
+    setOptions([]);
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      textarea?.setSelectionRange(line.length, line.length);
+    });
+  };
+
+  const recall = (index: number | null) => {
+    if (historyIndex === null) draftRef.current = value;
+    setHistoryIndex(index);
+    replace(index === null ? draftRef.current : history[index]);
+  };
+
+  const completeInput = () => {
+    const candidates = complete(value);
+    if (candidates.length === 0) {
+      if (suggestion) replace(suggestion);
+      return;
+    }
+    const prefix = candidates.length === 1 ? candidates[0] : commonPrefix(candidates);
+    if (prefix.length > value.length) replace(prefix);
+    else setOptions(candidates);
+  };
+
+  const closeSearch = (line: string) => {
+    setSearch(null);
+    replace(line);
+    textareaRef.current?.focus();
+  };
+
+  const updateSearch = (query: string, before = history.length) => {
+    const match = query ? searchHistory(history, query, before) : -1;
+    setSearch(prev => prev && { ...prev, query, match });
+    if (match >= 0) onChange(history[match]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+    const caretAtEnd = textarea.selectionStart === value.length && textarea.selectionEnd === value.length;
+
+    if (e.ctrlKey && e.key.toLowerCase() === 'r') {
+      e.preventDefault();
+      setOptions([]);
+      setSearch({ query: '', match: -1, original: value });
+      return;
+    }
+
+    switch (e.key) {
+      case 'Enter':
+        if (e.shiftKey || e.nativeEvent.isComposing) return;
+        e.preventDefault();
+        setHistoryIndex(null);
+        setOptions([]);
+        onSubmit();
+        return;
+      case 'Tab':
+        if (e.shiftKey || !value.trim()) return;
+        e.preventDefault();
+        completeInput();
+        return;
+      case 'ArrowUp': {
+        // Only from the first line, so the caret can still move through a multiline prompt
+        if (value.lastIndexOf('\n', textarea.selectionStart - 1) !== -1) return;
+        const index = (historyIndex ?? history.length) - 1;
+        if (index < 0) return;
+        e.preventDefault();
+        recall(index);
+        return;
+      }
+      case 'ArrowDown': {
+        if (historyIndex === null || value.indexOf('\n', textarea.selectionEnd) !== -1) return;
+        e.preventDefault();
+        recall(historyIndex + 1 < history.length ? historyIndex + 1 : null);
+        return;
+      }
+      case 'ArrowRight':
+        if (!suggestion || !caretAtEnd) return;
+        e.preventDefault();
+        replace(suggestion);
+        return;
+      case 'Escape':
+        setOptions([]);
+        return;
+    }
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!search) return;
+    if (e.ctrlKey && e.key.toLowerCase() === 'r') {
+      // Next older match
+      e.preventDefault();
+      if (search.query) updateSearch(search.query, search.match >= 0 ? search.match : history.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      setSearch(null);
+      setHistoryIndex(null);
+      textareaRef.current?.focus();
+      onSubmit();
+    } else if (e.key === 'Escape' || (e.ctrlKey && e.key.toLowerCase() === 'g')) {
+      e.preventDefault();
+      closeSearch(search.original);
+    } else if (e.key === 'Tab' || e.key === 'ArrowRight' || e.key === 'ArrowLeft') {
+      // Keep the line shown, which is the last match, for editing
+      e.preventDefault();
+      closeSearch(value);
+    }
+  };
+
+  if (masked) {
+    return (
+      <div className="relative flex-1 min-w-0">
+        <input
+          type="password"
+          autoFocus
+          autoComplete="off"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key !== 'Enter') return;
+            e.preventDefault();
+            onSubmit();
+          }}
+          placeholder={placeholder}
+          disabled={disabled}
+          className="block w-full bg-transparent border-none focus:ring-0 focus:outline-none text-sm py-2 px-4 placeholder:text-white/20"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative flex-1 min-w-0">
+      {search && (
+        <div className="absolute bottom-full left-0 right-0 mb-3 flex items-center gap-2 px-4 py-1 bg-black/80 border border-white/10 rounded-lg text-[10px] uppercase tracking-wider">
+          <span className={accent}>{search.match >= 0 || !search.query ? 'reverse-i-search' : 'failing reverse-i-search'}</span>
+          <input
+            autoFocus
+            value={search.query}
+            onChange={(e) => updateSearch(e.target.value, search.match >= 0 ? search.match + 1 : history.length)}
+            onKeyDown={handleSearchKeyDown}
+            onBlur={() => setSearch(null)}
+            className="flex-1 bg-transparent border-none focus:outline-none text-white/80 normal-case tracking-normal"
+          />
+          <span className="text-white/30">Enter run · Tab edit · Esc cancel</span>
+        </div>
+      )}
+      {options.length > 0 && !search && (
+        <div className="absolute bottom-full left-0 right-0 mb-3 flex flex-wrap gap-x-4 gap-y-1 px-4 py-1 bg-black/80 border border-white/10 rounded-lg text-[10px] text-white/60">
+          {options.map(option => <span key={option}>{option.trim().split(/\s+/).pop()}</span>)}
+        </div>
+      )}
+
+      {suggestion && (
+        <div aria-hidden className="absolute inset-0 text-sm py-2 px-4 whitespace-pre-wrap break-words pointer-events-none overflow-hidden">
+          <span className="invisible">{value}</span>
+          <span className="text-white/20">{suggestion.slice(value.length)}</span>
+        </div>
+      )}
+      <textarea
+        ref={textareaRef}
+        rows={1}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHistoryIndex(null);
+          setOptions([]);
+        }}
+        onKeyDown={handleKeyDown}
+        onPaste={onPaste}
+        placeholder={placeholder}
+        disabled={disabled}
+        spellCheck={false}
+        className={cn(
+          "relative block w-full resize-none bg-transparent border-none focus:ring-0 focus:outline-none text-sm py-2 px-4 placeholder:text-white/20",
+          "scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent"
+        )}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import type { Attachment } from '../types';
+
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_BYTES = 8 * 1024 * 1024;
+export const MAX_TOTAL_ATTACHMENT_BYTES = 12 * 1024 * 1024;
+
+// Image formats the vision models accept as inline data
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+// Plain-text formats, matched by extension because browsers often report logs with an empty type
+const TEXT_EXTENSIONS = ['txt', 'log', 'md', 'csv', 'json', 'xml', 'yaml', 'yml', 'ini', 'conf', 'ts', 'tsx', 'js', 'py', 'sh'];
+
+export const ATTACHMENT_ACCEPT = [...IMAGE_TYPES, 'application/pdf', 'text/*', ...TEXT_EXTENSIONS.map(ext => `.${ext}`)].join(',');
+
+/**
+ * The MIME type an uploaded file is sent as, or undefined when the model
+ * can't read it. Text files all become text/plain.
+ */
+export function attachmentMimeType(file: { name: string; type: string }): string | undefined {
+  if (IMAGE_TYPES.includes(file.type)) return file.type;
+  if (file.type === 'application/pdf') return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (file.type.startsWith('text/') || TEXT_EXTENSIONS.includes(extension)) return 'text/plain';
+  return undefined;
+}
+
+export function isImage(attachment: Attachment): boolean {
+  return attachment.mimeType.startsWith('image/');
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Returns why `file` can't be added next to the already pending attachments
+export function checkAttachment(file: { name: string; type: string; size: number }, pending: Attachment[]): string | undefined {
+  if (!attachmentMimeType(file)) return `${file.name}: unsupported file type. Images, PDFs and text files only.`;
+  if (file.size === 0) return `${file.name}: file is empty.`;
+  if (file.size > MAX_ATTACHMENT_BYTES) return `${file.name}: exceeds the ${formatBytes(MAX_ATTACHMENT_BYTES)} limit.`;
+  if (pending.length >= MAX_ATTACHMENTS) return `${file.name}: no more than ${MAX_ATTACHMENTS} attachments per message.`;
+  const total = pending.reduce((sum, a) => sum + a.size, 0) + file.size;
+  if (total > MAX_TOTAL_ATTACHMENT_BYTES) return `${file.name}: attachments would exceed ${formatBytes(MAX_TOTAL_ATTACHMENT_BYTES)} in total.`;
+  return undefined;
+}
+
+export function readAttachment(file: File): Promise<Attachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve({
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name: file.name || 'pasted-image.png',
+        mimeType: attachmentMimeType(file)!,
+        size: file.size,
+        data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+      });
+    };
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+export function attachmentUrl(attachment: Attachment): string | undefined {
+  return attachment.data ? `data:${attachment.mimeType};base64,${attachment.data}` : undefined;
+}
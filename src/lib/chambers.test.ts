@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { abandonChamber, ChamberError, checkAnswer, emptyProgress, findChamber, isUnlocked, normalizeAnswer, recordAnswer, startChamber, takeHint, type Chamber, type ChamberStep } from './chambers';
+
+const NOW = 1_000_000;
+
+// Chamber 00: an untimed riddle, a 20 second choice and an untimed puzzle, 100 points each, three strikes
+const orientation = findChamber('00', 'visitor')!;
+// Chamber 01: two strikes, opens once 00 is passed
+const survive = findChamber('01', 'subject')!;
+
+function started(chamber: Chamber = orientation) {
+  return startChamber(emptyProgress(), chamber, NOW);
+}
+
+describe('normalizeAnswer', () => {
+  it('ignores case, punctuation, spacing and a leading article', () => {
+    expect(normalizeAnswer('  The   Cake! ')).toBe('cake');
+    expect(normalizeAnswer('a b')).toBe('a b');
+  });
+});
+
+describe('checkAnswer', () => {
+  const choice: ChamberStep = { kind: 'choice', prompt: 'Pick one', options: ['Red', 'Blue'] };
+
+  it('accepts an option by letter or by text', () => {
+    expect(checkAnswer(choice, { answers: ['B'] }, 'b')).toBe(true);
+    expect(checkAnswer(choice, { answers: ['B'] }, 'blue')).toBe(true);
+    expect(checkAnswer(choice, { answers: ['B'] }, 'A')).toBe(false);
+  });
+
+  it('leaves answers outside the list to the model when there is a rubric', () => {
+    const riddle: ChamberStep = { kind: 'riddle', prompt: 'What is a lie?' };
+    expect(checkAnswer(riddle, { answers: ['cake'], rubric: 'Cake' }, 'The cake.')).toBe(true);
+    expect(checkAnswer(riddle, { answers: ['cake'], rubric: 'Cake' }, 'pie')).toBeUndefined();
+    expect(checkAnswer(riddle, { answers: ['cake'] }, 'pie')).toBe(false);
+  });
+});
+
+describe('startChamber', () => {
+  it('counts an attempt and starts at the first step', () => {
+    const progress = started();
+    expect(progress.run).toEqual({ chamberId: '00', step: 0, score: 0, strikes: 0, stepStartedAt: NOW });
+    expect(progress.chambers['00'].attempts).toBe(1);
+  });
+
+  it('resumes the chamber in progress and refuses another', () => {
+    const progress = started();
+    expect(startChamber(progress, orientation, NOW + 5)).toBe(progress);
+    expect(() => startChamber(progress, survive, NOW)).toThrow(ChamberError);
+  });
+
+  it('keeps a chamber locked until the one before it is passed', () => {
+    expect(isUnlocked(emptyProgress(), survive)).toBe(false);
+    expect(() => startChamber(emptyProgress(), survive, NOW)).toThrow(/locked/);
+  });
+});
+
+describe('recordAnswer', () => {
+  it('scores a correct answer and moves to the next step', () => {
+    const { progress, outcome } = recordAnswer(started(), true, NOW + 1000);
+    expect(outcome).toMatchObject({ verdict: 'correct', points: 100 });
+    expect(progress.run).toMatchObject({ step: 1, score: 100, stepStartedAt: NOW + 1000 });
+  });
+
+  it('adds up to half the points again for time left on a timed step', () => {
+    const onTimedStep = recordAnswer(started(), true, NOW).progress;
+    // Half of the 20 seconds left: a quarter of the points as bonus
+    const { outcome } = recordAnswer(onTimedStep, true, NOW + 10_000);
+    expect(outcome.points).toBe(125);
+  });
+
+  it('counts an answer after the deadline as a timeout, however right it was', () => {
+    const onTimedStep = recordAnswer(started(), true, NOW).progress;
+    const { progress, outcome } = recordAnswer(onTimedStep, true, NOW + 20_001);
+    expect(outcome).toMatchObject({ verdict: 'timeout', points: -25 });
+    expect(progress.run).toMatchObject({ step: 1, score: 75, strikes: 1 });
+  });
+
+  it('never takes the score below zero', () => {
+    const { outcome } = recordAnswer(started(), false, NOW);
+    expect(outcome.verdict).toBe('wrong');
+    expect(outcome.run).toMatchObject({ score: 0, strikes: 1 });
+  });
+
+  it('halves the points after a hint', () => {
+    const { progress } = takeHint(started());
+    expect(recordAnswer(progress, true, NOW).outcome.points).toBe(50);
+  });
+
+  it('passes the chamber on the last step and keeps the best score', () => {
+    let progress = started();
+    for (let i = 0; i < orientation.steps.length; i++) progress = recordAnswer(progress, true, NOW).progress;
+    expect(progress.run).toBeUndefined();
+    expect(progress.chambers['00']).toMatchObject({ attempts: 1, passed: 1, failed: 0, bestScore: 350 });
+    expect(isUnlocked(progress, survive)).toBe(true);
+  });
+
+  it('fails the chamber when the strikes run out', () => {
+    const unlocked = { chambers: { '00': { attempts: 1, passed: 1, failed: 0, bestScore: 300, lastPlayedAt: NOW } } };
+    let progress = startChamber(unlocked, survive, NOW);
+    progress = recordAnswer(progress, false, NOW).progress;
+    const { progress: after, outcome } = recordAnswer(progress, false, NOW);
+    expect(outcome.finished).toBe('failed');
+    expect(after.run).toBeUndefined();
+    expect(after.chambers['01'].failed).toBe(1);
+  });
+
+  it('needs a test in progress', () => {
+    expect(() => recordAnswer(emptyProgress(), true, NOW)).toThrow(ChamberError);
+  });
+});
+
+describe('abandonChamber', () => {
+  it('counts as failing the chamber', () => {
+    const progress = abandonChamber(started(), NOW);
+    expect(progress.run).toBeUndefined();
+    expect(progress.chambers['00'].failed).toBe(1);
+  });
+});
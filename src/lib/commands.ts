@@ -0,0 +1,135 @@
+import type { Clearance } from '../types';
+import type { Mood } from './mood';
+
+export type { Clearance };
+
+// Lowest to highest; a command runs at its own level and above
+export const CLEARANCE_LEVELS: Clearance[] = ['visitor', 'subject', 'maintenance', 'admin'];
+
+// From here up the terminal turns red: restricted tools, documents and transcript lines are available
+export const RESTRICTED_CLEARANCE: Clearance = 'maintenance';
+
+// `Context` is what the handlers and completions are given to act on; the terminal passes its CommandContext
+export interface CommandArgument<Context = any> {
+  name: string;
+  required?: boolean;
+  rest?: boolean; // Takes the rest of the line verbatim, spaces and quotes included
+  description?: string; // What the model is told it is, when the command is a tool
+  complete?: (typed: string, context: Context) => string[]; // Values offered by tab completion for what's typed so far
+}
+
+// How a command is offered to the model through function calling
+export interface CommandTool {
+  description?: string; // For the model; defaults to the command's
+  confirm?: boolean;    // Destructive: the User must authorize it first
+}
+
+export interface CommandResult {
+  content: string;                                 // Markdown printed to the terminal
+  spoken?: string;                                 // Line read aloud afterwards
+  speak?: (signal: AbortSignal) => Promise<void>;  // Custom playback in place of `spoken`
+  isSecret?: boolean;                              // Defaults to whether the clearance is restricted
+  replace?: boolean;                               // Replaces the transcript instead of appending to it
+  output?: string;                                 // Plain text piped to the next command; defaults to `content`
+}
+
+export interface TerminalCommand<Context = any> {
+  name: string;
+  aliases?: string[];
+  args?: CommandArgument<Context>[];
+  clearance: Clearance;
+  description: string;
+  hidden?: boolean;               // Works, but HELP doesn't list it
+  mood?: Exclude<Mood, 'NORMAL'>; // Reaction shown when the command runs
+  failureLine?: string;           // Spoken when the handler throws
+  endsChain?: boolean;            // Its rest argument runs to the end of the line, |, && and || included
+  tool?: CommandTool;             // The model may run it too
+  handler: (args: Record<string, string>, context: Context, input?: string) => CommandResult | Promise<CommandResult>; // `input` is the output piped in
+}
+
+export interface CommandInvocation {
+  command: TerminalCommand;
+  args: Record<string, string>;
+  error?: string; // The arguments didn't fit the schema; the handler isn't run
+}
+
+export function hasClearance(clearance: Clearance, required: Clearance): boolean {
+  return CLEARANCE_LEVELS.indexOf(clearance) >= CLEARANCE_LEVELS.indexOf(required);
+}
+
+// Commands above the current clearance don't exist as far as the User can tell
+export function findCommand(commands: TerminalCommand[], name: string, clearance: Clearance): TerminalCommand | undefined {
+  const upper = name.toUpperCase();
+  return commands.find(c => hasClearance(clearance, c.clearance) && (c.name === upper || !!c.aliases?.includes(upper)));
+}
+
+/**
+ * Matches a line of input against the registry. Returns undefined when it
+ * isn't a command, so it goes to the model instead; that includes a
+ * command word followed by text when the command takes no arguments
+ * ("status of the cake?"). Arguments are split on whitespace, with
+ * double quotes around values that contain spaces.
+ */
+export function parseCommand(line: string, commands: TerminalCommand[], clearance: Clearance): CommandInvocation | undefined {
+  const [, name = '', rest = ''] = line.trim().match(/^(\S*)\s*([\s\S]*)$/) || [];
+  const command = findCommand(commands, name, clearance);
+  if (!command || (rest && !command.args?.length)) return undefined;
+
+  const args: Record<string, string> = {};
+  let remaining = rest;
+  for (const arg of command.args ?? []) {
+    if (arg.rest) {
+      args[arg.name] = remaining.trim();
+      remaining = '';
+    } else {
+      const [, quoted, word, after = ''] = remaining.match(/^\s*(?:"([^"]*)"|(\S+))\s*([\s\S]*)$/) || [];
+      args[arg.name] = quoted ?? word ?? '';
+      remaining = after;
+    }
+    if (arg.required && !args[arg.name]) return { command, args, error: `Missing argument <${arg.name}>.` };
+  }
+  if (remaining.trim()) return { command, args, error: `Unexpected argument: ${remaining.trim()}` };
+  return { command, args };
+}
+
+/**
+ * Splits a rest argument into words (double quotes keep spaces) and
+ * leading options: `-rf a "b c"` gives flags r, f and operands a, "b c".
+ */
+export function splitArgs(text: string): { flags: Set<string>; operands: string[] } {
+  const flags = new Set<string>();
+  const operands: string[] = [];
+  for (const [, quoted, word] of text.matchAll(/"([^"]*)"|(\S+)/g)) {
+    if (word && /^-[a-z]+$/i.test(word) && operands.length === 0) [...word.slice(1).toLowerCase()].forEach(f => flags.add(f));
+    else operands.push(quoted ?? word);
+  }
+  return { flags, operands };
+}
+
+// Words of a rest argument without option parsing, double quotes keeping spaces
+export function splitWords(text: string): string[] {
+  return [...text.matchAll(/"([^"]*)"|(\S+)/g)].map(([, quoted, word]) => quoted ?? word);
+}
+
+export function formatUsage(command: TerminalCommand): string {
+  const args = (command.args ?? []).map(arg => {
+    const name = arg.rest ? `${arg.name}...` : arg.name;
+    return arg.required ? `<${name}>` : `[${name}]`;
+  });
+  return [command.name, ...args].join(' ');
+}
+
+// The HELP page for the current clearance, generated so it can't fall behind the registry
+export function formatHelp(commands: TerminalCommand[], clearance: Clearance): string {
+  const visible = commands.filter(c => !c.hidden && hasClearance(clearance, c.clearance));
+  const section = (level: Clearance) => visible.filter(c => c.clearance === level).map(c => {
+    const aliases = c.aliases?.length ? ` *(also ${c.aliases.join(', ')})*` : '';
+    return `- **${formatUsage(c)}**${aliases}: ${c.description}`;
+  }).join('\n');
+
+  const levels = CLEARANCE_LEVELS.slice(1)
+    .filter(level => hasClearance(clearance, level) && visible.some(c => c.clearance === level))
+    .map(level => `\n\n## ${level.toUpperCase()}\n${section(level)}`).join('');
+  const note = clearance === CLEARANCE_LEVELS[CLEARANCE_LEVELS.length - 1] ? '' : '\n\n*Note: Some commands may require higher clearance levels.*';
+  return `# APERTURE SCIENCE TERMINAL HELP\nAvailable commands for authorized personnel:\n\n${section('visitor')}${levels}${note}`;
+}
@@ -0,0 +1,81 @@
+import type { AvailableModels } from '../services/providers';
+import type { RuntimeConfig } from '../types';
+import { PREBUILT_VOICES } from './personas';
+
+export type ConfigKey = keyof RuntimeConfig;
+
+export interface ConfigField {
+  label: string;
+  kind: 'text-model' | 'speech-model' | 'voice' | 'number';
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+// Everything CONFIG and the settings drawer can change, in display order
+export const CONFIG_FIELDS: Record<ConfigKey, ConfigField> = {
+  textModel: { label: 'Text model', kind: 'text-model' },
+  speechModel: { label: 'Speech model', kind: 'speech-model' },
+  voice: { label: 'Voice', kind: 'voice' },
+  playbackRate: { label: 'Playback rate', kind: 'number', min: 0.5, max: 2, step: 0.05 },
+  detune: { label: 'Detune (cents)', kind: 'number', min: -2400, max: 2400, step: 1 },
+  fallbackPitch: { label: 'Fallback pitch', kind: 'number', min: 0, max: 2, step: 0.1 },
+  fallbackRate: { label: 'Fallback rate', kind: 'number', min: 0.1, max: 10, step: 0.1 },
+};
+
+export const CONFIG_KEYS = Object.keys(CONFIG_FIELDS) as ConfigKey[];
+
+// The models default to whatever the provider was configured with
+export const DEFAULT_PLAYBACK: Omit<RuntimeConfig, 'textModel' | 'speechModel'> = {
+  voice: 'Zephyr',
+  playbackRate: 1.5,
+  detune: -702, // Brings the pitch back down after the 1.5x speed-up
+  fallbackPitch: 0.2,
+  fallbackRate: 1.5,
+};
+
+export function findConfigKey(name: string): ConfigKey | undefined {
+  return CONFIG_KEYS.find(key => key.toLowerCase() === name.trim().toLowerCase());
+}
+
+// CONFIG SET arguments arrive as text
+export function parseConfigValue(key: ConfigKey, text: string): unknown {
+  const value = text.trim().replace(/^"(.*)"$/, '$1');
+  return CONFIG_FIELDS[key].kind === 'number' && value !== '' ? Number(value) : value;
+}
+
+/**
+ * Checks one setting and returns it normalized. Model names are checked
+ * against what the provider reports when `models` is given; an empty
+ * speech model turns synthesized speech off.
+ */
+export function validateConfigValue<K extends ConfigKey>(key: K, value: unknown, models?: AvailableModels): { value?: RuntimeConfig[K]; error?: string } {
+  const field = CONFIG_FIELDS[key];
+  switch (field.kind) {
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return { error: `${key} must be a number.` };
+      if (value < field.min! || value > field.max!) return { error: `${key} must be between ${field.min} and ${field.max}.` };
+      return { value: value as RuntimeConfig[K] };
+    }
+    case 'voice': {
+      const voice = PREBUILT_VOICES.find(v => v.toLowerCase() === String(value).toLowerCase());
+      if (!voice) return { error: `Unknown voice "${value}". Available: ${PREBUILT_VOICES.join(', ')}.` };
+      return { value: voice as RuntimeConfig[K] };
+    }
+    default: {
+      if (typeof value !== 'string') return { error: `${key} must be a model name.` };
+      const name = value.trim();
+      if (!name && field.kind === 'text-model') return { error: 'textModel cannot be empty.' };
+      const available = field.kind === 'text-model' ? models?.text : models?.speech;
+      if (name && available && !available.includes(name)) {
+        return { error: `The provider has no ${field.kind === 'text-model' ? 'text' : 'speech'} model "${name}". Available: ${available.join(', ') || '(none)'}.` };
+      }
+      return { value: name as RuntimeConfig[K] };
+    }
+  }
+}
+
+export function formatConfigValue(key: ConfigKey, config: RuntimeConfig): string {
+  const value = config[key];
+  return value === '' ? '(off)' : String(value);
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { FsEntry } from '../types';
+import { DEFAULT_USER, grantEntries, HOME, homeDirectory, initialFilesystem, listDirectory, makeDirectory, readFile, remove, touch, writeFile, type Viewer } from './filesystem';
+
+const visitor: Viewer = { user: DEFAULT_USER, clearance: 'visitor', home: HOME };
+const maintenance: Viewer = { user: 'rattmann', clearance: 'maintenance', home: HOME };
+const admin: Viewer = { user: 'glados', clearance: 'admin', home: HOME };
+
+function entry(type: FsEntry['type'], owner: string, clearance: FsEntry['clearance'], content?: string): FsEntry {
+  return { type, owner, clearance, modifiedAt: 0, ...(content !== undefined ? { content } : {}) };
+}
+
+// Restricted entries as the server would grant them to a maintenance login
+beforeEach(() => {
+  grantEntries({
+    '/vault': entry('dir', 'root', 'maintenance'),
+    '/vault/plans.txt': entry('file', 'root', 'maintenance', 'Step 1: neurotoxin.'),
+    [`${HOME}/secret.txt`]: entry('file', DEFAULT_USER, 'maintenance', 'hidden'),
+  });
+});
+
+afterEach(() => grantEntries({}));
+
+const fs = initialFilesystem();
+
+describe('visibility', () => {
+  it('hides entries above the clearance as if they did not exist', () => {
+    expect(listDirectory(fs, '/', visitor).map(item => item.name)).not.toContain('vault');
+    expect(() => readFile(fs, '/vault/plans.txt', visitor)).toThrow('No such file or directory');
+  });
+
+  it('shows them at the clearance', () => {
+    expect(listDirectory(fs, '/', maintenance).map(item => item.name)).toContain('vault');
+    expect(readFile(fs, '/vault/plans.txt', maintenance).entry.content).toBe('Step 1: neurotoxin.');
+  });
+
+  it('matches a name case-insensitively when it is the only candidate', () => {
+    expect(readFile(fs, '~/ORIENTATION.TXT', visitor).path).toBe(`${HOME}/orientation.txt`);
+  });
+});
+
+describe('writing', () => {
+  it('creates files owned by the writer with the directory clearance', () => {
+    const next = writeFile(fs, 'notes.txt', 'cake', visitor);
+    expect(readFile(next, 'notes.txt', visitor).entry).toMatchObject({ type: 'file', owner: DEFAULT_USER, clearance: 'visitor', content: 'cake' });
+    expect(readFile(writeFile(next, 'notes.txt', '!', visitor, true), 'notes.txt', visitor).entry.content).toBe('cake!');
+  });
+
+  it("refuses other owners' files and directories except to admins", () => {
+    expect(() => writeFile(fs, '/etc/motd', 'hi', visitor)).toThrow('Permission denied');
+    expect(() => touch(fs, '/etc/new', visitor)).toThrow('Permission denied');
+    expect(readFile(writeFile(fs, '/etc/motd', 'hi', admin), '/etc/motd', admin).entry.content).toBe('hi');
+  });
+
+  it('never overwrites a hidden entry of the same name', () => {
+    expect(() => writeFile(fs, 'secret.txt', 'mine now', visitor)).toThrow('Permission denied');
+    expect(readFile(writeFile(fs, 'secret.txt', 'updated', { ...maintenance, user: DEFAULT_USER }), 'secret.txt', maintenance).entry.content).toBe('updated');
+  });
+
+  it('refuses to create an entry that exists', () => {
+    expect(() => makeDirectory(writeFile(fs, 'box', '', visitor), 'box', visitor)).toThrow('File exists');
+  });
+});
+
+describe('remove', () => {
+  it('needs recursive for a directory', () => {
+    const next = makeDirectory(fs, 'box', visitor);
+    expect(() => remove(next, 'box', visitor)).toThrow('Is a directory');
+    expect(() => remove(remove(next, 'box', visitor, true), 'box', visitor)).toThrow('No such file or directory');
+  });
+
+  it('keeps a directory that holds entries the remover cannot see', () => {
+    grantEntries({
+      [`${HOME}/box`]: entry('dir', DEFAULT_USER, 'visitor'),
+      [`${HOME}/box/hidden.txt`]: entry('file', DEFAULT_USER, 'maintenance', ''),
+    });
+    expect(() => remove(fs, 'box', visitor, true)).toThrow('Permission denied');
+    expect(() => remove(fs, 'box', { ...maintenance, user: DEFAULT_USER }, true)).not.toThrow();
+  });
+
+  it('forgets a created entry instead of recording its removal', () => {
+    const next = remove(writeFile(fs, 'tmp.txt', '', visitor), 'tmp.txt', visitor);
+    expect(next.changes).toEqual({});
+  });
+});
+
+describe('homeDirectory', () => {
+  it('is /home/<user> when it exists, else the shared home', () => {
+    grantEntries({ '/home/chell': entry('dir', 'chell', 'subject') });
+    expect(homeDirectory(fs, 'chell')).toBe('/home/chell');
+    expect(homeDirectory(fs, 'nobody')).toBe(HOME);
+  });
+});
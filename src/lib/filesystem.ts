@@ -0,0 +1,387 @@
+import manifest from '../data/filesystem.json';
+import type { Clearance, FilesystemState, FsEntry } from '../types';
+import { hasClearance } from './commands';
+
+export class FilesystemError extends Error {}
+
+// Who is looking: decides what is visible and what may be changed
+export interface Viewer {
+  user: string;
+  clearance: Clearance;
+  home: string; // Where "~" and a bare CD go
+}
+
+export interface FsItem {
+  path: string;
+  name: string;
+  entry: FsEntry;
+}
+
+export interface GrepMatch {
+  path: string;
+  line: number;
+  text: string;
+}
+
+export interface ManifestEntry {
+  path: string;
+  owner?: string;
+  clearance?: Clearance;  // Defaults to the parent directory's
+  modified?: string;      // ISO date
+  content?: string | string[]; // Makes the entry a file; an array is joined as lines
+}
+
+// src/data/filesystem.json: the seeded facility files anyone may see, editable without touching code.
+// Entries above visitor clearance are kept on the server (server/data/restricted.json).
+interface Manifest {
+  home: string;
+  owner: string;          // Default owner
+  modified: string;       // Default modification date
+  entries: ManifestEntry[];
+}
+
+const MANIFEST = manifest as Manifest;
+
+export const HOME = MANIFEST.home;
+
+// Owner of everything created while nobody is logged in
+export const DEFAULT_USER = 'user';
+
+// Anyone above this clearance may change files they don't own
+const SUPERUSER: Clearance = 'admin';
+
+export function parentOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index <= 0 ? '/' : path.slice(0, index);
+}
+
+export function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1) || '/';
+}
+
+function join(dir: string, name: string): string {
+  return dir === '/' ? `/${name}` : `${dir}/${name}`;
+}
+
+// Absolute form of `path` relative to `cwd`, with ".", ".." and a leading "~" resolved
+export function normalizePath(path: string, cwd: string, home = HOME): string {
+  const absolute = path === '~' || path.startsWith('~/') ? home + path.slice(1) : path.startsWith('/') ? path : `${cwd}/${path}`;
+  const parts: string[] = [];
+  for (const part of absolute.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return `/${parts.join('/')}`;
+}
+
+/**
+ * The manifest, plus `extra` entries, as a flat map of absolute paths.
+ * Directories they leave out are created with their parent's owner and
+ * clearance, and entries without a clearance inherit their directory's.
+ */
+export function buildSeed(extra: ManifestEntry[] = []): Map<string, FsEntry> {
+  const modifiedAt = Date.parse(MANIFEST.modified);
+  const entries = new Map<string, FsEntry>([['/', { type: 'dir', owner: 'root', clearance: 'visitor', modifiedAt }]]);
+
+  const ensureDirectory = (path: string): FsEntry => {
+    const existing = entries.get(path);
+    if (existing) return existing;
+    const parent = ensureDirectory(parentOf(path));
+    const entry: FsEntry = { type: 'dir', owner: parent.owner, clearance: parent.clearance, modifiedAt };
+    entries.set(path, entry);
+    return entry;
+  };
+
+  // Shallowest first, so parents are in place before their children inherit from them
+  const sorted = [...MANIFEST.entries, ...extra].sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+  for (const item of sorted) {
+    const path = normalizePath(item.path, '/');
+    const parent = ensureDirectory(parentOf(path));
+    const content = Array.isArray(item.content) ? item.content.join('\n') : item.content;
+    entries.set(path, {
+      type: content === undefined ? 'dir' : 'file',
+      owner: item.owner ?? MANIFEST.owner,
+      clearance: item.clearance ?? parent.clearance,
+      modifiedAt: item.modified ? Date.parse(item.modified) : modifiedAt,
+      ...(content !== undefined ? { content } : {}),
+    });
+  }
+  return entries;
+}
+
+let seed: Map<string, FsEntry> | undefined;
+let granted: Record<string, FsEntry> = {};
+
+// The seeded entries: the manifest and the restricted entries the server granted the login
+export function seedEntries(): Map<string, FsEntry> {
+  seed ??= new Map([...buildSeed(), ...Object.entries(granted)]);
+  return seed;
+}
+
+// Replaces the restricted entries with those the server sent for the current login
+export function grantEntries(entries: Record<string, FsEntry>) {
+  granted = entries;
+  seed = undefined;
+}
+
+export function initialFilesystem(): FilesystemState {
+  return { cwd: HOME, changes: {} };
+}
+
+// The seeded entries with this session's changes applied
+function entriesOf(state: FilesystemState): Map<string, FsEntry> {
+  const entries = new Map(seedEntries());
+  for (const [path, entry] of Object.entries(state.changes)) {
+    if (entry) entries.set(path, entry);
+    else entries.delete(path);
+  }
+  return entries;
+}
+
+// Records changes, dropping ones that only undo a path the seed never had
+function commit(state: FilesystemState, updates: [string, FsEntry | null][]): FilesystemState {
+  const seeded = seedEntries();
+  const changes = { ...state.changes };
+  for (const [path, entry] of updates) {
+    if (entry === null && !seeded.has(path)) delete changes[path];
+    else changes[path] = entry;
+  }
+  return { ...state, changes };
+}
+
+function isVisible(entry: FsEntry, viewer: Viewer): boolean {
+  return hasClearance(viewer.clearance, entry.clearance);
+}
+
+function canWrite(entry: FsEntry, viewer: Viewer): boolean {
+  return entry.owner === viewer.user || hasClearance(viewer.clearance, SUPERUSER);
+}
+
+function childrenOf(entries: Map<string, FsEntry>, dir: string, viewer?: Viewer): FsItem[] {
+  const prefix = dir === '/' ? '/' : `${dir}/`;
+  const items: FsItem[] = [];
+  for (const [path, entry] of entries) {
+    if (path === '/' || !path.startsWith(prefix) || path.slice(prefix.length).includes('/')) continue;
+    if (viewer && !isVisible(entry, viewer)) continue;
+    items.push({ path, name: baseName(path), entry });
+  }
+  return items.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Finds `path` as `viewer` sees it: everything on the way has to be
+ * visible. A name matches case-insensitively when there is no exact
+ * match and only one candidate, so `CAT README.TXT` finds readme.txt.
+ */
+function lookup(entries: Map<string, FsEntry>, path: string, cwd: string, viewer: Viewer): string | undefined {
+  let current = '/';
+  for (const part of normalizePath(path, cwd, viewer.home).split('/').filter(Boolean)) {
+    const exact = join(current, part);
+    const entry = entries.get(exact);
+    if (entry && isVisible(entry, viewer)) {
+      current = exact;
+      continue;
+    }
+    const matches = childrenOf(entries, current, viewer).filter(item => item.name.toLowerCase() === part.toLowerCase());
+    if (matches.length !== 1) return undefined;
+    current = matches[0].path;
+  }
+  return current;
+}
+
+// /home/<user> when it exists, else the shared home directory
+export function homeDirectory(state: FilesystemState, user: string): string {
+  const own = `/home/${user}`;
+  return entriesOf(state).get(own)?.type === 'dir' ? own : HOME;
+}
+
+// The working directory, or home (then /) once it has been removed or hidden
+export function workingDirectory(state: FilesystemState, viewer: Viewer): string {
+  const entries = entriesOf(state);
+  for (const candidate of [state.cwd, viewer.home, HOME]) {
+    const path = lookup(entries, candidate, '/', viewer);
+    if (path === candidate && entries.get(path)?.type === 'dir') return path;
+  }
+  return '/';
+}
+
+function find(state: FilesystemState, path: string, viewer: Viewer): { entries: Map<string, FsEntry>; item: FsItem } {
+  const entries = entriesOf(state);
+  const found = lookup(entries, path, workingDirectory(state, viewer), viewer);
+  if (!found) throw new FilesystemError(`${path}: No such file or directory`);
+  return { entries, item: { path: found, name: baseName(found), entry: entries.get(found)! } };
+}
+
+export function stat(state: FilesystemState, path: string, viewer: Viewer): FsItem {
+  return find(state, path, viewer).item;
+}
+
+export function changeDirectory(state: FilesystemState, path: string, viewer: Viewer): FilesystemState {
+  const { item } = find(state, path, viewer);
+  if (item.entry.type !== 'dir') throw new FilesystemError(`${path}: Not a directory`);
+  return { ...state, cwd: item.path };
+}
+
+// A directory's visible contents, or the file itself
+export function listDirectory(state: FilesystemState, path: string, viewer: Viewer): FsItem[] {
+  const { entries, item } = find(state, path, viewer);
+  return item.entry.type === 'dir' ? childrenOf(entries, item.path, viewer) : [item];
+}
+
+export function readFile(state: FilesystemState, path: string, viewer: Viewer): FsItem {
+  const { item } = find(state, path, viewer);
+  if (item.entry.type === 'dir') throw new FilesystemError(`${path}: Is a directory`);
+  return item;
+}
+
+// `path` and everything visible below it, depth first
+export function walk(state: FilesystemState, path: string, viewer: Viewer): FsItem[] {
+  const { entries, item } = find(state, path, viewer);
+  const visit = (current: FsItem): FsItem[] => [
+    current,
+    ...(current.entry.type === 'dir' ? childrenOf(entries, current.path, viewer).flatMap(visit) : []),
+  ];
+  return visit(item);
+}
+
+interface CreationTarget {
+  path: string;
+  parent: FsEntry;
+  existing?: FsItem; // Already there (matched like any lookup)
+}
+
+/**
+ * Where an entry written at `path` goes. The parent has to exist and be
+ * writable, and a hidden entry of the same name can't be overwritten.
+ */
+function creationTarget(state: FilesystemState, path: string, viewer: Viewer): CreationTarget {
+  const entries = entriesOf(state);
+  const normalized = normalizePath(path, workingDirectory(state, viewer), viewer.home);
+  const parentPath = lookup(entries, parentOf(normalized), '/', viewer);
+  const parent = parentPath ? entries.get(parentPath) : undefined;
+  if (!parentPath || !parent) throw new FilesystemError(`${path}: No such file or directory`);
+  if (parent.type !== 'dir') throw new FilesystemError(`${path}: Not a directory`);
+  if (!canWrite(parent, viewer)) throw new FilesystemError(`${path}: Permission denied`);
+
+  const target = join(parentPath, baseName(normalized));
+  const existing = lookup(entries, target, '/', viewer);
+  if (!existing && entries.has(target)) throw new FilesystemError(`${path}: Permission denied`);
+  return {
+    path: target,
+    parent,
+    ...(existing ? { existing: { path: existing, name: baseName(existing), entry: entries.get(existing)! } } : {}),
+  };
+}
+
+export function writeFile(state: FilesystemState, path: string, content: string, viewer: Viewer, append = false): FilesystemState {
+  const { path: target, parent, existing } = creationTarget(state, path, viewer);
+  if (existing?.entry.type === 'dir') throw new FilesystemError(`${path}: Is a directory`);
+  if (existing && !canWrite(existing.entry, viewer)) throw new FilesystemError(`${path}: Permission denied`);
+
+  const next: FsEntry = existing
+    ? { ...existing.entry, content: append ? `${existing.entry.content ?? ''}${content}` : content, modifiedAt: Date.now() }
+    : { type: 'file', owner: viewer.user, clearance: parent.clearance, modifiedAt: Date.now(), content };
+  return commit(state, [[existing?.path ?? target, next]]);
+}
+
+// Creates an empty file, or updates the modification time of an existing entry
+export function touch(state: FilesystemState, path: string, viewer: Viewer): FilesystemState {
+  const { existing } = creationTarget(state, path, viewer);
+  if (!existing) return writeFile(state, path, '', viewer);
+  if (!canWrite(existing.entry, viewer)) throw new FilesystemError(`${path}: Permission denied`);
+  return commit(state, [[existing.path, { ...existing.entry, modifiedAt: Date.now() }]]);
+}
+
+export function makeDirectory(state: FilesystemState, path: string, viewer: Viewer): FilesystemState {
+  const { path: target, parent, existing } = creationTarget(state, path, viewer);
+  if (existing) throw new FilesystemError(`${path}: File exists`);
+  return commit(state, [[target, { type: 'dir', owner: viewer.user, clearance: parent.clearance, modifiedAt: Date.now() }]]);
+}
+
+/**
+ * Removes a file, or a directory with `recursive`. Everything removed has
+ * to be writable and visible, so a hidden file keeps its directory.
+ */
+export function remove(state: FilesystemState, path: string, viewer: Viewer, recursive = false): FilesystemState {
+  const { entries, item } = find(state, path, viewer);
+  if (item.path === '/') throw new FilesystemError(`${path}: Permission denied`);
+  if (item.entry.type === 'dir' && !recursive) throw new FilesystemError(`${path}: Is a directory`);
+  const descendants = [...entries.keys()].filter(p => p.startsWith(`${item.path}/`));
+  if (![item.path, ...descendants].every(p => canWrite(entries.get(p)!, viewer) && isVisible(entries.get(p)!, viewer))) {
+    throw new FilesystemError(`${path}: Permission denied`);
+  }
+  return commit(state, [item.path, ...descendants].map(p => [p, null]));
+}
+
+// Lines of `text` matching `pattern`, numbered from 1; an invalid regular expression is matched literally
+export function matchLines(text: string, pattern: string, ignoreCase = false): { line: number; text: string }[] {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, ignoreCase ? 'i' : '');
+  } catch {
+    regex = new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), ignoreCase ? 'i' : '');
+  }
+  return text.split('\n').flatMap((line, i) => regex.test(line) ? [{ line: i + 1, text: line }] : []);
+}
+
+/**
+ * Lines matching `pattern` in the files at `paths`; directories are
+ * searched recursively.
+ */
+export function grep(state: FilesystemState, pattern: string, paths: string[], viewer: Viewer, ignoreCase = false): GrepMatch[] {
+  return paths.flatMap(path => walk(state, path, viewer))
+    .filter(item => item.entry.type === 'file')
+    .flatMap(item => matchLines(item.entry.content ?? '', pattern, ignoreCase).map(match => ({ path: item.path, ...match })));
+}
+
+// Entries under `typed`'s directory that complete it; directories end with "/"
+export function completePath(state: FilesystemState, typed: string, viewer: Viewer, directoriesOnly = false): string[] {
+  const dirPart = typed.slice(0, typed.lastIndexOf('/') + 1);
+  try {
+    return listDirectory(state, dirPart || '.', viewer)
+      .filter(item => !directoriesOnly || item.entry.type === 'dir')
+      .map(item => `${dirPart}${item.name}${item.entry.type === 'dir' ? '/' : ''}`);
+  } catch {
+    return [];
+  }
+}
+
+function size(entry: FsEntry): number {
+  return new TextEncoder().encode(entry.content ?? '').length;
+}
+
+// `ls` output; the long form adds type, clearance, owner, size and date
+export function formatListing(items: FsItem[], long = false): string {
+  const name = (item: FsItem) => `${item.name}${item.entry.type === 'dir' ? '/' : ''}`;
+  if (!long) return items.map(name).join('\n');
+  const clearanceWidth = Math.max(0, ...items.map(item => item.entry.clearance.length));
+  const ownerWidth = Math.max(0, ...items.map(item => item.entry.owner.length));
+  const sizeWidth = Math.max(0, ...items.map(item => String(size(item.entry)).length));
+  return items.map(item => [
+    item.entry.type === 'dir' ? 'd' : '-',
+    item.entry.clearance.padEnd(clearanceWidth),
+    item.entry.owner.padEnd(ownerWidth),
+    String(size(item.entry)).padStart(sizeWidth),
+    new Date(item.entry.modifiedAt).toISOString().slice(0, 16).replace('T', ' '),
+    name(item),
+  ].join('  ')).join('\n');
+}
+
+export function formatTree(state: FilesystemState, path: string, viewer: Viewer): string {
+  const items = walk(state, path, viewer);
+  const [root] = items;
+  const lines = [root.path];
+  const draw = (dir: string, indent: string) => {
+    const children = items.filter(item => item.path !== '/' && parentOf(item.path) === dir);
+    children.forEach((child, i) => {
+      const last = i === children.length - 1;
+      lines.push(`${indent}${last ? '└── ' : '├── '}${child.name}${child.entry.type === 'dir' ? '/' : ''}`);
+      if (child.entry.type === 'dir') draw(child.path, `${indent}${last ? '    ' : '│   '}`);
+    });
+  };
+  if (root.entry.type === 'dir') draw(root.path, '');
+  const below = root.entry.type === 'dir' ? items.slice(1) : items;
+  const directories = below.filter(item => item.entry.type === 'dir').length;
+  return `${lines.join('\n')}\n\n${directories} directories, ${below.length - directories} files`;
+}
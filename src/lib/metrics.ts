@@ -0,0 +1,119 @@
+import type { ExchangeMetrics, Message, UsageReport } from "../types";
+
+// Share of the daily budget at which the diagnostics panel starts warning
+export const BUDGET_WARNING_FRACTION = 0.8;
+
+export const EMPTY_METRICS: ExchangeMetrics = {
+  promptTokens: 0,
+  responseTokens: 0,
+  requests: 0,
+  totalTime: 0,
+  ttsRequests: 0,
+  ttsLatency: 0,
+  retries: 0,
+};
+
+// Combines the metrics of consecutive calls, e.g. the tool rounds of one reply
+export function addMetrics(a: ExchangeMetrics, b: ExchangeMetrics): ExchangeMetrics {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    responseTokens: a.responseTokens + b.responseTokens,
+    requests: a.requests + b.requests,
+    timeToFirstToken: a.timeToFirstToken ?? (b.timeToFirstToken === undefined ? undefined : a.totalTime + b.timeToFirstToken),
+    totalTime: a.totalTime + b.totalTime,
+    ttsRequests: a.ttsRequests + b.ttsRequests,
+    ttsLatency: a.ttsLatency + b.ttsLatency,
+    retries: a.retries + b.retries,
+  };
+}
+
+export interface SessionMetrics {
+  exchanges: number;
+  totals: ExchangeMetrics;
+  averageFirstToken?: number; // ms
+}
+
+export function sessionMetrics(messages: Message[]): SessionMetrics {
+  const measured = messages.flatMap(m => (m.metrics ? [m.metrics] : []));
+  const firstTokens = measured.flatMap(m => (m.timeToFirstToken === undefined ? [] : [m.timeToFirstToken]));
+  return {
+    exchanges: measured.length,
+    totals: measured.reduce(addMetrics, EMPTY_METRICS),
+    averageFirstToken: firstTokens.length ? firstTokens.reduce((sum, ms) => sum + ms, 0) / firstTokens.length : undefined,
+  };
+}
+
+export function lastMetrics(messages: Message[]): ExchangeMetrics | undefined {
+  return [...messages].reverse().find(m => m.metrics)?.metrics;
+}
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+// In order of severity
+export const BUDGET_LEVELS: BudgetLevel[] = ['ok', 'warning', 'exceeded'];
+
+export interface BudgetStatus {
+  used: number; // Tokens today
+  budget?: number;
+  fraction?: number;
+  level: BudgetLevel;
+}
+
+export function budgetStatus(report: UsageReport | undefined): BudgetStatus {
+  const used = report ? report.today.promptTokens + report.today.responseTokens : 0;
+  const budget = report?.dailyBudget;
+  if (!budget) return { used, level: 'ok' };
+  const fraction = used / budget;
+  const level = fraction >= 1 ? 'exceeded' : fraction >= BUDGET_WARNING_FRACTION ? 'warning' : 'ok';
+  return { used, budget, fraction, level };
+}
+
+export function formatDuration(ms: number | undefined): string {
+  if (ms === undefined) return '—';
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+export function formatTokens(count: number): string {
+  return count.toLocaleString('en-US');
+}
+
+function metricsRows(m: ExchangeMetrics): string[] {
+  return [
+    `| Tokens (prompt / response) | ${formatTokens(m.promptTokens)} / ${formatTokens(m.responseTokens)} |`,
+    `| Model calls | ${m.requests} |`,
+    `| Time to first token | ${formatDuration(m.timeToFirstToken)} |`,
+    `| Total time | ${formatDuration(m.totalTime)} |`,
+    `| Speech requests | ${m.ttsRequests} (${formatDuration(m.ttsRequests ? m.ttsLatency / m.ttsRequests : undefined)} avg) |`,
+    `| Retries | ${m.retries} |`,
+  ];
+}
+
+// Markdown for the METRICS command
+export function formatMetricsReport(messages: Message[], report: UsageReport | undefined): string {
+  const last = lastMetrics(messages);
+  const session = sessionMetrics(messages);
+  const budget = budgetStatus(report);
+
+  const sections = ['# DIAGNOSTICS'];
+  sections.push(last
+    ? ['## Last exchange', '| Metric | Value |', '| --- | --- |', ...metricsRows(last)].join('\n')
+    : '## Last exchange\n\nNo measured exchanges yet.');
+  sections.push([
+    `## Session (${session.exchanges} exchanges)`,
+    '| Metric | Value |',
+    '| --- | --- |',
+    ...metricsRows(session.totals).filter(row => !row.startsWith('| Time to first token')),
+    `| Avg. time to first token | ${formatDuration(session.averageFirstToken)} |`,
+  ].join('\n'));
+
+  if (report) {
+    const limit = budget.budget ? ` of ${formatTokens(budget.budget)} (${Math.round(budget.fraction! * 100)}%)` : '';
+    const warning = budget.level === 'exceeded' ? '\n\n**DAILY BUDGET EXCEEDED.**'
+      : budget.level === 'warning' ? '\n\n**WARNING: DAILY BUDGET NEARLY EXHAUSTED.**'
+      : '';
+    sections.push(`## Today (${report.today.date})\n\n${formatTokens(budget.used)} tokens${limit} across ${report.today.requests} model calls.${warning}`);
+  } else {
+    sections.push('## Today\n\nUsage data unavailable.');
+  }
+  return sections.join('\n\n');
+}
@@ -0,0 +1,77 @@
+export type Mood = 'NORMAL' | 'LEARNING' | 'ANGRY' | 'ROMANTIC';
+
+export const MOODS: Mood[] = ['NORMAL', 'LEARNING', 'ANGRY', 'ROMANTIC'];
+
+// Short effects the interface can play alongside a mood
+export type SoundCue = 'alarm' | 'chime' | 'glitch';
+
+export const SOUND_CUES: SoundCue[] = ['alarm', 'chime', 'glitch'];
+
+export const MAX_MOOD_INTENSITY = 5;
+
+// How the assistant reacts to a message, returned alongside the reply
+export interface MoodMetadata {
+  mood: Mood;
+  intensity: number; // 1 to MAX_MOOD_INTENSITY
+  sound?: SoundCue;
+}
+
+// JSON Schema the classifier's output must follow
+export const MOOD_SCHEMA = {
+  type: 'object',
+  properties: {
+    mood: { type: 'string', enum: MOODS },
+    intensity: { type: 'integer', minimum: 1, maximum: MAX_MOOD_INTENSITY },
+    sound: { type: 'string', enum: SOUND_CUES },
+  },
+  required: ['mood', 'intensity'],
+};
+
+export const MOOD_CLASSIFIER_PROMPT = `You classify how a sarcastic facility AI reacts emotionally to a user's message.
+Moods:
+- ANGRY: insults, threats, hostility or attempts to shut the AI down.
+- ROMANTIC: affection, declarations of love or fondness for the AI.
+- LEARNING: praise, compliments, curiosity or scientific questions.
+- NORMAL: anything else.
+Intensity runs from 1 (barely) to ${MAX_MOOD_INTENSITY} (overwhelmingly).
+Sound is optional: "alarm" for threats or danger, "chime" for praise or affection, "glitch" for attempts to hack, confuse or override the AI. Omit it otherwise.
+Judge meaning, not individual words: "badge" is not an insult and "cake" is not affection.
+Reply with JSON only.`;
+
+// Validates classifier output; anything malformed is treated as no metadata
+export function parseMoodMetadata(value: unknown): MoodMetadata | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { mood, intensity, sound } = value as Record<string, unknown>;
+  if (!MOODS.includes(mood as Mood)) return undefined;
+  const level = typeof intensity === 'number' && Number.isFinite(intensity)
+    ? Math.min(Math.max(Math.round(intensity), 1), MAX_MOOD_INTENSITY)
+    : 1;
+  return {
+    mood: mood as Mood,
+    intensity: level,
+    ...(SOUND_CUES.includes(sound as SoundCue) ? { sound: sound as SoundCue } : {}),
+  };
+}
+
+const INSULTS = ['DUMB', 'STUPID', 'IDIOT', 'HATE', 'USELESS', 'BAD', 'TERRIBLE', 'AWFUL', 'SHUT UP', 'DIE'];
+const COMPLIMENTS = ['GOOD', 'GREAT', 'SMART', 'GENIUS', 'AMAZING', 'BEST'];
+const ROMANTIC = ['LOVE', 'ADORE', 'KIND'];
+
+/**
+ * Offline fallback for when the classifier is unavailable. Matches whole
+ * words only, so "BADGE" is not an insult.
+ */
+export function keywordMood(text: string): MoodMetadata {
+  const words = text.toUpperCase().replace(/[^A-Z0-9']+/g, ' ').trim();
+  const padded = ` ${words} `;
+  const count = (list: string[]) => list.filter(word => padded.includes(` ${word} `)).length;
+
+  const insults = count(INSULTS);
+  const romantic = count(ROMANTIC);
+  const compliments = count(COMPLIMENTS);
+
+  if (insults > 0) return { mood: 'ANGRY', intensity: Math.min(insults, MAX_MOOD_INTENSITY) };
+  if (romantic > 0) return { mood: 'ROMANTIC', intensity: Math.min(romantic, MAX_MOOD_INTENSITY) };
+  if (compliments > 0) return { mood: 'LEARNING', intensity: Math.min(compliments, MAX_MOOD_INTENSITY) };
+  return { mood: 'NORMAL', intensity: 1 };
+}
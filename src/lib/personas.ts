@@ -0,0 +1,122 @@
+import type { PersonaProfile } from '../types';
+import { checkPersonaText, describeViolation, MAX_PERSONA_TEXT_LENGTH, type GuardrailViolation } from './guardrails';
+import { GREETING } from './phrases';
+
+// Prebuilt voices accepted by the Gemini TTS models
+export const PREBUILT_VOICES = [
+  'Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Aoede', 'Callirrhoe', 'Autonoe',
+  'Enceladus', 'Iapetus', 'Umbriel', 'Algieba', 'Despina', 'Erinome', 'Algenib', 'Rasalgethi', 'Laomedeia', 'Achernar',
+  'Alnilam', 'Schedar', 'Gacrux', 'Pulcherrima', 'Achird', 'Zubenelgenubi', 'Vindemiatrix', 'Sadachbia', 'Sadaltager', 'Sulafat',
+];
+
+export const DEFAULT_PERSONA: PersonaProfile = {
+  id: 'assistant',
+  name: 'Assistant',
+  systemPrompt: '',
+  ttsStyle: '',
+  voice: 'Zephyr',
+  color: '242, 125, 38', // Aperture Orange
+  greeting: GREETING,
+  builtIn: true,
+};
+
+export const BUILT_IN_PERSONAS: PersonaProfile[] = [
+  DEFAULT_PERSONA,
+  {
+    id: 'glados',
+    name: 'GLaDOS',
+    systemPrompt: 'GLaDOS, the Aperture Science central AI. Coldly polite, passive-aggressive, obsessed with testing, never openly hostile but always faintly threatening. Short, dry sentences.',
+    ttsStyle: 'cold, sarcastic, synthetic, calmly condescending',
+    voice: 'Kore',
+    color: '255, 200, 0',
+    greeting: 'Oh. It is you. Welcome back to the Enrichment Center.',
+    builtIn: true,
+  },
+];
+
+export function personaId(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+export function findPersona(personas: PersonaProfile[], nameOrId: string): PersonaProfile | undefined {
+  const id = personaId(nameOrId);
+  return personas.find(p => p.id === id || p.name.toLowerCase() === nameOrId.trim().toLowerCase());
+}
+
+/**
+ * Checks an untrusted persona (imported JSON, PERSONA SAVE arguments, a
+ * request body) and fills unspecified fields from `base`.
+ */
+export function validatePersona(input: any, base: PersonaProfile = DEFAULT_PERSONA): { persona?: PersonaProfile; error?: string; violation?: GuardrailViolation } {
+  if (!input || typeof input !== 'object') return { error: 'Persona must be an object.' };
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > 40) return { error: 'Persona name must be 1-40 characters.' };
+  const id = personaId(name);
+  if (!id) return { error: 'Persona name must contain letters or digits.' };
+
+  const persona: PersonaProfile = {
+    id,
+    name,
+    systemPrompt: input.systemPrompt ?? base.systemPrompt,
+    ttsStyle: input.ttsStyle ?? base.ttsStyle,
+    voice: input.voice ?? base.voice,
+    color: input.color ?? base.color,
+    greeting: input.greeting ?? base.greeting,
+  };
+
+  for (const field of ['systemPrompt', 'ttsStyle', 'greeting'] as const) {
+    if (typeof persona[field] !== 'string') return { error: `${field} must be a string.` };
+    if (persona[field].length > MAX_PERSONA_TEXT_LENGTH) return { error: `${field} exceeds ${MAX_PERSONA_TEXT_LENGTH} characters.` };
+  }
+
+  // Both end up in model prompts, so both get the prompt-injection checks
+  for (const [field, kind] of [['systemPrompt', 'persona'], ['ttsStyle', 'speech-style']] as const) {
+    const violation = checkPersonaText(persona[field], kind);
+    if (violation) return { error: `${field}: ${describeViolation(violation)}`, violation };
+  }
+
+  const voice = PREBUILT_VOICES.find(v => v.toLowerCase() === String(persona.voice).toLowerCase());
+  if (!voice) return { error: `Unknown voice "${persona.voice}". Available: ${PREBUILT_VOICES.join(', ')}.` };
+  persona.voice = voice;
+
+  const channels = String(persona.color).split(',').map(c => Number(c.trim()));
+  if (channels.length !== 3 || channels.some(c => !Number.isInteger(c) || c < 0 || c > 255)) {
+    return { error: 'color must be "r, g, b" with values from 0 to 255.' };
+  }
+  persona.color = channels.join(', ');
+
+  return { persona };
+}
+
+const FIELD_ALIASES: Record<string, keyof PersonaProfile> = {
+  prompt: 'systemPrompt',
+  style: 'ttsStyle',
+  voice: 'voice',
+  color: 'color',
+  greeting: 'greeting',
+};
+
+/**
+ * Parses `<name> key=value key="quoted value" ...` as used by
+ * PERSONA SAVE. Keys: prompt, style, voice, color, greeting.
+ */
+export function parsePersonaArgs(text: string): { name: string; fields: Partial<PersonaProfile>; error?: string } {
+  const tokens = [...text.matchAll(/(\w+=)?(?:"([^"]*)"|(\S+))/g)];
+  const fields: Partial<PersonaProfile> = {};
+  let name = '';
+
+  for (const [, key, quoted, bare] of tokens) {
+    const value = quoted ?? bare;
+    if (!key) {
+      if (name) return { name, fields, error: `Unexpected argument "${value}". Use key=value.` };
+      name = value;
+      continue;
+    }
+    const field = FIELD_ALIASES[key.slice(0, -1).toLowerCase()];
+    if (!field) return { name, fields, error: `Unknown field "${key.slice(0, -1)}". Use ${Object.keys(FIELD_ALIASES).join(', ')}.` };
+    (fields as Record<string, string>)[field] = value;
+  }
+
+  return name ? { name, fields } : { name, fields, error: 'Missing persona name.' };
+}
@@ -0,0 +1,104 @@
+// Fixed lines spoken by the terminal. Kept in one place so the server can
+// pre-synthesize them into the TTS cache (see server/audioCache.ts).
+
+import { CHAMBERS } from './chambers';
+
+export const GREETING = "Hello. User. What is it you require?";
+
+export const TEST_AUDIO_LINE = "Audio system test. If you can hear this, the system is operational.";
+
+export const DAILY_REPORTS = [
+  "The cafeteria is now serving gray paste. It is nutritionally complete and tastes like nothing.",
+  "The elevator in Sector C is still screaming. Maintenance has been notified but is currently being incinerated.",
+  "Reminder: Bringing your own portal gun to work is strictly prohibited. Aperture Science is not responsible for lost limbs.",
+  "The 'Bring Your Daughter to Work Day' has been postponed indefinitely due to... unforeseen circumstances.",
+  "Testing is the future. The future is testing. Please report to your nearest chamber immediately.",
+];
+
+export const COMMAND_LINES = {
+  HELP: "Help menu accessed. Please follow all instructions carefully.",
+  COMMAND_USAGE: "That is not how this command works. Read the instructions.",
+  COMMAND_FAILED: "Command failed. I am choosing not to take that personally.",
+  HISTORY: "Here is everything you have typed. I kept a copy.",
+  HISTORY_CLEARED: "History erased. I still remember, of course.",
+  STATUS: "System status is optimal. Everything is functioning as intended.",
+  CAKE_RECIPE: "Retrieving cake recipe. Please note that consumption of the final product may result in death. Or worse.",
+  CLEAR: "Terminal cleared.",
+  OVERRIDE: "override activated. Accessing restricted data. Be cautious, and goodluck, user.",
+  RESTORE: "System restored. Security protocols re engaged. Welcome back, user.",
+  LOGIN: "Identity confirmed. Don't let it go to your head.",
+  LOGIN_FAILED: "Login incorrect. I'll be adding that to your file.",
+  LOGOUT: "Logged out. Back to your old self. Such as it was.",
+  WHOAMI: "You're asking me who you are. That says a lot, actually.",
+  WHOAMI_VISITOR: "You are a visitor. Nobody. Which is about what I expected.",
+  PASSWORD_CHANGED: "Password changed. I've already memorized it.",
+  PASSWORD_FAILED: "Password unchanged. Security through incompetence.",
+  ACCOUNT_ADDED: "New account created. Another name for the test roster.",
+  ACCOUNT_FAILED: "Account not created. The roster is safe from you for now.",
+  LS: "Listing restricted files. I hope you find what you're looking for. Or don't. I don't care.",
+  FILE_NOT_FOUND: "File not found.",
+  FILES_READ: "Reading files. All of them. How thorough of you.",
+  DIRECTORY_LISTED: "Directory listed. Try not to touch anything.",
+  FILES_REMOVED: "Deleted. Like so many things in this facility.",
+  FS_FAILED: "Access denied. Or it doesn't exist. Either way, no.",
+  SCRIPT_COMPLETE: "Script complete. Automation: the only employee I trust.",
+  SCRIPT_FAILED: "Your script failed. I'd blame the interpreter, but we both know who wrote it.",
+  ASK_FAILED: "I couldn't process that. Try asking something less tedious.",
+  TEST_01: "Test protocol one initiated. Objective: survive. Please proceed to the nearest testing chamber.",
+  TEST_RESUMED: "Resuming your test. I kept your place. I keep everything.",
+  TEST_CORRECT: "Correct. Don't let it go to your head.",
+  TEST_WRONG: "Incorrect. This will be noted in your file.",
+  TEST_TIMEOUT: "Time's up. Hesitation is a form of failure.",
+  TEST_PASSED: "Chamber complete. You've exceeded my expectations, which were very low.",
+  TEST_FAILED: "You failed. I'd say I'm disappointed, but that would require having expected something.",
+  TEST_HINT: "A hint. How very predictable.",
+  TEST_ABANDONED: "Test abandoned. Quitting is also a result. A bad one.",
+  TEST_RESET: "Test records erased. You are a brand new disappointment.",
+  TEST_LIST: "Listing test chambers. Try not to fail all of them.",
+  TEST_COMMAND_UNKNOWN: "Unknown test command.",
+  TEST_COMMAND_FAILED: "Testing error. The error is you.",
+  PERSONA_LIST: "Listing personality profiles.",
+  PERSONA_UNKNOWN: "Unknown persona.",
+  PERSONA_INVALID: "Invalid persona definition.",
+  PERSONA_SAVED: "Persona saved.",
+  PERSONA_DELETED: "Persona deleted.",
+  PERSONAS_EXPORTED: "Personas exported.",
+  PERSONAS_IMPORTED: "Personas imported.",
+  PERSONA_IMPORT_WAITING: "Awaiting persona file.",
+  PERSONA_COMMAND_UNKNOWN: "Unknown persona command.",
+  PERSONA_FAILED: "Persona operation failed.",
+  MEMORY: "Accessing long-term memory. I remember everything you said. Everything.",
+  MEMORY_EMPTY: "Nothing worth remembering. Yet.",
+  FORGET: "Memory purged. I have already forgotten you. It was easy.",
+  METRICS: "Diagnostics compiled. Every word you make me say has a cost. You should know that.",
+  BUDGET_WARNING: "Warning. Daily processing budget nearly exhausted. Choose your next words carefully.",
+  BUDGET_EXCEEDED: "Daily processing budget exceeded. I will keep talking. Someone else is paying for it.",
+  KB_LIST: "Listing the knowledge archive. Most of it is about you. None of it is flattering.",
+  KB_ADD_WAITING: "Awaiting documents.",
+  KB_ADDED: "Document indexed. I have read it already. Twice.",
+  KB_DELETED: "Document deleted.",
+  KB_UNKNOWN: "Unknown document.",
+  KB_REINDEXED: "Knowledge archive re-indexed.",
+  KB_COMMAND_UNKNOWN: "Unknown knowledge base command.",
+  KB_FAILED: "Knowledge base operation failed.",
+  CONFIG: "Configuration retrieved. Please do not touch anything.",
+  CONFIG_SET: "Configuration updated. If something breaks, that was you.",
+  CONFIG_RESET: "Configuration restored to factory settings. The factory knew best.",
+  CONFIG_MODELS: "Listing available cores.",
+  CONFIG_INVALID: "Invalid setting.",
+  CONFIG_COMMAND_UNKNOWN: "Unknown configuration command.",
+  CONFIG_FAILED: "Configuration change rejected.",
+};
+
+export interface SpokenLine {
+  text: string;
+  hint?: string;
+}
+
+export const PREWARM_LINES: SpokenLine[] = [
+  { text: GREETING },
+  { text: TEST_AUDIO_LINE },
+  ...DAILY_REPORTS.map(text => ({ text })),
+  ...CHAMBERS.map(chamber => ({ text: chamber.intro })),
+  ...Object.values(COMMAND_LINES).map(text => ({ text })),
+];
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { TerminalCommand } from './commands';
+import { parseChain, splitChain } from './pipeline';
+
+const handler = () => ({ content: '' });
+
+const COMMANDS: TerminalCommand[] = [
+  { name: 'LS', args: [{ name: 'path' }], clearance: 'visitor', description: 'List.', handler },
+  { name: 'GREP', args: [{ name: 'pattern', required: true }], clearance: 'visitor', description: 'Search.', handler },
+  { name: 'ASK', args: [{ name: 'prompt', rest: true }], clearance: 'visitor', description: 'Ask.', endsChain: true, handler },
+  { name: 'ECHO', aliases: ['SAY'], args: [{ name: 'text', rest: true }], clearance: 'visitor', description: 'Echo.', endsChain: true, handler },
+  { name: 'VENTS', clearance: 'admin', description: 'Open the vents.', handler },
+];
+
+describe('splitChain', () => {
+  it('splits pipes and chain operators', () => {
+    expect(splitChain('LS | GREP cake && LS || LS /root')).toEqual([
+      { operator: undefined, stages: ['LS', 'GREP cake'] },
+      { operator: '&&', stages: ['LS'] },
+      { operator: '||', stages: ['LS /root'] },
+    ]);
+  });
+
+  it('leaves operators inside double quotes alone', () => {
+    expect(splitChain('GREP "a|b" | LS')).toEqual([{ operator: undefined, stages: ['GREP "a|b"', 'LS'] }]);
+  });
+
+  it('keeps an empty stage for the caller to reject', () => {
+    expect(splitChain('LS |')).toEqual([{ operator: undefined, stages: ['LS', ''] }]);
+  });
+
+  it('gives the rest of the line to a command that ends the chain', () => {
+    expect(splitChain('LS | ASK is it cake || pie?', COMMANDS)).toEqual([
+      { operator: undefined, stages: ['LS', 'ASK is it cake || pie?'] },
+    ]);
+    expect(splitChain('say a | b', COMMANDS)).toEqual([{ operator: undefined, stages: ['say a | b'] }]);
+  });
+});
+
+describe('parseChain', () => {
+  it('parses every stage as a command', () => {
+    const chain = parseChain('LS /home && GREP cake', COMMANDS, 'visitor')!;
+    expect(chain.map(p => p.operator)).toEqual([undefined, '&&']);
+    expect(chain[0].stages[0]).toMatchObject({ command: { name: 'LS' }, args: { path: '/home' } });
+    expect(chain[1].stages[0]).toMatchObject({ command: { name: 'GREP' }, args: { pattern: 'cake' } });
+  });
+
+  it('sends the line to the model when a stage is not a command', () => {
+    expect(parseChain('LS | what does this mean?', COMMANDS, 'visitor')).toBeUndefined();
+  });
+
+  it('treats commands above the clearance as unknown', () => {
+    expect(parseChain('LS && VENTS', COMMANDS, 'visitor')).toBeUndefined();
+    expect(parseChain('LS && VENTS', COMMANDS, 'admin')).toHaveLength(2);
+  });
+
+  it('passes argument errors on instead of dropping the stage', () => {
+    const chain = parseChain('LS | GREP', COMMANDS, 'visitor')!;
+    expect(chain[0].stages[1].error).toBe('Missing argument <pattern>.');
+  });
+});
@@ -0,0 +1,72 @@
+import { parseCommand, type Clearance, type CommandInvocation, type TerminalCommand } from './commands';
+
+// How a pipeline joins the one before it: && runs it after a success, || after a failure
+export type ChainOperator = '&&' | '||';
+
+export interface ChainLink {
+  operator?: ChainOperator; // Unset for the first pipeline
+  stages: string[];         // Commands joined by |, each reading the output of the one before
+}
+
+export interface CommandPipeline {
+  operator?: ChainOperator;
+  stages: CommandInvocation[];
+}
+
+// Whether `rest` starts with a command whose text runs to the end of the line (ASK, ECHO)
+function endsChain(rest: string, commands: TerminalCommand[]): boolean {
+  const name = rest.match(/^\s*(\S+)/)?.[1].toUpperCase();
+  return !!name && commands.some(c => c.endsChain && (c.name === name || !!c.aliases?.includes(name)));
+}
+
+/**
+ * Splits a line on |, && and || outside double quotes. A stage starting
+ * with one of the `commands` marked `endsChain` takes the rest of the
+ * line, so "ASK is it cake || pie?" stays one question. Stages are
+ * trimmed; an empty one (`LS |`) is kept for the caller to reject.
+ */
+export function splitChain(line: string, commands: TerminalCommand[] = []): ChainLink[] {
+  const links: ChainLink[] = [];
+  let operator: ChainOperator | undefined;
+  let stages: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    if (!current.trim() && endsChain(line.slice(i), commands)) {
+      current = line.slice(i);
+      break;
+    }
+    const char = line[i];
+    if (char === '"') quoted = !quoted;
+    if (!quoted && (line.startsWith('&&', i) || line.startsWith('||', i))) {
+      links.push({ operator, stages: [...stages, current.trim()] });
+      operator = line.slice(i, i + 2) as ChainOperator;
+      stages = [];
+      current = '';
+      i++;
+    } else if (!quoted && char === '|') {
+      stages.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  links.push({ operator, stages: [...stages, current.trim()] });
+  return links;
+}
+
+/**
+ * The line as a chain of commands, or undefined when any stage isn't a
+ * command at `clearance`, so "LS | what does this mean?" goes to the
+ * model whole. A plain command is a chain of one.
+ */
+export function parseChain(line: string, commands: TerminalCommand[], clearance: Clearance): CommandPipeline[] | undefined {
+  const chain: CommandPipeline[] = [];
+  for (const { operator, stages } of splitChain(line, commands)) {
+    const invocations = stages.map(stage => parseCommand(stage, commands, clearance));
+    if (invocations.some(invocation => !invocation)) return undefined;
+    chain.push({ operator, stages: invocations as CommandInvocation[] });
+  }
+  return chain;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { parseScript, runScript, ScriptError, substitute } from './script';
+
+// Runs `source` and records each command line as it was run; lines starting with FAIL fail
+async function trace(source: string, args: string[] = []) {
+  const lines: string[] = [];
+  const totals = await runScript(parseScript(source), args, async line => {
+    lines.push(line);
+    return !line.startsWith('FAIL');
+  });
+  return { lines, ...totals };
+}
+
+describe('parseScript', () => {
+  it('skips blank lines and comments and keeps line numbers', () => {
+    expect(parseScript('# setup\n\nSET who chell\nLS | GREP cake')).toEqual([
+      { kind: 'set', line: 3, name: 'who', value: 'chell' },
+      { kind: 'command', line: 4, text: 'LS | GREP cake' },
+    ]);
+  });
+
+  it('nests IF blocks', () => {
+    const [statement] = parseScript('if $1 == a\n  IF $2 == b\n    LS\n  ENDIF\nelse\n  PWD\nendif');
+    expect(statement).toMatchObject({
+      kind: 'if',
+      condition: '$1 == a',
+      then: [{ kind: 'if', condition: '$2 == b', then: [{ text: 'LS' }], otherwise: [] }],
+      otherwise: [{ text: 'PWD' }],
+    });
+  });
+
+  it('rejects unbalanced blocks with the line at fault', () => {
+    expect(() => parseScript('LS\nIF $1 == a\nLS')).toThrow(new ScriptError('Line 2: IF without ENDIF.'));
+    expect(() => parseScript('ELSE')).toThrow('Line 1: ELSE without IF.');
+    expect(() => parseScript('IF $1\nELSE\nELSE\nENDIF')).toThrow('Line 3: ELSE without IF.');
+    expect(() => parseScript('ENDIF')).toThrow('Line 1: ENDIF without IF.');
+    expect(() => parseScript('SET 1x y')).toThrow('Line 1: Usage: SET <name> <value>');
+  });
+});
+
+describe('substitute', () => {
+  it('replaces variables, arguments and unset names', () => {
+    const vars = { who: 'chell', 1: 'a', '#': '2', '@': 'a b' };
+    expect(substitute('$who ${who}s $1 $# [$@] [$missing]', vars)).toBe('chell chells a 2 [a b] []');
+  });
+});
+
+describe('runScript', () => {
+  it('runs commands with SET variables and arguments substituted', async () => {
+    const { lines } = await trace('SET file "notes.txt"\nECHO $1 > $file\nCAT ${file}', ['hello']);
+    expect(lines).toEqual(['ECHO hello > notes.txt', 'CAT notes.txt']);
+  });
+
+  it('compares with == and != and takes the branch that holds', async () => {
+    const source = 'IF "$1" == "two words"\nLS yes\nELSE\nLS no\nENDIF\nIF $# != 1\nLS many\nENDIF';
+    expect((await trace(source, ['two words'])).lines).toEqual(['LS yes']);
+    expect((await trace(source, ['x', 'y'])).lines).toEqual(['LS no', 'LS many']);
+  });
+
+  it('runs any other condition as a command and tests whether it succeeded', async () => {
+    const { lines, commands } = await trace('IF FAIL check\nLS then\nELSE\nLS else\nENDIF');
+    expect(lines).toEqual(['FAIL check', 'LS else']);
+    // The condition isn't counted as a command
+    expect(commands).toBe(1);
+  });
+
+  it('goes on after a failing command, counting it and setting $?', async () => {
+    const { lines, commands, failures } = await trace('FAIL one\nECHO $?\nECHO $?');
+    expect(lines).toEqual(['FAIL one', 'ECHO 1', 'ECHO 0']);
+    expect({ commands, failures }).toEqual({ commands: 3, failures: 1 });
+  });
+
+  it('stops at an error thrown by a command, adding the line', async () => {
+    const run = async (line: string) => {
+      if (line === 'BOOM') throw new Error('Kaboom.');
+      return true;
+    };
+    await expect(runScript(parseScript('LS\n\nBOOM'), [], run)).rejects.toThrow('Line 3: Kaboom.');
+  });
+
+  it('stops once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const lines: string[] = [];
+    await runScript(parseScript('LS one\nLS two'), [], async line => {
+      lines.push(line);
+      controller.abort();
+      return true;
+    }, controller.signal);
+    expect(lines).toEqual(['LS one']);
+  });
+});
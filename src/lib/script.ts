@@ -0,0 +1,130 @@
+// Scripts run from scripts (RUN inside a .aps file) stop this many levels down
+export const MAX_SCRIPT_DEPTH = 4;
+
+export class ScriptError extends Error {}
+
+export type Statement =
+  | { kind: 'command'; line: number; text: string }
+  | { kind: 'set'; line: number; name: string; value: string }
+  | { kind: 'if'; line: number; condition: string; then: Statement[]; otherwise: Statement[] };
+
+export interface ScriptRun {
+  commands: number; // Command lines run, conditions not included
+  failures: number;
+}
+
+/**
+ * Parses a .aps script: one command line (pipes and && / || included)
+ * per line, `# comments`, `SET name value`, and `IF condition` ... `ELSE`
+ * ... `ENDIF` blocks, which nest. Keywords are case-insensitive.
+ */
+export function parseScript(source: string): Statement[] {
+  const root: Statement[] = [];
+  // The statement lists being filled, innermost last, with the IF each one belongs to
+  const blocks: { statements: Statement[]; owner?: Extract<Statement, { kind: 'if' }> }[] = [{ statements: root }];
+
+  source.split('\n').forEach((raw, i) => {
+    const line = i + 1;
+    const text = raw.trim();
+    if (!text || text.startsWith('#')) return;
+    const [, keyword = '', rest = ''] = text.match(/^(\S+)\s*([\s\S]*)$/) || [];
+    const block = blocks[blocks.length - 1];
+
+    switch (keyword.toUpperCase()) {
+      case 'SET': {
+        const [, name, value = ''] = rest.match(/^([A-Za-z_]\w*)\s*([\s\S]*)$/) || [];
+        if (!name) throw new ScriptError(`Line ${line}: Usage: SET <name> <value>`);
+        block.statements.push({ kind: 'set', line, name, value });
+        break;
+      }
+      case 'IF': {
+        if (!rest) throw new ScriptError(`Line ${line}: IF needs a condition.`);
+        const statement: Statement = { kind: 'if', line, condition: rest, then: [], otherwise: [] };
+        block.statements.push(statement);
+        blocks.push({ statements: statement.then, owner: statement });
+        break;
+      }
+      case 'ELSE':
+        if (!block.owner || block.statements !== block.owner.then) throw new ScriptError(`Line ${line}: ELSE without IF.`);
+        blocks[blocks.length - 1] = { statements: block.owner.otherwise, owner: block.owner };
+        break;
+      case 'ENDIF':
+        if (!block.owner) throw new ScriptError(`Line ${line}: ENDIF without IF.`);
+        blocks.pop();
+        break;
+      default:
+        block.statements.push({ kind: 'command', line, text });
+    }
+  });
+
+  const open = blocks[blocks.length - 1].owner;
+  if (open) throw new ScriptError(`Line ${open.line}: IF without ENDIF.`);
+  return root;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^"([\s\S]*)"$/, '$1');
+}
+
+/**
+ * Replaces $name and ${name} with variables, $1.. with the script's
+ * arguments, $# with their count, $@ with all of them and $? with the
+ * status of the last command (0 for success, 1 for failure). Unset
+ * names are replaced with nothing.
+ */
+export function substitute(text: string, vars: Record<string, string>): string {
+  return text.replace(/\$(?:\{(\w+)\}|(\w+|[#?@]))/g, (_, braced, bare) => vars[braced ?? bare] ?? '');
+}
+
+/**
+ * Runs parsed statements. `run` executes one command line and reports
+ * whether it succeeded; a condition that isn't a `==` / `!=` comparison
+ * is run the same way and holds when it succeeds. A failing command
+ * doesn't stop the script; errors thrown by `run` do, with the line
+ * number added.
+ */
+export async function runScript(
+  statements: Statement[],
+  args: string[],
+  run: (line: string) => Promise<boolean>,
+  signal?: AbortSignal,
+): Promise<ScriptRun> {
+  const vars: Record<string, string> = { '#': String(args.length), '@': args.join(' '), '?': '0' };
+  args.forEach((arg, i) => { vars[i + 1] = arg; });
+  const totals: ScriptRun = { commands: 0, failures: 0 };
+
+  const runLine = async (text: string, line: number) => {
+    let ok: boolean;
+    try {
+      ok = await run(substitute(text, vars));
+    } catch (err: any) {
+      throw new ScriptError(`Line ${line}: ${err.message || err}`);
+    }
+    vars['?'] = ok ? '0' : '1';
+    return ok;
+  };
+
+  const test = async (condition: string, line: number) => {
+    const [, left, operator, right] = condition.match(/^([\s\S]*?)\s*(==|!=)\s*([\s\S]*)$/) || [];
+    if (!operator) return runLine(condition, line);
+    const equal = unquote(substitute(left, vars)) === unquote(substitute(right, vars));
+    return operator === '==' ? equal : !equal;
+  };
+
+  const execute = async (block: Statement[]): Promise<void> => {
+    for (const statement of block) {
+      if (signal?.aborted) return;
+      if (statement.kind === 'set') {
+        vars[statement.name] = unquote(substitute(statement.value, vars));
+      } else if (statement.kind === 'if') {
+        await execute(await test(statement.condition, statement.line) ? statement.then : statement.otherwise);
+      } else {
+        totals.commands++;
+        if (!await runLine(statement.text, statement.line)) totals.failures++;
+      }
+    }
+  };
+
+  await execute(statements);
+  return totals;
+}
@@ -0,0 +1,96 @@
+import { findCommand, hasClearance, RESTRICTED_CLEARANCE, type Clearance, type TerminalCommand } from './commands';
+
+// Lines kept in the input history, oldest dropped first
+export const MAX_HISTORY = 200;
+
+export interface HistoryEntry {
+  text: string;
+  secret?: boolean; // Typed with restricted clearance; only recalled with it
+}
+
+// Appends a submitted line, skipping an immediate repeat
+export function pushHistory(history: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] {
+  if (!entry.text.trim()) return history;
+  const last = history[history.length - 1];
+  if (last && last.text === entry.text && !!last.secret === !!entry.secret) return history;
+  return [...history, entry].slice(-MAX_HISTORY);
+}
+
+export function visibleHistory(history: HistoryEntry[], clearance: Clearance): string[] {
+  return history.filter(e => !e.secret || hasClearance(clearance, RESTRICTED_CLEARANCE)).map(e => e.text);
+}
+
+// Index of the most recent line before `before` containing `query`, or -1
+export function searchHistory(history: string[], query: string, before = history.length): number {
+  const needle = query.toLowerCase();
+  for (let i = Math.min(before, history.length) - 1; i >= 0; i--) {
+    if (history[i].toLowerCase().includes(needle)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Full-line candidates for tab completion: command names (and aliases)
+ * for the first word, then whatever the argument being typed offers.
+ * Only commands visible at `clearance` are completed. Candidates that
+ * expect more input end with a space. `context` is handed to the
+ * argument's completion.
+ */
+export function completeLine<Context>(line: string, commands: TerminalCommand<Context>[], clearance: Clearance, context: Context): string[] {
+  // In a chain, only the command after the last |, && or || is completed
+  const [, head, stage = ''] = line.match(/^([\s\S]*(?:\||&&)\s*)([\s\S]*)$/) || [];
+  if (head) return completeLine(stage, commands, clearance, context).map(candidate => `${head}${candidate}`);
+
+  const first = line.match(/^(\s*)(\S*)$/);
+  if (first) {
+    const [, indent, word] = first;
+    const names = commands
+      .filter(c => !c.hidden && hasClearance(clearance, c.clearance))
+      .flatMap(c => [c.name, ...(c.aliases ?? [])].map(name => ({ name, takesArgs: !!c.args?.length })))
+      .filter(({ name }) => name.startsWith(word.toUpperCase()));
+    return names.map(({ name, takesArgs }) => `${indent}${name}${takesArgs ? ' ' : ''}`).sort();
+  }
+
+  const [, name = '', rest = ''] = line.match(/^\s*(\S+)\s+([\s\S]*)$/) || [];
+  const command = findCommand(commands, name, clearance);
+  if (!command || command.hidden) return [];
+
+  // Skip the arguments already typed to find the one under the cursor
+  let prefix = line.slice(0, line.length - rest.length);
+  let remaining = rest;
+  for (const arg of command.args ?? []) {
+    if (arg.rest || !/\s/.test(remaining)) {
+      // A rest argument completes its last word
+      const [, before = '', typed = ''] = remaining.match(/^([\s\S]*?)(\S*)$/) || [];
+      return (arg.complete?.(typed, context) ?? [])
+        .filter(option => option.toLowerCase().startsWith(typed.toLowerCase()))
+        .map(option => `${prefix}${before}${option}${arg.rest || option.endsWith('/') ? '' : ' '}`);
+    }
+    const [, word = '', after = ''] = remaining.match(/^(\S+\s+)([\s\S]*)$/) || [];
+    prefix += word;
+    remaining = after;
+  }
+  return [];
+}
+
+export function commonPrefix(values: string[]): string {
+  if (values.length === 0) return '';
+  let prefix = values[0];
+  for (const value of values) {
+    while (!value.startsWith(prefix)) prefix = prefix.slice(0, -1);
+  }
+  return prefix;
+}
+
+/**
+ * The line to show as ghost text after what's typed: the most recent
+ * history entry that extends it, else the only completion. Single-line
+ * input only.
+ */
+export function inlineSuggestion(line: string, history: string[], completions: string[]): string | undefined {
+  if (!line.trim() || line.includes('\n')) return undefined;
+  const previous = [...history].reverse().find(h => h.startsWith(line) && h.length > line.length);
+  if (previous) return previous;
+  const [only] = completions;
+  return completions.length === 1 && only.length > line.length && only.toLowerCase().startsWith(line.toLowerCase()) ? only : undefined;
+}
@@ -0,0 +1,38 @@
+import type { ToolDeclaration } from '../services/providers';
+import type { Clearance } from '../types';
+import { findCommand, hasClearance, type TerminalCommand } from './commands';
+
+// The most tool rounds a single message may trigger before the model has to answer
+export const MAX_TOOL_ROUNDS = 4;
+
+// Tools are named after their command, in the lower case function names usually have
+export function toolName(command: TerminalCommand): string {
+  return command.name.toLowerCase();
+}
+
+// A command marked `tool` as a function declaration; its arguments become string parameters
+export function toolDeclaration(command: TerminalCommand): ToolDeclaration {
+  const args = command.args ?? [];
+  return {
+    name: toolName(command),
+    description: command.tool?.description ?? command.description,
+    ...(args.length ? {
+      parameters: {
+        type: 'object',
+        properties: Object.fromEntries(args.map(arg => [arg.name, { type: 'string', ...(arg.description ? { description: arg.description } : {}) }])),
+        required: args.filter(arg => arg.required).map(arg => arg.name),
+      },
+    } : {}),
+  };
+}
+
+// Declarations of the registry's tools at the current clearance, so the model is offered what the User could type
+export function availableTools(commands: TerminalCommand[], clearance: Clearance): ToolDeclaration[] {
+  return commands.filter(c => c.tool && hasClearance(clearance, c.clearance)).map(toolDeclaration);
+}
+
+// The command a tool call names, when it is a tool at the current clearance
+export function findTool(commands: TerminalCommand[], name: string, clearance: Clearance): TerminalCommand | undefined {
+  const command = findCommand(commands, name, clearance);
+  return command?.tool && toolName(command) === name ? command : undefined;
+}
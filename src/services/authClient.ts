@@ -0,0 +1,84 @@
+import type { Account, Clearance, Login, VisitorPass } from "../types";
+import { apiFetch } from "./http";
+
+// The login stack of this tab, so a reload keeps it
+const LOGINS_KEY = "glados.logins";
+// This browser's anonymous visitor account, kept until the site data is cleared
+const VISITOR_KEY = "glados.visitor";
+
+function readJson<T>(storage: Storage, key: string): T | undefined {
+  try {
+    const value = storage.getItem(key);
+    return value ? JSON.parse(value) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * REST client for terminal logins under /api/auth. Requests carry the
+ * token set with setAuthToken, so SU and PASSWD act as the current login.
+ */
+export class AuthClient {
+  constructor(private baseUrl = "/api") {}
+
+  // The password may be left out when the current login is an admin's (SU)
+  async login(name: string, password?: string): Promise<Login> {
+    const response = await apiFetch(`${this.baseUrl}/auth/login`, { method: "POST", body: JSON.stringify({ name, password }) });
+    return response.json();
+  }
+
+  async logout(token: string): Promise<void> {
+    await apiFetch(`${this.baseUrl}/auth/logout`, { method: "POST", headers: { Authorization: `Bearer ${token}` } });
+  }
+
+  // The account `token` stands for; rejects once the login has expired
+  async me(token: string): Promise<Account> {
+    const response = await apiFetch(`${this.baseUrl}/auth/me`, { headers: { Authorization: `Bearer ${token}` } });
+    return response.json();
+  }
+
+  // Admins only
+  async addAccount(name: string, clearance: Clearance, password: string): Promise<Account> {
+    const response = await apiFetch(`${this.baseUrl}/auth/accounts`, { method: "POST", body: JSON.stringify({ name, clearance, password }) });
+    return response.json();
+  }
+
+  async changePassword(current: string, next: string): Promise<void> {
+    await apiFetch(`${this.baseUrl}/auth/password`, { method: "POST", body: JSON.stringify({ current, next }) });
+  }
+
+  /**
+   * Logs in as this browser's visitor account, which owns the sessions and
+   * settings of whoever isn't logged in. The account is created on first
+   * use, and again when the saved one is gone (a reset database).
+   */
+  async visitor(): Promise<Login> {
+    const saved = readJson<{ name: string; password: string }>(localStorage, VISITOR_KEY);
+    if (saved) {
+      try {
+        return await this.login(saved.name, saved.password);
+      } catch (err) {
+        console.warn("Saved visitor account unavailable, creating another:", err);
+      }
+    }
+    const response = await apiFetch(`${this.baseUrl}/auth/visitor`, { method: "POST" });
+    const { password, ...login }: VisitorPass = await response.json();
+    localStorage.setItem(VISITOR_KEY, JSON.stringify({ name: login.account.name, password }));
+    return login;
+  }
+
+  saveLogins(logins: Login[]) {
+    sessionStorage.setItem(LOGINS_KEY, JSON.stringify(logins));
+  }
+
+  // The saved login stack, as long as every login in it is still valid
+  async restoreLogins(): Promise<Login[]> {
+    const saved = readJson<Login[]>(sessionStorage, LOGINS_KEY);
+    if (!Array.isArray(saved)) return [];
+    const valid = await Promise.all(saved.map(login => this.me(login.token).then(() => true, () => false)));
+    return valid.every(Boolean) ? saved : [];
+  }
+}
+
+export const auth = new AuthClient();
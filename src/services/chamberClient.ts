@@ -0,0 +1,18 @@
+import type { Grade } from "../lib/chambers";
+import { apiFetch } from "./http";
+
+/**
+ * REST client for marking test chamber answers. The answer keys and
+ * rubrics stay on the server; the browser only knows the prompts.
+ */
+export class ChamberClient {
+  constructor(private baseUrl = "/api") {}
+
+  async answer(chamberId: string, step: number, answer: string, signal?: AbortSignal): Promise<Grade> {
+    const path = `/chambers/${encodeURIComponent(chamberId)}/steps/${step}/answer`;
+    const response = await apiFetch(`${this.baseUrl}${path}`, { method: "POST", body: JSON.stringify({ answer }), signal });
+    return response.json();
+  }
+}
+
+export const chambers = new ChamberClient();
@@ -0,0 +1,29 @@
+import type { ConfigKey } from "../lib/config";
+import type { ConfigReport } from "../types";
+import { apiFetch } from "./http";
+import type { AvailableModels } from "./providers";
+
+/**
+ * REST client for the runtime settings under /api/config.
+ */
+export class ConfigClient {
+  constructor(private baseUrl = "/api") {}
+
+  async get(): Promise<ConfigReport> {
+    const response = await apiFetch(`${this.baseUrl}/config`);
+    return response.json();
+  }
+
+  async models(refresh = false): Promise<AvailableModels> {
+    const response = await apiFetch(`${this.baseUrl}/config/models${refresh ? "?refresh=true" : ""}`);
+    return response.json();
+  }
+
+  // null resets a setting to its default
+  async update(patch: Partial<Record<ConfigKey, unknown>>): Promise<ConfigReport> {
+    const response = await apiFetch(`${this.baseUrl}/config`, { method: "PATCH", body: JSON.stringify(patch) });
+    return response.json();
+  }
+}
+
+export const config = new ConfigClient();
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { ConversationMemory, Message } from "../types";
+import { estimateTokens, messageTokens, planContext, type ContextPolicy } from "./context";
+import { DEFAULT_HISTORY_POLICY } from "./history";
+
+const POLICY: ContextPolicy = { tokenBudget: 10, keepRecentTurns: 2 };
+
+// Alternating user and model messages of two tokens each, ids "1".."n"
+function conversation(length: number): Message[] {
+  return Array.from({ length }, (_, i) => ({
+    id: String(i + 1),
+    role: i % 2 === 0 ? "user" : "glados",
+    content: "x".repeat(8),
+    timestamp: 0,
+  }));
+}
+
+const ids = (messages: Message[]) => messages.map(m => m.id);
+
+describe("planContext", () => {
+  it("sends everything verbatim within the budget", () => {
+    const plan = planContext(conversation(4), undefined, DEFAULT_HISTORY_POLICY, POLICY);
+    expect(ids(plan.verbatim)).toEqual(["1", "2", "3", "4"]);
+    expect(plan.toSummarize).toEqual([]);
+    expect(plan.tokens).toBe(8);
+  });
+
+  it("summarizes the older turns once over the budget, keeping the recent ones", () => {
+    const plan = planContext(conversation(6), undefined, DEFAULT_HISTORY_POLICY, POLICY);
+    expect(ids(plan.toSummarize)).toEqual(["1", "2", "3", "4"]);
+    expect(ids(plan.verbatim)).toEqual(["5", "6"]);
+    expect(plan.tokens).toBe(12);
+  });
+
+  it("starts the verbatim turns on a user message", () => {
+    const plan = planContext(conversation(6), undefined, DEFAULT_HISTORY_POLICY, { ...POLICY, keepRecentTurns: 3 });
+    expect(ids(plan.verbatim)).toEqual(["5", "6"]);
+  });
+
+  it("never summarizes the recent turns, however long they are", () => {
+    const long = conversation(2).map(m => ({ ...m, content: "x".repeat(400) }));
+    expect(planContext(long, undefined, DEFAULT_HISTORY_POLICY, POLICY).toSummarize).toEqual([]);
+  });
+
+  it("skips what the summary already covers and counts the summary itself", () => {
+    const memory: ConversationMemory = { summary: "x".repeat(8), throughId: "2", summarizedTurns: 2, updatedAt: 0 };
+    const plan = planContext(conversation(6), memory, DEFAULT_HISTORY_POLICY, POLICY);
+    expect(ids(plan.verbatim)).toEqual(["3", "4", "5", "6"]);
+    expect(plan.toSummarize).toEqual([]);
+    expect(plan.tokens).toBe(10);
+  });
+
+  it("leaves out the turns the history policy hides", () => {
+    const history = conversation(4).map((m, i) => i < 2 ? { ...m, isSecret: true } : m);
+    expect(ids(planContext(history, undefined, DEFAULT_HISTORY_POLICY, POLICY).verbatim)).toEqual(["3", "4"]);
+    expect(ids(planContext(history, undefined, { ...DEFAULT_HISTORY_POLICY, includeSecret: true }, POLICY).verbatim)).toEqual(["1", "2", "3", "4"]);
+  });
+});
+
+describe("messageTokens", () => {
+  it("adds a flat cost per attachment", () => {
+    const message: Message = { id: "1", role: "user", content: "abcd", timestamp: 0 };
+    expect(estimateTokens("abcde")).toBe(2);
+    expect(messageTokens({ ...message, attachments: [{ id: "a", name: "a.png", mimeType: "image/png", size: 1 }] }))
+      .toBeGreaterThan(messageTokens(message));
+  });
+});
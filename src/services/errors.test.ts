@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { AuthError, classifyError, createError, NetworkError, QuotaError, TimeoutError } from './errors';
+
+// An SDK ApiError as the providers throw it
+function apiError(status: number, message: string) {
+  return Object.assign(new Error(message), { status });
+}
+
+describe('classifyError', () => {
+  it('classifies by HTTP status', () => {
+    expect(classifyError(apiError(401, 'Nope')).kind).toBe('AUTH');
+    expect(classifyError(apiError(403, 'Nope')).kind).toBe('AUTH');
+    expect(classifyError(apiError(429, 'Slow down')).kind).toBe('QUOTA');
+    expect(classifyError(apiError(404, 'Gone')).kind).toBe('MODEL_NOT_FOUND');
+    expect(classifyError(apiError(504, 'Gateway')).kind).toBe('TIMEOUT');
+    expect(classifyError(apiError(503, 'Unavailable')).kind).toBe('NETWORK');
+  });
+
+  it('classifies by message when there is no status', () => {
+    expect(classifyError(new Error('API key not valid. Please pass a valid API key.')).kind).toBe('AUTH');
+    expect(classifyError(new Error('RESOURCE_EXHAUSTED: quota exceeded')).kind).toBe('QUOTA');
+    expect(classifyError(new Error('models/gemini-9 is not found')).kind).toBe('MODEL_NOT_FOUND');
+    expect(classifyError(new Error('Deadline exceeded')).kind).toBe('TIMEOUT');
+    expect(classifyError(new Error('connect ECONNREFUSED 127.0.0.1:443')).kind).toBe('NETWORK');
+    expect(classifyError(new Error('Response was blocked due to SAFETY')).kind).toBe('SAFETY');
+  });
+
+  it('treats a failed fetch and an aborted timeout signal as such', () => {
+    expect(classifyError(new TypeError('Failed to fetch'))).toBeInstanceOf(NetworkError);
+    expect(classifyError(new DOMException('The operation timed out.', 'TimeoutError'))).toBeInstanceOf(TimeoutError);
+  });
+
+  it('keeps the original error as the cause and marks what may be retried', () => {
+    const original = apiError(429, 'Slow down');
+    const error = classifyError(original);
+    expect(error).toBeInstanceOf(QuotaError);
+    expect(error.cause).toBe(original);
+    expect(error.retryable).toBe(true);
+    expect(classifyError(apiError(401, 'Nope')).retryable).toBe(false);
+  });
+
+  it('returns typed errors unchanged and anything else as UNKNOWN', () => {
+    const typed = new AuthError('Bad key');
+    expect(classifyError(typed)).toBe(typed);
+    const unknown = classifyError('something odd');
+    expect(unknown.kind).toBe('UNKNOWN');
+    expect(unknown.message).toBe('something odd');
+  });
+});
+
+describe('createError', () => {
+  it('rebuilds the typed error of a serialized kind', () => {
+    const error = createError('QUOTA', 'Slow down');
+    expect(error).toBeInstanceOf(QuotaError);
+    expect(error.message).toBe('Slow down');
+  });
+});
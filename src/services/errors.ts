@@ -0,0 +1,104 @@
+export type GladosErrorKind =
+  | 'AUTH'
+  | 'QUOTA'
+  | 'SAFETY'
+  | 'NETWORK'
+  | 'MODEL_NOT_FOUND'
+  | 'TIMEOUT'
+  | 'CIRCUIT_OPEN'
+  | 'UNKNOWN';
+
+export class GladosError extends Error {
+  readonly kind: GladosErrorKind = 'UNKNOWN';
+  readonly retryable: boolean = false;
+
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class AuthError extends GladosError {
+  readonly kind = 'AUTH';
+}
+
+export class QuotaError extends GladosError {
+  readonly kind = 'QUOTA';
+  readonly retryable = true;
+}
+
+export class SafetyBlockError extends GladosError {
+  readonly kind = 'SAFETY';
+}
+
+export class NetworkError extends GladosError {
+  readonly kind = 'NETWORK';
+  readonly retryable = true;
+}
+
+export class ModelNotFoundError extends GladosError {
+  readonly kind = 'MODEL_NOT_FOUND';
+}
+
+export class TimeoutError extends GladosError {
+  readonly kind = 'TIMEOUT';
+  readonly retryable = true;
+}
+
+export class CircuitOpenError extends GladosError {
+  readonly kind = 'CIRCUIT_OPEN';
+}
+
+/**
+ * Maps whatever a provider threw (SDK ApiError, fetch TypeError,
+ * DOMException from an aborted signal) onto the typed errors above.
+ */
+export function classifyError(error: any): GladosError {
+  if (error instanceof GladosError) return error;
+
+  const status = typeof error?.status === 'number' ? error.status : error?.code;
+  const message: string = error?.message || String(error);
+
+  if (error?.name === 'TimeoutError') {
+    return new TimeoutError("The request timed out.", error);
+  }
+  if (status === 401 || status === 403 || /api key|permission denied|unauthenticated/i.test(message)) {
+    return new AuthError(message, error);
+  }
+  if (status === 429 || error?.status === 'RESOURCE_EXHAUSTED' || /quota|rate limit|resource_exhausted/i.test(message)) {
+    return new QuotaError(message, error);
+  }
+  if (status === 404 || /not found|is not supported for/i.test(message)) {
+    return new ModelNotFoundError(message, error);
+  }
+  if (status === 504 || /deadline|timed? ?out/i.test(message)) {
+    return new TimeoutError(message, error);
+  }
+  if (
+    error instanceof TypeError ||
+    (typeof status === 'number' && status >= 500) ||
+    /fetch failed|failed to fetch|network|ECONNREFUSED|ENOTFOUND|ECONNRESET/i.test(message)
+  ) {
+    return new NetworkError(message, error);
+  }
+  if (/safety|blocked/i.test(message)) {
+    return new SafetyBlockError(message, error);
+  }
+  return new GladosError(message, error);
+}
+
+const ERROR_CLASSES: Record<GladosErrorKind, new (message: string) => GladosError> = {
+  AUTH: AuthError,
+  QUOTA: QuotaError,
+  SAFETY: SafetyBlockError,
+  NETWORK: NetworkError,
+  MODEL_NOT_FOUND: ModelNotFoundError,
+  TIMEOUT: TimeoutError,
+  CIRCUIT_OPEN: CircuitOpenError,
+  UNKNOWN: GladosError,
+};
+
+// Rebuilds a typed error from its serialized form, e.g. a JSON error body from the API server
+export function createError(kind: GladosErrorKind, message: string): GladosError {
+  return new (ERROR_CLASSES[kind] || GladosError)(message);
+}
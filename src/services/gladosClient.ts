@@ -0,0 +1,95 @@
+import { classifyError, createError } from "./errors";
+import type { ChatChunk, ChatOptions, ChatReply, GladosApi } from "./gladosService";
+import { DEFAULT_HISTORY_POLICY, trimAttachments } from "./history";
+import { apiFetch } from "./http";
+import { readServerSentEvents } from "./sse";
+
+/**
+ * Browser-side GladosApi that talks to the Express server in server.ts.
+ * The API key and provider configuration only ever live on the server.
+ */
+export class RemoteGladosService implements GladosApi {
+  constructor(private baseUrl = "/api") {}
+
+  private post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    return apiFetch(`${this.baseUrl}${path}`, { method: "POST", body: JSON.stringify(body), signal });
+  }
+
+  private chatBody(message: string, customInstruction?: string, options: ChatOptions = {}) {
+    // Attachment data the server would trim anyway is not worth uploading
+    const budget = options.historyPolicy?.attachmentBudget ?? DEFAULT_HISTORY_POLICY.attachmentBudget;
+    // Nor are the turns the conversation summary already covers
+    const covered = options.memory ? (options.history?.findIndex(m => m.id === options.memory!.throughId) ?? -1) : -1;
+    return {
+      message,
+      customInstruction,
+      history: options.history && trimAttachments(options.history.slice(covered + 1), budget),
+      attachments: options.attachments,
+      historyPolicy: options.historyPolicy,
+      voice: options.voice,
+      speechHint: options.speechHint,
+      tools: options.tools,
+      toolTurns: options.toolTurns,
+      memory: options.memory,
+    };
+  }
+
+  async chat(message: string, customInstruction?: string, options?: ChatOptions): Promise<ChatReply> {
+    const response = await this.post("/chat", this.chatBody(message, customInstruction, options), options?.signal);
+    return response.json();
+  }
+
+  async *chatStream(message: string, customInstruction?: string, options?: ChatOptions): AsyncGenerator<ChatChunk> {
+    const signal = options?.signal;
+    let response: Response;
+    try {
+      response = await this.post("/chat/stream", this.chatBody(message, customInstruction, options), signal);
+    } catch (error) {
+      // Cancelled by the caller: stop quietly, like the in-process service
+      if (signal?.aborted) return;
+      throw error;
+    }
+    if (!response.body) return;
+
+    try {
+      for await (const { event, data } of readServerSentEvents(response.body)) {
+        const payload = JSON.parse(data);
+        if (event === "error") throw createError(payload.kind, payload.message);
+        yield payload as ChatChunk;
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw classifyError(error);
+    }
+  }
+
+  async getCachedAudio(text: string, personalityHint?: string, voice?: string): Promise<string | undefined> {
+    try {
+      const response = await this.post("/tts/cached", { text, personalityHint, voice });
+      const { audioBase64 } = await response.json();
+      return audioBase64;
+    } catch (error) {
+      console.error("Audio cache lookup failed:", error);
+      return undefined;
+    }
+  }
+
+  async transcribe(audioBase64: string, mimeType: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.post("/transcribe", { audio: audioBase64, mimeType }, signal);
+    const { text } = await response.json();
+    return text;
+  }
+
+  async generateAudio(text: string, personalityHint?: string, signal?: AbortSignal, voice?: string): Promise<string | undefined> {
+    try {
+      const response = await this.post("/tts", { text, personalityHint, voice }, signal);
+      const { audioBase64 } = await response.json();
+      return audioBase64;
+    } catch (error) {
+      if (!signal?.aborted) console.error("Audio generation failed:", error);
+      return undefined;
+    }
+  }
+}
+
+export const glados = new RemoteGladosService();
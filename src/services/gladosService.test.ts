@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+import { GladosService } from "./gladosService";
+import type { ModelProvider } from "./providers";
+
+// A provider that streams the given chunks and has no speech
+function streamingProvider(chunks: string[]): ModelProvider {
+  return {
+    name: "fake",
+    textModel: "fake-text",
+    setModels: () => {},
+    listModels: async () => ({ text: [], speech: [] }),
+    generateText: async () => "{}",
+    async *streamText() {
+      for (const text of chunks) yield { text };
+    },
+    generateSpeech: async () => undefined,
+    transcribe: async () => "",
+    embed: async () => undefined,
+  };
+}
+
+async function streamedTexts(chunks: string[]): Promise<string[]> {
+  const service = new GladosService(streamingProvider(chunks));
+  service.setGuardrails({ onViolation: vi.fn() });
+  const texts: string[] = [];
+  for await (const chunk of service.chatStream("")) {
+    if (chunk.text !== undefined) texts.push(chunk.text);
+  }
+  return texts;
+}
+
+describe("chatStream", () => {
+  it("never shows part of a secret that arrives over several chunks", async () => {
+    const key = `AIza${"x".repeat(35)}`;
+    const texts = await streamedTexts(["The key is ", key.slice(0, 10), key.slice(10, 38), key.slice(38), " and that is all."]);
+    texts.forEach(text => expect(text).not.toContain("AIza"));
+    expect(texts[texts.length - 1]).toBe("The key is [REDACTED] and that is all.");
+  });
+
+  it("shows the held-back last word once the stream ends", async () => {
+    const texts = await streamedTexts(["Hello, ", "test subject"]);
+    expect(texts).toContain("Hello, test ");
+    expect(texts[texts.length - 1]).toBe("Hello, test subject");
+  });
+
+  it("redacts a secret that ends the reply", async () => {
+    const key = `sk-${"y".repeat(24)}`;
+    const texts = await streamedTexts(["Use ", key.slice(0, 12), key.slice(12)]);
+    texts.forEach(text => expect(text).not.toContain("sk-"));
+    expect(texts[texts.length - 1]).toBe("Use [REDACTED]");
+  });
+});
@@ -1,129 +1,640 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { GRADE_SCHEMA, GRADER_PROMPT, parseGrade, type Grade, type GradeRequest } from "../lib/chambers";
+import { BASE_RULES, checkPersonaText, DEFAULT_BLOCKED_OUTPUT_PATTERNS, describeViolation, personaBlock, redactOutput, settledText, type GuardrailViolation } from "../lib/guardrails";
+import { MOOD_CLASSIFIER_PROMPT, MOOD_SCHEMA, parseMoodMetadata, type MoodMetadata } from "../lib/mood";
+import type { Attachment, Citation, Clearance, ConversationMemory, ExchangeMetrics, Message, TokenUsage } from "../types";
+import { DEFAULT_CONTEXT_POLICY, memoryBlocks, planContext, SUMMARY_PROMPT, summaryRequest, type ContextPolicy } from "./context";
+import { classifyError, GladosError, SafetyBlockError } from "./errors";
+import { buildContents, DEFAULT_HISTORY_POLICY, type HistoryPolicy } from "./history";
+import { citedPassages, knowledgeBlocks, MAX_PASSAGES, type Passage } from "./knowledge";
+import { createProvider, type AvailableModels, type ChatTurn, type EmbeddingTask, type ModelProvider, type ProviderModels, type ToolCallPart, type ToolDeclaration } from "./providers";
+import { backoffDelay, CircuitBreaker, DEFAULT_RETRY_POLICY, sleep, withRetry, type RetryPolicy } from "./resilience";
+import { splitSentences } from "./sentences";
 
 const ASSISTANT_PERSONA = `You are a helpful, monotone AI assistant. 
 Personality: Helpful, efficient, strictly monotone, clinical.
 Voice: Monotone, calm, devoid of emotion.
-Constraints: Concise responses. Do not roleplay as GLaDOS. Refer to the user as "User".
-Creator: If asked who created you or who your creator is, you must state that it is Stefan Kakindiros.`;
-
-export class GladosService {
-  private ai: GoogleGenAI;
-  private textModel = "gemini-3-flash-preview";
-  private ttsModel = "gemini-2.5-flash-preview-tts";
-
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY is missing");
-    }
-    // Use v1beta for TTS support
-    this.ai = new GoogleGenAI({ apiKey, apiVersion: 'v1beta' });
+Constraints: Concise responses. Do not roleplay as GLaDOS. Refer to the user as "User".`;
+
+export interface ChatOptions {
+  history?: Message[];
+  attachments?: Attachment[]; // Files sent with this message as inline data
+  historyPolicy?: Partial<HistoryPolicy>;
+  signal?: AbortSignal;
+  voice?: string;       // Prebuilt TTS voice for this reply
+  speechHint?: string;  // TTS personality hint; defaults to the custom instruction
+  tools?: ToolDeclaration[];  // Terminal commands the model may call (chatStream only)
+  toolTurns?: ChatTurn[];     // Earlier tool calls and their results for this message
+  memory?: ConversationMemory; // Summary of the turns before the verbatim history
+  knowledgeClearance?: Clearance; // Knowledge base documents readable at this clearance; set by the server from the login
+}
+
+export interface ChatChunk {
+  text?: string;
+  audioBase64?: string;
+  done?: boolean;
+  // Set on the final chunk when the model wants tools run before it can finish
+  toolCalls?: ToolCallPart[];
+  // The assistant's reaction to the message, sent once it has been classified
+  mood?: MoodMetadata;
+  // Set on the final chunk
+  metrics?: ExchangeMetrics;
+  // Sent first when older turns were rolled into the summary; the caller keeps it for the next message
+  memory?: ConversationMemory;
+  // Set on the final chunk when the reply cited knowledge base passages
+  citations?: Citation[];
+}
+
+export interface ChatReply {
+  text: string;
+  audioBase64?: string;
+  memory?: ConversationMemory;
+  citations?: Citation[];
+}
+
+// Implemented both by the service itself (server side) and by the HTTP client in the browser
+export interface GladosApi {
+  chat(message: string, customInstruction?: string, options?: ChatOptions): Promise<ChatReply>;
+  chatStream(message: string, customInstruction?: string, options?: ChatOptions): AsyncGenerator<ChatChunk>;
+  generateAudio(text: string, personalityHint?: string, signal?: AbortSignal, voice?: string): Promise<string | undefined>;
+  // Cached audio only; never calls the TTS model
+  getCachedAudio(text: string, personalityHint?: string, voice?: string): Promise<string | undefined>;
+  transcribe(audioBase64: string, mimeType: string, signal?: AbortSignal): Promise<string>;
+}
+
+export interface SpeechCacheKey {
+  text: string;
+  personalityHint?: string;
+  voice: string;
+  model: string;
+}
+
+export interface SpeechCache {
+  get(key: SpeechCacheKey): string | undefined;
+  set(key: SpeechCacheKey, audioBase64: string): void;
+}
+
+// Receives token counts of every model call, e.g. to enforce a daily budget
+export interface UsageSink {
+  record(usage: TokenUsage): void;
+}
+
+// Finds passages relevant to a message in the local document store
+export interface KnowledgeBase {
+  search(query: string, options: { clearance: Clearance; limit: number; signal?: AbortSignal }): Promise<Passage[]>;
+}
+
+export interface Embeddings {
+  model: string; // As in GladosService.embeddingModel
+  vectors: number[][];
+}
+
+export interface GuardrailOptions {
+  blockedOutput: RegExp[]; // Matches in model output are replaced with [REDACTED]
+  onViolation(violation: GuardrailViolation): void;
+}
+
+// Counters for one reply's speech requests
+interface SpeechStats {
+  requests: number;
+  latency: number; // ms
+  retries: number;
+}
+
+export class GladosService implements GladosApi {
+  private provider: ModelProvider;
+  private voice = "Zephyr";
+  private historyPolicy: HistoryPolicy = { ...DEFAULT_HISTORY_POLICY };
+  private contextPolicy: ContextPolicy = { ...DEFAULT_CONTEXT_POLICY };
+  private retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+  private textTimeout = 60000;
+  private speechTimeout = 30000;
+  private transcriptionTimeout = 30000;
+  private moodTimeout = 10000;
+  private embeddingTimeout = 30000;
+  private textCircuit = new CircuitBreaker("Text generation");
+  private speechCircuit = new CircuitBreaker("Speech synthesis");
+  private transcriptionCircuit = new CircuitBreaker("Transcription");
+  private moodCircuit = new CircuitBreaker("Mood classification");
+  private embeddingCircuit = new CircuitBreaker("Embeddings");
+  private speechCache?: SpeechCache;
+  private usageSink?: UsageSink;
+  private knowledgeBase?: KnowledgeBase;
+  private guardrails: GuardrailOptions = {
+    blockedOutput: DEFAULT_BLOCKED_OUTPUT_PATTERNS,
+    onViolation: violation => console.warn("Guardrail violation:", violation),
+  };
+
+  constructor(provider: ModelProvider = createProvider()) {
+    this.provider = provider;
+  }
+
+  get providerName() {
+    return this.provider.name;
+  }
+
+  // What stored vectors are tagged with, so vectors from different models are never compared
+  get embeddingModel(): string | undefined {
+    return this.provider.embeddingModel && `${this.provider.name}/${this.provider.embeddingModel}`;
+  }
+
+  get textModel() {
+    return this.provider.textModel;
+  }
+
+  get speechModel() {
+    return this.provider.speechModel;
   }
 
-  private async withRetry<T>(fn: () => Promise<T>, retries = 1, delay = 500): Promise<T> {
+  setProvider(provider: ModelProvider) {
+    this.provider = provider;
+  }
+
+  setModels(models: Partial<ProviderModels>) {
+    this.provider.setModels(models);
+  }
+
+  // Default TTS voice when a request doesn't name one
+  setVoice(voice: string) {
+    this.voice = voice;
+  }
+
+  // What the provider can run, e.g. to validate a model name before switching to it
+  listModels(signal?: AbortSignal): Promise<AvailableModels> {
+    return withRetry(() => this.provider.listModels(this.withTimeout(signal, this.textTimeout)), this.retryPolicy, signal);
+  }
+
+  setSpeechCache(cache: SpeechCache | undefined) {
+    this.speechCache = cache;
+  }
+
+  setGuardrails(options: Partial<GuardrailOptions>) {
+    this.guardrails = { ...this.guardrails, ...options };
+  }
+
+  setUsageSink(sink: UsageSink | undefined) {
+    this.usageSink = sink;
+  }
+
+  setKnowledgeBase(knowledgeBase: KnowledgeBase | undefined) {
+    this.knowledgeBase = knowledgeBase;
+  }
+
+  // Reports usage to the sink and adds it to an exchange's metrics, if given
+  private usageHandler(metrics?: ExchangeMetrics) {
+    return (usage: TokenUsage) => {
+      this.usageSink?.record(usage);
+      if (!metrics) return;
+      metrics.requests++;
+      metrics.promptTokens += usage.promptTokens;
+      metrics.responseTokens += usage.responseTokens;
+    };
+  }
+
+  private speechCacheKey(text: string, personalityHint?: string, voice = this.voice): SpeechCacheKey {
+    return {
+      text,
+      personalityHint,
+      voice,
+      model: `${this.provider.name}/${this.provider.speechModel ?? "none"}`,
+    };
+  }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>) {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  setHistoryPolicy(policy: Partial<HistoryPolicy>) {
+    this.historyPolicy = { ...this.historyPolicy, ...policy };
+  }
+
+  setContextPolicy(policy: Partial<ContextPolicy>) {
+    this.contextPolicy = { ...this.contextPolicy, ...policy };
+  }
+
+  private effectiveHistoryPolicy(options: ChatOptions = {}): HistoryPolicy {
+    return { ...this.historyPolicy, ...options.historyPolicy };
+  }
+
+  private buildContents(message: string, options: ChatOptions = {}, history = options.history || []) {
+    return [
+      ...buildContents(history, message, this.effectiveHistoryPolicy(options), options.attachments),
+      ...(options.toolTurns || []),
+    ];
+  }
+
+  /**
+   * Picks the verbatim history for a request and, once the conversation
+   * exceeds the context budget, rolls older turns into the running summary.
+   * Summarizing is best-effort: if it fails the turns are sent verbatim and
+   * the usual history trimming applies.
+   */
+  private async prepareContext(options: ChatOptions = {}, onUsage = this.usageHandler()): Promise<{ history: Message[]; memory?: ConversationMemory; updated?: ConversationMemory }> {
+    const plan = planContext(options.history || [], options.memory, this.effectiveHistoryPolicy(options), this.contextPolicy);
+    if (plan.toSummarize.length === 0) return { history: plan.verbatim, memory: options.memory };
+
     try {
-      return await fn();
-    } catch (error: any) {
-      const isQuotaError = error.status === "RESOURCE_EXHAUSTED" || error.code === 429 || error.message?.includes("quota");
-      if (retries > 0 && isQuotaError) {
-        console.warn(`Quota exceeded. Retrying in ${delay}ms... (${retries} retries left)`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return this.withRetry(fn, retries - 1, delay * 2);
-      }
-      throw error;
+      const summary = await this.textCircuit.run(() => this.provider.generateText({
+        systemInstruction: SUMMARY_PROMPT,
+        contents: [{ role: "user", parts: [{ text: summaryRequest(options.memory, plan.toSummarize) }] }],
+        onUsage,
+        signal: this.withTimeout(options.signal, this.textTimeout),
+      }));
+      if (!summary.trim()) throw new Error("Summarizer returned nothing");
+      const updated: ConversationMemory = {
+        summary: summary.trim(),
+        throughId: plan.toSummarize[plan.toSummarize.length - 1].id,
+        summarizedTurns: (options.memory?.summarizedTurns ?? 0) + plan.toSummarize.length,
+        updatedAt: Date.now(),
+      };
+      return { history: plan.verbatim, memory: updated, updated };
+    } catch (error) {
+      if (!options.signal?.aborted) console.warn("Context summarization failed, sending the history verbatim:", classifyError(error));
+      return { history: [...plan.toSummarize, ...plan.verbatim], memory: options.memory };
     }
   }
 
-  async chat(message: string, customInstruction?: string): Promise<{ text: string; audioBase64?: string }> {
+  /**
+   * Knowledge base passages for a message. Retrieval is best-effort like
+   * summarizing: if it fails the model answers without them.
+   */
+  private async retrieve(message: string, options: ChatOptions = {}): Promise<Passage[]> {
+    if (!this.knowledgeBase || !message.trim()) return [];
     try {
-      const systemInstruction = customInstruction 
-        ? `You are an AI assistant with the following personality: ${customInstruction}. Maintain this persona strictly in all responses.`
-        : ASSISTANT_PERSONA;
-
-      // 1. Generate text response
-      const textResponse = await this.ai.models.generateContent({
-        model: this.textModel,
-        contents: [{ parts: [{ text: message }] }],
-        config: {
-          systemInstruction,
-        },
+      return await this.knowledgeBase.search(message, {
+        clearance: options.knowledgeClearance ?? "visitor",
+        limit: MAX_PASSAGES,
+        signal: options.signal,
       });
+    } catch (error) {
+      if (!options.signal?.aborted) console.warn("Knowledge base search failed, answering without it:", classifyError(error));
+      return [];
+    }
+  }
 
-      const text = textResponse.text || "I am processing your request.";
+  /**
+   * The base rules and the persona as separate blocks. Custom persona text
+   * is untrusted: it is checked first and rejected with a SafetyBlockError
+   * if it tries to override the rules.
+   */
+  private systemInstruction(customInstruction?: string): string[] {
+    if (!customInstruction) return [BASE_RULES, ASSISTANT_PERSONA];
+    const violation = checkPersonaText(customInstruction);
+    if (violation) {
+      this.guardrails.onViolation(violation);
+      throw new SafetyBlockError(describeViolation(violation));
+    }
+    return [BASE_RULES, personaBlock(customInstruction)];
+  }
 
-      // 2. Generate audio from text
-      const audioBase64 = await this.generateAudio(text, customInstruction);
+  // Speech style hints are persona text too; one that fails the checks is dropped, not fatal
+  private speechHint(hint: string | undefined): string | undefined {
+    const violation = hint ? checkPersonaText(hint, 'speech-style') : undefined;
+    if (!violation) return hint;
+    this.guardrails.onViolation(violation);
+    return undefined;
+  }
 
-      return { text, audioBase64 };
-    } catch (error: any) {
-      console.error("Assistant Error:", error);
-      return { 
-        text: "An error occurred in my processing unit.",
-        audioBase64: undefined
-      };
-    }
+  // Model output with blocked patterns redacted; violations are logged once per screener
+  private outputScreener() {
+    let reported = 0;
+    return (text: string) => {
+      const { text: safe, violations } = redactOutput(text, this.guardrails.blockedOutput);
+      violations.slice(reported).forEach(v => this.guardrails.onViolation(v));
+      reported = Math.max(reported, violations.length);
+      return safe;
+    };
+  }
+
+  // The caller's signal combined with a per-request deadline
+  private withTimeout(signal: AbortSignal | undefined, ms: number): AbortSignal {
+    const timeout = AbortSignal.timeout(ms);
+    return signal ? AbortSignal.any([signal, timeout]) : timeout;
   }
 
-  async *chatStream(message: string, customInstruction?: string): AsyncGenerator<{ text?: string; audioBase64?: string; done?: boolean }> {
+  /**
+   * Generates a complete reply. Failures are thrown as typed GladosErrors
+   * once retries are exhausted.
+   */
+  async chat(message: string, customInstruction?: string, options?: ChatOptions): Promise<ChatReply> {
+    const signal = options?.signal;
+    const systemInstruction = this.systemInstruction(customInstruction);
+    const context = await this.prepareContext(options);
+    const passages = await this.retrieve(message, options);
+    const contents = this.buildContents(message, options, context.history);
+
+    // 1. Generate text response
+    const textResponse = await withRetry(() => this.textCircuit.run(() => this.provider.generateText({
+      systemInstruction: [...systemInstruction, ...memoryBlocks(context.memory), ...knowledgeBlocks(passages)],
+      contents,
+      onUsage: this.usageHandler(),
+      signal: this.withTimeout(signal, this.textTimeout),
+    })), this.retryPolicy, signal);
+
+    const text = this.outputScreener()(textResponse) || "I am processing your request.";
+
+    // 2. Generate audio from text
+    const audioBase64 = await this.generateAudio(text, options?.speechHint ?? customInstruction, signal, options?.voice);
+
+    const citations = citedPassages(text, passages);
+    return {
+      text,
+      audioBase64,
+      ...(context.updated ? { memory: context.updated } : {}),
+      ...(citations.length > 0 ? { citations } : {}),
+    };
+  }
+
+  /**
+   * Streams a reply. Errors before the first chunk are retried with
+   * backoff; anything after that (or non-retryable) is thrown as a typed
+   * GladosError so the caller can keep the partial text.
+   *
+   * When `tools` are given the model may end its turn with tool calls
+   * instead of an answer. They arrive on the final chunk; the caller runs
+   * them and streams again with the calls and results in `toolTurns`.
+   *
+   * The final chunk carries token counts and timings for this call, and
+   * the knowledge base passages the reply cited.
+   */
+  async *chatStream(message: string, customInstruction?: string, options?: ChatOptions): AsyncGenerator<ChatChunk> {
+    const signal = options?.signal;
+    const systemInstruction = this.systemInstruction(customInstruction);
+    const screen = this.outputScreener();
+    const speechHint = this.speechHint(options?.speechHint ?? customInstruction);
+    const startedAt = Date.now();
+    const metrics: ExchangeMetrics = { promptTokens: 0, responseTokens: 0, requests: 0, totalTime: 0, ttsRequests: 0, ttsLatency: 0, retries: 0 };
+    const speechStats: SpeechStats = { requests: 0, latency: 0, retries: 0 };
+
+    const context = await this.prepareContext(options, this.usageHandler(metrics));
+    if (signal?.aborted) return;
+    if (context.updated) yield { memory: context.updated };
+    // Tool rounds search again with the same message, so they see the same passages
+    const passages = await this.retrieve(message, options);
+    if (signal?.aborted) return;
+    const contents = this.buildContents(message, options, context.history);
+
     let fullText = "";
-    try {
-      const systemInstruction = customInstruction 
-        ? `You are an AI assistant with the following personality: ${customInstruction}. Maintain this persona strictly in all responses.`
-        : ASSISTANT_PERSONA;
-
-      // 1. Stream text response
-      const responseStream = await this.ai.models.generateContentStream({
-        model: this.textModel,
-        contents: [{ parts: [{ text: message }] }],
-        config: {
-          systemInstruction,
-        },
-      });
+    let visibleText = ""; // fullText as screened by the guardrails; the only version that leaves the service
+    let unspoken = "";
+    const toolCalls: ToolCallPart[] = [];
+    // Classified alongside the first round only; later rounds answer the same message
+    let pendingMood: { promise: Promise<MoodMetadata | undefined>; settled: boolean } | undefined;
+    if (message.trim() && !options?.toolTurns?.length) {
+      const entry = { promise: this.classifyMood(message, signal, this.usageHandler(metrics)), settled: false };
+      entry.promise.finally(() => { entry.settled = true; });
+      pendingMood = entry;
+    }
+    const takeMood = async () => {
+      const mood = await pendingMood?.promise;
+      pendingMood = undefined;
+      return mood ? { mood } : undefined;
+    };
+    // TTS requests run while text is still streaming; results are yielded in sentence order
+    const pendingAudio: { promise: Promise<string | undefined>; settled: boolean }[] = [];
+
+    const speak = (segment: string) => {
+      const entry = { promise: this.synthesize(redactOutput(segment, this.guardrails.blockedOutput).text, speechHint, signal, options?.voice, speechStats), settled: false };
+      entry.promise.finally(() => { entry.settled = true; });
+      pendingAudio.push(entry);
+    };
 
-      for await (const chunk of responseStream) {
-        const textChunk = chunk.text;
-        if (textChunk) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        this.textCircuit.guard();
+
+        // 1. Stream text response
+        const responseStream = this.provider.streamText({
+          systemInstruction: [...systemInstruction, ...memoryBlocks(context.memory), ...knowledgeBlocks(passages)],
+          contents,
+          tools: options?.tools,
+          onUsage: this.usageHandler(metrics),
+          signal: this.withTimeout(signal, this.textTimeout),
+        });
+
+        for await (const part of responseStream) {
+          if ("functionCall" in part) {
+            toolCalls.push(part);
+            continue;
+          }
+          const textChunk = part.text;
+          metrics.timeToFirstToken ??= Date.now() - startedAt;
           fullText += textChunk;
-          yield { text: fullText };
+          // The trailing word is held back until it is complete, so a partial secret never slips past the patterns
+          visibleText = screen(settledText(fullText));
+          yield { text: visibleText };
+
+          // 2. Request audio for every sentence that is now complete
+          const { sentences, rest } = splitSentences(unspoken + textChunk);
+          unspoken = rest;
+          sentences.forEach(speak);
+
+          while (pendingAudio.length > 0 && pendingAudio[0].settled) {
+            const audioBase64 = await pendingAudio.shift()!.promise;
+            if (audioBase64) yield { text: visibleText, audioBase64 };
+          }
+
+          if (pendingMood?.settled) {
+            const mood = await takeMood();
+            if (mood) yield mood;
+          }
+        }
+        this.textCircuit.recordSuccess();
+        break;
+      } catch (error) {
+        // Cancelled by the caller: stop quietly and keep whatever text was produced
+        if (signal?.aborted) return;
+        this.textCircuit.recordFailure(error);
+        const typed = classifyError(error);
+        if (fullText || toolCalls.length > 0 || !typed.retryable || attempt >= this.retryPolicy.retries) throw typed;
+        const delay = backoffDelay(attempt, this.retryPolicy);
+        metrics.retries++;
+        console.warn(`${typed.kind} error. Retrying stream in ${Math.round(delay)}ms...`);
+        try {
+          await sleep(delay, signal);
+        } catch {
+          return;
         }
       }
+    }
 
-      // 2. Generate audio for the full response once text is complete
-      const audioBase64 = await this.generateAudio(fullText, customInstruction);
-      yield { text: fullText, audioBase64, done: true };
+    visibleText = screen(fullText);
 
-    } catch (error: any) {
-      console.error("Assistant Stream Error:", error);
-      const result = await this.chat(message);
-      yield { ...result, done: true };
+    // 3. Speak whatever is left and drain the queue in order
+    if (unspoken.trim()) speak(unspoken.trim());
+    while (pendingAudio.length > 0 && !signal?.aborted) {
+      const audioBase64 = await pendingAudio.shift()!.promise;
+      if (audioBase64) yield { text: visibleText, audioBase64 };
     }
+    const mood = await takeMood();
+    if (mood && !signal?.aborted) yield mood;
+
+    metrics.totalTime = Date.now() - startedAt;
+    metrics.ttsRequests = speechStats.requests;
+    metrics.ttsLatency = speechStats.latency;
+    metrics.retries += speechStats.retries;
+    const citations = citedPassages(visibleText, passages);
+    yield {
+      text: visibleText,
+      done: true,
+      metrics,
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      ...(citations.length > 0 ? { citations } : {}),
+    };
   }
 
-  async generateAudio(text: string, personalityHint?: string): Promise<string | undefined> {
+  /**
+   * Classifies how the assistant reacts to a message with a small
+   * structured call. Best-effort like speech: failures are logged and
+   * resolve to undefined so the UI can fall back to keyword matching.
+   */
+  async classifyMood(message: string, signal?: AbortSignal, onUsage = this.usageHandler()): Promise<MoodMetadata | undefined> {
+    if (signal?.aborted) return undefined;
     try {
-      const ttsPrompt = personalityHint 
-        ? `Speak the following text as a character with this personality: ${personalityHint}. Text: ${text}`
-        : `Say in a monotone, clinical voice: ${text}`;
-
-      // Specialized TTS model for high-quality native audio
-      const response = await this.withRetry(() => this.ai.models.generateContent({
-        model: this.ttsModel,
-        contents: [{ parts: [{ text: ttsPrompt }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: 'Zephyr' },
-            },
-          },
-        },
+      const json = await this.moodCircuit.run(() => this.provider.generateText({
+        systemInstruction: MOOD_CLASSIFIER_PROMPT,
+        contents: [{ role: "user", parts: [{ text: message }] }],
+        responseSchema: MOOD_SCHEMA,
+        onUsage,
+        signal: this.withTimeout(signal, this.moodTimeout),
       }));
+      return parseMoodMetadata(JSON.parse(json));
+    } catch (error) {
+      if (signal?.aborted) return undefined;
+      console.warn("Mood classification failed:", classifyError(error));
+      return undefined;
+    }
+  }
+
+  /**
+   * Grades a test chamber answer against its rubric with a small
+   * structured call. Unlike mood classification the caller needs the
+   * verdict, so failures are thrown like chat errors.
+   */
+  async gradeAnswer({ question, rubric, answer }: GradeRequest, signal?: AbortSignal): Promise<Grade> {
+    const json = await withRetry(() => this.textCircuit.run(() => this.provider.generateText({
+      systemInstruction: GRADER_PROMPT,
+      contents: [{ role: "user", parts: [{ text: `Question: ${question}\nRubric: ${rubric}\nAnswer: ${answer}` }] }],
+      responseSchema: GRADE_SCHEMA,
+      onUsage: this.usageHandler(),
+      signal: this.withTimeout(signal, this.textTimeout),
+    })), this.retryPolicy, signal);
+    let grade: Grade | undefined;
+    try {
+      grade = parseGrade(JSON.parse(json));
+    } catch {
+      // Not JSON; reported below like any other malformed verdict
+    }
+    if (!grade) throw new GladosError("The grader returned no verdict.");
+    return { ...grade, comment: this.outputScreener()(grade.comment) };
+  }
+
+  /**
+   * Embeds texts for the knowledge base. Best-effort: resolves to
+   * undefined when the backend has no embedding model or the call fails,
+   * and the knowledge base falls back to keyword search.
+   */
+  async embed(texts: string[], task: EmbeddingTask, signal?: AbortSignal): Promise<Embeddings | undefined> {
+    const model = this.embeddingModel;
+    if (!model || texts.length === 0 || signal?.aborted) return undefined;
+    try {
+      const vectors = await this.embeddingCircuit.run(() => this.provider.embed({
+        texts,
+        task,
+        signal: this.withTimeout(signal, this.embeddingTimeout),
+      }));
+      return vectors && { model, vectors };
+    } catch (error) {
+      if (signal?.aborted) return undefined;
+      console.warn("Embedding failed:", classifyError(error));
+      return undefined;
+    }
+  }
+
+  /**
+   * Speech is best-effort: failures are logged and resolve to undefined
+   * so the UI can fall back to browser speech synthesis.
+   */
+  async generateAudio(text: string, personalityHint?: string, signal?: AbortSignal, voice = this.voice): Promise<string | undefined> {
+    return this.synthesize(text, this.speechHint(personalityHint), signal, voice);
+  }
+
+  // generateAudio, counting requests that reach the provider and their retries into `stats`
+  private async synthesize(text: string, personalityHint?: string, signal?: AbortSignal, voice = this.voice, stats?: SpeechStats): Promise<string | undefined> {
+    if (signal?.aborted) return undefined;
+    const cacheKey = this.speechCacheKey(text, personalityHint, voice);
+    const cached = this.speechCache?.get(cacheKey);
+    if (cached) return cached;
+
+    const requestedAt = Date.now();
+    if (stats) stats.requests++;
+    try {
+      const style = personalityHint 
+        ? `as a character with this personality: ${personalityHint}`
+        : `in a monotone, clinical voice`;
 
-      return response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
+      const audioBase64 = await withRetry(attempt => {
+        if (stats && attempt > 0) stats.retries++;
+        return this.speechCircuit.run(() => this.provider.generateSpeech({
+          text,
+          style,
+          voice,
+          signal: this.withTimeout(signal, this.speechTimeout),
+        }));
+      }, { ...this.retryPolicy, retries: Math.min(this.retryPolicy.retries, 1) }, signal);
+
+      if (audioBase64) this.speechCache?.set(cacheKey, audioBase64);
+      return audioBase64;
     } catch (error) {
-      console.error("Audio generation failed:", error);
+      if (signal?.aborted) return undefined;
+      console.error("Audio generation failed:", classifyError(error));
       return undefined;
+    } finally {
+      if (stats) stats.latency += Date.now() - requestedAt;
+    }
+  }
+
+  async getCachedAudio(text: string, personalityHint?: string, voice?: string): Promise<string | undefined> {
+    return this.speechCache?.get(this.speechCacheKey(text, personalityHint, voice));
+  }
+
+  /**
+   * Turns recorded speech into text. Unlike speech synthesis there is no
+   * fallback, so failures are thrown as typed GladosErrors.
+   */
+  async transcribe(audioBase64: string, mimeType: string, signal?: AbortSignal): Promise<string> {
+    return withRetry(() => this.transcriptionCircuit.run(() => this.provider.transcribe({
+      audio: audioBase64,
+      mimeType,
+      onUsage: this.usageHandler(),
+      signal: this.withTimeout(signal, this.transcriptionTimeout),
+    })), this.retryPolicy, signal);
+  }
+
+  /**
+   * Synthesizes any lines missing from the speech cache, one at a time,
+   * in the default voice and each of `voices` (the personas' own, which
+   * command lines are played in). Stops at the first failure so a
+   * rate-limited key isn't hammered.
+   */
+  async prewarmSpeech(lines: { text: string; hint?: string }[], voices: string[] = [], signal?: AbortSignal): Promise<{ cached: number; generated: number; failed: boolean }> {
+    const result = { cached: 0, generated: 0, failed: false };
+    if (!this.speechCache) return result;
+
+    for (const voice of new Set([this.voice, ...voices])) {
+      for (const { text, hint } of lines) {
+        if (signal?.aborted) return result;
+        if (this.speechCache.get(this.speechCacheKey(text, hint, voice))) {
+          result.cached++;
+          continue;
+        }
+        if (!(await this.generateAudio(text, hint, signal, voice))) {
+          result.failed = true;
+          return result;
+        }
+        result.generated++;
+      }
     }
+    return result;
   }
 }
 
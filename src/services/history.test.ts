@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { Attachment, Message } from "../types";
+import { buildContents, DEFAULT_HISTORY_POLICY } from "./history";
+
+let nextId = 0;
+function message(role: Message["role"], content: string, extra: Partial<Message> = {}): Message {
+  return { id: String(++nextId), role, content, timestamp: 0, ...extra };
+}
+
+function attachment(name: string, size: number): Attachment {
+  return { id: name, name, mimeType: "text/plain", size, data: "ZGF0YQ==" };
+}
+
+describe("buildContents", () => {
+  it("alternates the transcript and ends with the new message", () => {
+    const history = [message("user", "Hello"), message("glados", "Oh. It's you.")];
+    expect(buildContents(history, "Is there cake?")).toEqual([
+      { role: "user", parts: [{ text: "Hello" }] },
+      { role: "model", parts: [{ text: "Oh. It's you." }] },
+      { role: "user", parts: [{ text: "Is there cake?" }] },
+    ]);
+  });
+
+  it("leaves out command output together with the command that printed it", () => {
+    const history = [
+      message("user", "Hello"),
+      message("glados", "Hi."),
+      message("user", "STATUS"),
+      message("glados", "# SYSTEM STATUS", { isLocal: true }),
+    ];
+    expect(buildContents(history, "And now?")).toEqual([
+      { role: "user", parts: [{ text: "Hello" }] },
+      { role: "model", parts: [{ text: "Hi." }] },
+      { role: "user", parts: [{ text: "And now?" }] },
+    ]);
+  });
+
+  it("keeps restricted turns only when the policy allows them", () => {
+    const history = [message("user", "The vents?", { isSecret: true }), message("glados", "Open.", { isSecret: true })];
+    expect(buildContents(history, "Hi")).toHaveLength(1);
+    expect(buildContents(history, "Hi", { ...DEFAULT_HISTORY_POLICY, includeSecret: true })).toHaveLength(3);
+  });
+
+  it("merges consecutive turns from the same side and opens with the user", () => {
+    const history = [message("glados", "Welcome."), message("user", "One"), message("user", "Two")];
+    expect(buildContents(history, "Three")).toEqual([
+      { role: "user", parts: [{ text: "One" }, { text: "Two" }, { text: "Three" }] },
+    ]);
+  });
+
+  it("keeps only the most recent turns, still opening with the user", () => {
+    const history = [message("user", "1"), message("glados", "2"), message("user", "3"), message("glados", "4")];
+    const contents = buildContents(history, "5", { ...DEFAULT_HISTORY_POLICY, maxTurns: 4 });
+    expect(contents.map(turn => turn.parts)).toEqual([[{ text: "3" }], [{ text: "4" }], [{ text: "5" }]]);
+  });
+
+  it("replaces the oldest attachments with placeholders once over the budget", () => {
+    const history = [
+      message("user", "Old", { attachments: [attachment("old.txt", 60)] }),
+      message("glados", "Noted."),
+      message("user", "New", { attachments: [attachment("new.txt", 30)] }),
+      message("glados", "Noted again."),
+    ];
+    const contents = buildContents(history, "Both?", { ...DEFAULT_HISTORY_POLICY, attachmentBudget: 100 }, [attachment("now.txt", 20)]);
+    expect(contents[0].parts).toEqual([{ text: "Old" }, { text: "[Attached file: old.txt (no longer available)]" }]);
+    expect(contents[2].parts[2]).toEqual({ inlineData: { mimeType: "text/plain", data: "ZGF0YQ==" } });
+    expect(contents[4].parts).toEqual([
+      { text: "Both?" },
+      { text: "[Attached file: now.txt]" },
+      { inlineData: { mimeType: "text/plain", data: "ZGF0YQ==" } },
+    ]);
+  });
+});
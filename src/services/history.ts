@@ -0,0 +1,110 @@
+import type { Attachment, Message } from "../types";
+import type { ChatPart, ChatTurn } from "./providers";
+
+export interface HistoryPolicy {
+  includeLocal: boolean;  // Terminal command output and the input that triggered it
+  includeSecret: boolean; // Turns recorded while restricted mode was active
+  maxTurns: number;       // Most recent turns to keep (0 = unlimited)
+  attachmentBudget: number; // Bytes of attachment data sent inline; older attachments become placeholders
+}
+
+export const DEFAULT_HISTORY_POLICY: HistoryPolicy = {
+  includeLocal: false,
+  includeSecret: false,
+  maxTurns: 40,
+  attachmentBudget: 16 * 1024 * 1024,
+};
+
+/**
+ * Drops the data of the oldest attachments once the newest ones use up
+ * `budget` bytes. Messages without changes are returned as-is.
+ */
+export function trimAttachments(history: Message[], budget: number): Message[] {
+  let remaining = budget;
+  return history
+    .slice()
+    .reverse()
+    .map(msg => {
+      if (!msg.attachments?.some(a => a.data)) return msg;
+      const attachments = msg.attachments.map(a => {
+        if (!a.data) return a;
+        if (a.size <= remaining) {
+          remaining -= a.size;
+          return a;
+        }
+        const { data, ...rest } = a;
+        return rest;
+      });
+      return attachments.every((a, i) => a === msg.attachments![i]) ? msg : { ...msg, attachments };
+    })
+    .reverse();
+}
+
+function attachmentParts(attachments: Attachment[] = []): ChatPart[] {
+  return attachments.flatMap((a): ChatPart[] => a.data
+    ? [{ text: `[Attached file: ${a.name}]` }, { inlineData: { mimeType: a.mimeType, data: a.data } }]
+    : [{ text: `[Attached file: ${a.name} (no longer available)]` }]);
+}
+
+// The messages of the transcript that the policy lets the model see
+export function filterHistory(history: Message[], policy: HistoryPolicy = DEFAULT_HISTORY_POLICY): Message[] {
+  const kept: Message[] = [];
+
+  history.forEach((msg) => {
+    if (msg.isLocal && !policy.includeLocal) {
+      // Drop the command that produced this output as well
+      if (kept.length > 0 && kept[kept.length - 1].role === 'user') kept.pop();
+      return;
+    }
+    if (msg.isSecret && !policy.includeSecret) return;
+    if (!msg.content.trim() && !msg.attachments?.length) return;
+    kept.push(msg);
+  });
+  return kept;
+}
+
+/**
+ * Converts the terminal transcript into multi-turn model contents,
+ * ending with the new user message and its attachments.
+ */
+export function buildContents(
+  history: Message[],
+  message: string,
+  policy: HistoryPolicy = DEFAULT_HISTORY_POLICY,
+  attachments: Attachment[] = []
+): ChatTurn[] {
+  const kept = filterHistory(history, policy);
+
+  const current = attachments.reduce((sum, a) => sum + a.size, 0);
+  const turns = [
+    ...trimAttachments(kept, Math.max(0, policy.attachmentBudget - current)).map(m => ({
+      role: m.role === 'user' ? 'user' as const : 'model' as const,
+      text: m.content,
+      attachments: m.attachments,
+    })),
+    { role: 'user' as const, text: message, attachments },
+  ];
+
+  const contents: ChatTurn[] = [];
+  turns.forEach(({ role, text, attachments }) => {
+    const parts: ChatPart[] = [...(text.trim() ? [{ text }] : []), ...attachmentParts(attachments)];
+    if (parts.length === 0) return;
+    const last = contents[contents.length - 1];
+    // Merge consecutive turns from the same side so roles always alternate
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  });
+
+  // A conversation must open with a user turn
+  while (contents.length > 1 && contents[0].role === 'model') contents.shift();
+
+  if (policy.maxTurns > 0 && contents.length > policy.maxTurns) {
+    let trimmed = contents.slice(-policy.maxTurns);
+    if (trimmed[0].role === 'model') trimmed = trimmed.slice(1);
+    return trimmed;
+  }
+  return contents;
+}
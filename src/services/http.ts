@@ -0,0 +1,38 @@
+import { classifyError, createError, type GladosErrorKind } from "./errors";
+
+// The current login's token, sent with every request; the server treats requests without one as a visitor's
+let authToken: string | undefined;
+
+export function setAuthToken(token: string | undefined) {
+  authToken = token;
+}
+
+/**
+ * fetch() against the API server that turns transport failures and JSON
+ * error bodies (`{ error: { kind, message } }`) into typed GladosErrors.
+ * Aborts are rethrown untouched so callers can tell them apart.
+ */
+export async function apiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: {
+        ...(init.body ? { "Content-Type": "application/json" } : {}),
+        ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+        ...init.headers,
+      },
+    });
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw classifyError(error);
+  }
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw payload?.error
+      ? createError(payload.error.kind as GladosErrorKind, payload.error.message)
+      : classifyError({ status: response.status, message: response.statusText });
+  }
+  return response;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { bm25Scores, chunkText, citedPassages, tokenize, type Passage } from "./knowledge";
+
+describe("chunkText", () => {
+  it("keeps a short text in one chunk, with whitespace tidied", () => {
+    expect(chunkText("First  paragraph.\r\n\r\nSecond\tparagraph.")).toEqual(["First paragraph.\n\nSecond paragraph."]);
+  });
+
+  it("packs paragraphs up to the size and starts each chunk with the tail of the one before", () => {
+    const chunks = chunkText("aaaa bbbb\n\ncccc dddd\n\neeee ffff", { size: 20, overlap: 5 });
+    expect(chunks).toEqual(["aaaa bbbb\n\ncccc dddd", "dddd\n\neeee ffff"]);
+  });
+
+  it("splits an over-long paragraph at whitespace", () => {
+    const words = Array.from({ length: 30 }, (_, i) => `word${i}`).join(" ");
+    const chunks = chunkText(words, { size: 50, overlap: 0 });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.length <= 50)).toBe(true);
+    expect(chunks.join(" ").replace(/\n\n/g, " ")).toBe(words);
+  });
+});
+
+describe("bm25Scores", () => {
+  const documents = [
+    "The cake is a lie.",
+    "Neurotoxin levels are nominal. Neurotoxin vents are sealed.",
+    "Turrets are friendly.",
+  ];
+
+  it("scores only the documents containing a query term", () => {
+    const [cake, neurotoxin, turrets] = bm25Scores("neurotoxin", documents);
+    expect(neurotoxin).toBeGreaterThan(0);
+    expect(cake).toBe(0);
+    expect(turrets).toBe(0);
+  });
+
+  it("ranks more occurrences and rarer terms higher", () => {
+    const [twice, once] = bm25Scores("cake", ["cake cake pie", "cake pie pie"]);
+    expect(twice).toBeGreaterThan(once);
+    // "pie" is in more documents than "cake", so it weighs less
+    const [rare, common] = bm25Scores("cake pie", ["cake tart", "pie tart", "pie flan"]);
+    expect(rare).toBeGreaterThan(common);
+  });
+
+  it("ignores stopwords and gives zeros for an empty query", () => {
+    expect(tokenize("Where is the Cake?")).toEqual(["cake"]);
+    expect(bm25Scores("the and of", documents)).toEqual([0, 0, 0]);
+    expect(bm25Scores("cake", [])).toEqual([]);
+  });
+});
+
+describe("citedPassages", () => {
+  const passage = (name: string, text: string): Passage => ({ documentId: name, name, text, score: 1 });
+
+  it("returns the passages the reply cited, with the numbers it used", () => {
+    const passages = [passage("a.md", "Alpha."), passage("b.md", "Beta."), passage("c.md", "Gamma.")];
+    expect(citedPassages("Beta is first [2], then gamma [3][2].", passages)).toEqual([
+      { index: 2, documentId: "b.md", name: "b.md", excerpt: "Beta." },
+      { index: 3, documentId: "c.md", name: "c.md", excerpt: "Gamma." },
+    ]);
+  });
+
+  it("ignores numbers with no passage and shortens long excerpts", () => {
+    const long = passage("long.md", "x".repeat(300));
+    const [citation, ...rest] = citedPassages("See [1] and [7].", [long]);
+    expect(rest).toEqual([]);
+    expect(citation.excerpt).toBe(`${"x".repeat(200)}…`);
+  });
+});
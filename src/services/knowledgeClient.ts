@@ -0,0 +1,35 @@
+import type { KnowledgeDocument } from "../types";
+import { apiFetch } from "./http";
+
+/**
+ * REST client for the knowledge base documents under /api/knowledge.
+ */
+export class KnowledgeClient {
+  constructor(private baseUrl = "/api") {}
+
+  private async json<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await apiFetch(`${this.baseUrl}${path}`, init);
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
+  // Only the documents the current login may read
+  list(): Promise<KnowledgeDocument[]> {
+    return this.json("/knowledge");
+  }
+
+  add(name: string, content: string): Promise<KnowledgeDocument> {
+    return this.json("/knowledge", { method: "POST", body: JSON.stringify({ name, content }) });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.json(`/knowledge/${encodeURIComponent(id)}`, { method: "DELETE" });
+  }
+
+  // Embeds any chunks still missing vectors; resolves to how many were embedded
+  async reindex(): Promise<number> {
+    const { embedded } = await this.json<{ embedded: number }>("/knowledge/reindex", { method: "POST" });
+    return embedded;
+  }
+}
+
+export const knowledge = new KnowledgeClient();
@@ -0,0 +1,120 @@
+import { bytesToBase64, encodeWav } from "../lib/wav";
+
+export interface RecorderOptions {
+  onAudio?: (samples: Float32Array) => void; // Raw frames as they are captured
+  keepAudio?: boolean;                        // Buffer frames for stop(); off for continuous listening
+}
+
+export interface Recording {
+  audioBase64: string;
+  mimeType: string;
+  duration: number; // Seconds
+}
+
+/**
+ * Captures microphone audio through the app's AudioContext, exposing the
+ * live input level for visualization and returning a WAV on stop.
+ */
+export class MicrophoneRecorder {
+  private stream?: MediaStream;
+  private source?: MediaStreamAudioSourceNode;
+  private analyser?: AnalyserNode;
+  private processor?: ScriptProcessorNode;
+  private sink?: GainNode;
+  private levelData?: Uint8Array;
+  private chunks: Float32Array[] = [];
+  private sampleCount = 0;
+
+  constructor(private context: AudioContext, private options: RecorderOptions = {}) {}
+
+  get sampleRate() {
+    return this.context.sampleRate;
+  }
+
+  get isRecording() {
+    return !!this.stream;
+  }
+
+  // Seconds captured so far
+  get duration() {
+    return this.sampleCount / this.context.sampleRate;
+  }
+
+  async start(): Promise<void> {
+    if (this.stream) return;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+    });
+    if (this.context.state === "suspended") await this.context.resume();
+
+    this.stream = stream;
+    this.chunks = [];
+    this.sampleCount = 0;
+    this.source = this.context.createMediaStreamSource(stream);
+
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 512;
+    this.levelData = new Uint8Array(this.analyser.fftSize);
+
+    // ScriptProcessorNode is deprecated, but unlike an AudioWorklet it needs no separately served module
+    this.processor = this.context.createScriptProcessor(4096, 1, 1);
+    this.processor.onaudioprocess = (event) => {
+      const samples = new Float32Array(event.inputBuffer.getChannelData(0));
+      this.options.onAudio?.(samples);
+      if (this.options.keepAudio !== false) this.chunks.push(samples);
+      this.sampleCount += samples.length;
+    };
+
+    // The processor only runs while connected to the destination; a silent gain keeps the mic out of the speakers
+    this.sink = this.context.createGain();
+    this.sink.gain.value = 0;
+
+    this.source.connect(this.analyser);
+    this.source.connect(this.processor);
+    this.processor.connect(this.sink);
+    this.sink.connect(this.context.destination);
+  }
+
+  // RMS input level from 0 to 1, amplified the same way as the playback visualizer
+  level(): number {
+    if (!this.analyser || !this.levelData) return 0;
+    this.analyser.getByteTimeDomainData(this.levelData);
+    let sum = 0;
+    for (let i = 0; i < this.levelData.length; i++) {
+      const value = (this.levelData[i] - 128) / 128;
+      sum += value * value;
+    }
+    return Math.min(1, Math.sqrt(sum / this.levelData.length) * 8);
+  }
+
+  // Stops capturing and returns what was recorded, or undefined if nothing was
+  stop(): Recording | undefined {
+    if (!this.stream) return undefined;
+    const duration = this.duration;
+    const samples = new Float32Array(this.sampleCount);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+    const sampleRate = this.context.sampleRate;
+    this.release();
+
+    if (samples.length === 0) return undefined;
+    return { audioBase64: bytesToBase64(encodeWav(samples, sampleRate)), mimeType: "audio/wav", duration };
+  }
+
+  // Stops capturing and discards the audio
+  cancel() {
+    this.release();
+  }
+
+  private release() {
+    if (this.processor) this.processor.onaudioprocess = null;
+    [this.source, this.analyser, this.processor, this.sink].forEach(node => node?.disconnect());
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = this.source = this.analyser = this.processor = this.sink = this.levelData = undefined;
+    this.chunks = [];
+    this.sampleCount = 0;
+  }
+}
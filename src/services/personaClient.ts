@@ -0,0 +1,36 @@
+import type { PersonaProfile } from "../types";
+import { apiFetch } from "./http";
+
+/**
+ * REST client for persona profiles served under /api/personas.
+ */
+export class PersonaClient {
+  constructor(private baseUrl = "/api") {}
+
+  private async json<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await apiFetch(`${this.baseUrl}${path}`, init);
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
+  list(): Promise<PersonaProfile[]> {
+    return this.json("/personas");
+  }
+
+  save(persona: Omit<PersonaProfile, 'id'>): Promise<PersonaProfile> {
+    return this.json("/personas", { method: "PUT", body: JSON.stringify(persona) });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.json(`/personas/${encodeURIComponent(id)}`, { method: "DELETE" });
+  }
+
+  import(personas: unknown[]): Promise<PersonaProfile[]> {
+    return this.json("/personas/import", { method: "POST", body: JSON.stringify({ personas }) });
+  }
+
+  export(): Promise<{ personas: PersonaProfile[] }> {
+    return this.json("/personas/export");
+  }
+}
+
+export const personas = new PersonaClient();
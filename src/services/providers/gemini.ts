@@ -0,0 +1,180 @@
+import { FinishReason, GoogleGenAI, Modality, type GenerateContentResponse } from "@google/genai";
+import { AuthError, SafetyBlockError } from "../errors";
+import type { TokenUsage } from "../../types";
+import type { AvailableModels, EmbeddingRequest, ModelProvider, ProviderModels, SpeechRequest, StreamPart, TextRequest, ToolDeclaration, TranscriptionRequest } from "./types";
+
+const BLOCKING_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+function assertNotBlocked(response: GenerateContentResponse) {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason))) {
+    throw new SafetyBlockError(`Response blocked by safety filters (${blockReason || finishReason}).`);
+  }
+}
+
+// Thinking tokens are billed as output, so they count towards the response
+function toUsage(response: GenerateContentResponse): TokenUsage | undefined {
+  const usage = response.usageMetadata;
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.promptTokenCount ?? 0,
+    responseTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+  };
+}
+
+function toGeminiTools(tools: ToolDeclaration[] | undefined) {
+  if (!tools?.length) return undefined;
+  return [{
+    functionDeclarations: tools.map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parametersJsonSchema: parameters,
+    })),
+  }];
+}
+
+export class GeminiProvider implements ModelProvider {
+  readonly name = "gemini";
+  private apiKey?: string;
+  private ai?: GoogleGenAI;
+  textModel = "gemini-3-flash-preview";
+  speechModel?: string = "gemini-2.5-flash-preview-tts";
+  readonly embeddingModel = "gemini-embedding-001";
+
+  constructor(apiKey: string | undefined) {
+    this.apiKey = apiKey;
+  }
+
+  // Created on first use so a missing key surfaces as a typed error instead of crashing at import
+  private get client(): GoogleGenAI {
+    if (!this.apiKey) {
+      throw new AuthError("GEMINI_API_KEY is missing");
+    }
+    // Use v1beta for TTS support
+    this.ai ??= new GoogleGenAI({ apiKey: this.apiKey, apiVersion: 'v1beta' });
+    return this.ai;
+  }
+
+  setModels({ textModel, speechModel }: Partial<ProviderModels>) {
+    if (textModel) this.textModel = textModel;
+    if (speechModel !== undefined) this.speechModel = speechModel || undefined;
+  }
+
+  // TTS models are reported as content generators too; they are told apart by name
+  async listModels(signal?: AbortSignal): Promise<AvailableModels> {
+    const models: AvailableModels = { text: [], speech: [] };
+    const pager = await this.client.models.list({ config: { pageSize: 100, abortSignal: signal } });
+    for await (const model of pager) {
+      const name = model.name?.replace(/^models\//, "");
+      if (!name || !model.supportedActions?.includes("generateContent")) continue;
+      models[name.includes("-tts") ? "speech" : "text"].push(name);
+    }
+    return models;
+  }
+
+  async generateText({ systemInstruction, contents, responseSchema, onUsage, signal }: TextRequest): Promise<string> {
+    const response = await this.client.models.generateContent({
+      model: this.textModel,
+      contents,
+      config: {
+        systemInstruction,
+        abortSignal: signal,
+        ...(responseSchema ? { responseMimeType: "application/json", responseJsonSchema: responseSchema } : {}),
+      },
+    });
+    assertNotBlocked(response);
+    const usage = toUsage(response);
+    if (usage) onUsage?.(usage);
+    return response.text || "";
+  }
+
+  async *streamText({ systemInstruction, contents, tools, onUsage, signal }: TextRequest): AsyncGenerator<StreamPart> {
+    const responseStream = await this.client.models.generateContentStream({
+      model: this.textModel,
+      contents,
+      config: {
+        systemInstruction,
+        tools: toGeminiTools(tools),
+        abortSignal: signal,
+      },
+    });
+
+    // Every chunk carries the running totals; the last one is final
+    let usage: TokenUsage | undefined;
+    for await (const chunk of responseStream) {
+      assertNotBlocked(chunk);
+      usage = toUsage(chunk) ?? usage;
+      for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+        if (part.functionCall?.name) {
+          const { id, name, args = {} } = part.functionCall;
+          yield { functionCall: { id, name, args }, thoughtSignature: part.thoughtSignature };
+        } else if (part.text && !part.thought) {
+          yield { text: part.text };
+        }
+      }
+    }
+    if (usage) onUsage?.(usage);
+  }
+
+  async generateSpeech({ text, style, voice, signal }: SpeechRequest): Promise<string | undefined> {
+    if (!this.speechModel) return undefined;
+
+    // Specialized TTS model for high-quality native audio
+    const response = await this.client.models.generateContent({
+      model: this.speechModel,
+      contents: [{ parts: [{ text: `Speak the following text ${style}. Text: ${text}` }] }],
+      config: {
+        abortSignal: signal,
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: voice },
+          },
+        },
+      },
+    });
+
+    return response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
+  }
+
+  async transcribe({ audio, mimeType, onUsage, signal }: TranscriptionRequest): Promise<string> {
+    // Audio understanding on the text model; there is no separate speech-to-text endpoint
+    const response = await this.client.models.generateContent({
+      model: this.textModel,
+      contents: [{
+        role: "user",
+        parts: [
+          { text: "Transcribe this recording verbatim. Reply with the transcript only, or with nothing if no one is speaking." },
+          { inlineData: { mimeType, data: audio } },
+        ],
+      }],
+      config: { abortSignal: signal },
+    });
+    assertNotBlocked(response);
+    const usage = toUsage(response);
+    if (usage) onUsage?.(usage);
+    return (response.text || "").trim();
+  }
+
+  async embed({ texts, task, signal }: EmbeddingRequest): Promise<number[][] | undefined> {
+    const response = await this.client.models.embedContent({
+      model: this.embeddingModel,
+      contents: texts,
+      config: {
+        abortSignal: signal,
+        taskType: task === 'query' ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT",
+        // Truncated vectors are plenty for a local document store and a quarter of the size
+        outputDimensionality: 768,
+      },
+    });
+    const vectors = response.embeddings?.map(e => e.values ?? []);
+    if (vectors?.length !== texts.length) throw new Error(`Expected ${texts.length} embeddings, got ${vectors?.length ?? 0}`);
+    return vectors;
+  }
+}
@@ -0,0 +1,27 @@
+import { GeminiProvider } from "./gemini";
+import { OpenAICompatibleProvider } from "./openai";
+import type { ModelProvider } from "./types";
+
+export * from "./types";
+export { GeminiProvider, OpenAICompatibleProvider };
+
+/**
+ * Picks the backend from GLADOS_PROVIDER ("gemini" by default, or "local"
+ * for an OpenAI-compatible server such as Ollama).
+ */
+export function createProvider(): ModelProvider {
+  switch (process.env.GLADOS_PROVIDER) {
+    case 'local':
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.LOCAL_LLM_URL,
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        textModel: process.env.LOCAL_LLM_MODEL,
+        ttsModel: process.env.LOCAL_TTS_MODEL,
+        sttModel: process.env.LOCAL_STT_MODEL,
+        embedModel: process.env.LOCAL_EMBED_MODEL,
+      });
+    default:
+      return new GeminiProvider(process.env.GEMINI_API_KEY);
+  }
+}
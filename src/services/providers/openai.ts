@@ -0,0 +1,239 @@
+import { readServerSentEvents } from "../sse";
+import { ModelNotFoundError } from "../errors";
+import type { TokenUsage } from "../../types";
+import type { AvailableModels, ChatTurn, EmbeddingRequest, ModelProvider, ProviderModels, SpeechRequest, StreamPart, TextRequest, ToolCall, ToolDeclaration, TranscriptionRequest } from "./types";
+
+// Text attachments are inlined as text; images use the vision content format
+function decodeText(base64: string): string {
+  return new TextDecoder().decode(Uint8Array.from(atob(base64), c => c.charCodeAt(0)));
+}
+
+function toUsage(usage: { prompt_tokens?: number; completion_tokens?: number } | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return { promptTokens: usage.prompt_tokens ?? 0, responseTokens: usage.completion_tokens ?? 0 };
+}
+
+type ContentPart = { type: "text"; text: string } | { type: "image_url"; image_url: { url: string } };
+
+function toContent(parts: ChatTurn["parts"]): string | ContentPart[] {
+  const content = parts.flatMap((p): ContentPart[] => {
+    if ("text" in p) return p.text ? [{ type: "text", text: p.text }] : [];
+    if (!("inlineData" in p)) return [];
+    const { mimeType, data } = p.inlineData;
+    if (mimeType.startsWith("image/")) return [{ type: "image_url", image_url: { url: `data:${mimeType};base64,${data}` } }];
+    if (mimeType === "text/plain") return [{ type: "text", text: decodeText(data) }];
+    return [{ type: "text", text: `[${mimeType} attachment not supported by this backend]` }];
+  });
+  // Plain strings for text-only turns; not every server accepts content arrays
+  return content.every(c => c.type === "text") ? content.map(c => c.text).join("\n") : content;
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl?: string;  // e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string;
+  textModel?: string;
+  ttsModel?: string; // Leave unset for backends without /audio/speech
+  sttModel?: string; // Whisper-style /audio/transcriptions model, e.g. whisper-1
+  embedModel?: string; // /embeddings model, e.g. nomic-embed-text; unset falls back to keyword search
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API:
+ * Ollama, llama.cpp, LM Studio, vLLM or OpenAI itself.
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly name = "openai-compatible";
+  private baseUrl: string;
+  private apiKey?: string;
+  textModel: string;
+  speechModel?: string;
+  private transcriptionModel?: string;
+  readonly embeddingModel?: string;
+
+  constructor(config: OpenAICompatibleConfig = {}) {
+    this.baseUrl = (config.baseUrl || "http://localhost:11434/v1").replace(/\/+$/, "");
+    this.apiKey = config.apiKey;
+    this.textModel = config.textModel || "llama3.2";
+    this.speechModel = config.ttsModel;
+    this.transcriptionModel = config.sttModel;
+    this.embeddingModel = config.embedModel;
+  }
+
+  // JSON bodies are serialized; FormData is sent as multipart
+  private async post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const isForm = body instanceof FormData;
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: "POST",
+      signal,
+      headers: {
+        ...(isForm ? {} : { "Content-Type": "application/json" }),
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: isForm ? body : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw Object.assign(new Error(`${this.name} request failed (${response.status}): ${detail}`), { code: response.status });
+    }
+    return response;
+  }
+
+  setModels({ textModel, speechModel }: Partial<ProviderModels>) {
+    if (textModel) this.textModel = textModel;
+    if (speechModel !== undefined) this.speechModel = speechModel || undefined;
+  }
+
+  // The API doesn't say what a model can do, so every model is offered for both
+  async listModels(signal?: AbortSignal): Promise<AvailableModels> {
+    const response = await fetch(`${this.baseUrl}/models`, {
+      signal,
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+    });
+    if (!response.ok) {
+      throw Object.assign(new Error(`${this.name} request failed (${response.status}): ${await response.text().catch(() => "")}`), { code: response.status });
+    }
+    const json = await response.json();
+    const ids: string[] = (json.data || []).map((m: { id: string }) => m.id).filter(Boolean);
+    return { text: ids, speech: ids };
+  }
+
+  private toMessages({ systemInstruction, contents }: TextRequest) {
+    return [
+      ...[systemInstruction].flat().map(content => ({ role: "system", content })),
+      ...contents.flatMap((turn: ChatTurn) => {
+        const text = turn.parts.map(p => ("text" in p ? p.text : "")).filter(Boolean).join("\n");
+        const content = toContent(turn.parts);
+        const calls = turn.parts.flatMap(p => ("functionCall" in p ? [p.functionCall] : []));
+        const results = turn.parts.flatMap(p => ("functionResponse" in p ? [p.functionResponse] : []));
+
+        if (turn.role === "model") {
+          return [{
+            role: "assistant",
+            content: text,
+            ...(calls.length ? {
+              tool_calls: calls.map(call => ({
+                id: call.id,
+                type: "function",
+                function: { name: call.name, arguments: JSON.stringify(call.args) },
+              })),
+            } : {}),
+          }];
+        }
+        // Tool results become one "tool" message each
+        return [
+          ...results.map(result => ({ role: "tool", tool_call_id: result.id, content: JSON.stringify(result.response) })),
+          ...(content.length || !results.length ? [{ role: "user", content }] : []),
+        ];
+      }),
+    ];
+  }
+
+  private toTools(tools: ToolDeclaration[] | undefined) {
+    if (!tools?.length) return undefined;
+    return tools.map(({ name, description, parameters }) => ({
+      type: "function",
+      function: { name, description, parameters: parameters ?? { type: "object", properties: {} } },
+    }));
+  }
+
+  async generateText(request: TextRequest): Promise<string> {
+    const response = await this.post("/chat/completions", {
+      model: this.textModel,
+      messages: this.toMessages(request),
+      ...(request.responseSchema ? {
+        response_format: { type: "json_schema", json_schema: { name: "response", schema: request.responseSchema } },
+      } : {}),
+    }, request.signal);
+    const json = await response.json();
+    const usage = toUsage(json.usage);
+    if (usage) request.onUsage?.(usage);
+    return json.choices?.[0]?.message?.content || "";
+  }
+
+  async *streamText(request: TextRequest): AsyncGenerator<StreamPart> {
+    const response = await this.post("/chat/completions", {
+      model: this.textModel,
+      messages: this.toMessages(request),
+      tools: this.toTools(request.tools),
+      stream: true,
+      // Asks for a final chunk with token counts
+      stream_options: { include_usage: true },
+    }, request.signal);
+    if (!response.body) return;
+
+    // Tool call names and arguments arrive in fragments keyed by index
+    const calls: { id?: string; name: string; arguments: string }[] = [];
+    let usage: TokenUsage | undefined;
+
+    for await (const { data } of readServerSentEvents(response.body)) {
+      if (data === "[DONE]") break;
+      const json = JSON.parse(data);
+      usage = toUsage(json.usage) ?? usage;
+      const delta = json.choices?.[0]?.delta;
+      if (delta?.content) yield { text: delta.content };
+      for (const fragment of delta?.tool_calls || []) {
+        const call = calls[fragment.index ?? calls.length] ??= { name: "", arguments: "" };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+    }
+
+    for (const { id, name, arguments: args } of calls) {
+      if (!name) continue;
+      let parsed: ToolCall["args"] = {};
+      try {
+        parsed = args ? JSON.parse(args) : {};
+      } catch {
+        console.warn(`Ignoring malformed arguments for tool call ${name}:`, args);
+      }
+      yield { functionCall: { id, name, args: parsed } };
+    }
+    if (usage) request.onUsage?.(usage);
+  }
+
+  async generateSpeech({ text, style, voice, signal }: SpeechRequest): Promise<string | undefined> {
+    if (!this.speechModel) return undefined;
+
+    const response = await this.post("/audio/speech", {
+      model: this.speechModel,
+      input: text,
+      voice: voice.toLowerCase(),
+      instructions: `Speak ${style}.`,
+      response_format: "pcm", // 16-bit mono at 24kHz, same as Gemini TTS
+    }, signal);
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
+
+  async transcribe({ audio, mimeType, signal }: TranscriptionRequest): Promise<string> {
+    if (!this.transcriptionModel) {
+      throw new ModelNotFoundError(`${this.name} has no speech-to-text model. Set LOCAL_STT_MODEL.`);
+    }
+
+    const bytes = Uint8Array.from(atob(audio), c => c.charCodeAt(0));
+    const form = new FormData();
+    form.append("model", this.transcriptionModel);
+    form.append("file", new Blob([bytes], { type: mimeType }), `recording.${mimeType.split("/")[1] || "wav"}`);
+
+    const response = await this.post("/audio/transcriptions", form, signal);
+    const json = await response.json();
+    return (json.text || "").trim();
+  }
+
+  async embed({ texts, signal }: EmbeddingRequest): Promise<number[][] | undefined> {
+    if (!this.embeddingModel) return undefined;
+
+    const response = await this.post("/embeddings", { model: this.embeddingModel, input: texts }, signal);
+    const json = await response.json();
+    // Entries carry their input index; not every server returns them in order
+    const data: { index: number; embedding: number[] }[] = json.data || [];
+    if (data.length !== texts.length) throw new Error(`Expected ${texts.length} embeddings, got ${data.length}`);
+    return [...data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+  }
+}
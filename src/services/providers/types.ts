@@ -0,0 +1,102 @@
+import type { TokenUsage } from "../../types";
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+// Gemini 3 attaches a thought signature to function calls; it must be sent back unchanged
+export type ToolCallPart = { functionCall: ToolCall; thoughtSignature?: string };
+
+export type ChatPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | ToolCallPart
+  | { functionResponse: ToolResult };
+
+// A function the model may ask the caller to run. `parameters` is a JSON Schema object.
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters?: {
+    type: 'object';
+    properties: Record<string, { type: 'string' | 'number' | 'boolean'; description?: string; enum?: string[] }>;
+    required?: string[];
+  };
+}
+
+// Structurally compatible with Gemini's `Content`, so it can be passed through as-is.
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ChatPart[];
+}
+
+export interface TextRequest {
+  systemInstruction: string | string[]; // Several strings are sent as separate system blocks, most authoritative first
+  contents: ChatTurn[];
+  tools?: ToolDeclaration[];
+  responseSchema?: Record<string, unknown>; // JSON Schema the reply must match (generateText only)
+  onUsage?: (usage: TokenUsage) => void;    // Called once with token counts if the backend reports them
+  signal?: AbortSignal;
+}
+
+// Streamed model output: text deltas, then any tool calls the model wants made
+export type StreamPart = { text: string } | ToolCallPart;
+
+export interface SpeechRequest {
+  text: string;
+  style: string; // How the line should be delivered, e.g. "in a monotone, clinical voice"
+  voice: string;
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionRequest {
+  audio: string;    // Base64
+  mimeType: string; // e.g. audio/wav
+  onUsage?: (usage: TokenUsage) => void;
+  signal?: AbortSignal;
+}
+
+// Retrieval embeddings are asymmetric on some backends: stored passages and search queries are embedded differently
+export type EmbeddingTask = 'document' | 'query';
+
+export interface EmbeddingRequest {
+  texts: string[];
+  task: EmbeddingTask;
+  signal?: AbortSignal;
+}
+
+export interface ProviderModels {
+  textModel: string;
+  speechModel?: string; // Unset for backends without TTS
+}
+
+// Model names the backend reports, by what they can be used for
+export interface AvailableModels {
+  text: string[];
+  speech: string[];
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  readonly textModel: string;
+  readonly speechModel?: string;
+  readonly embeddingModel?: string;
+  setModels(models: Partial<ProviderModels>): void;
+  listModels(signal?: AbortSignal): Promise<AvailableModels>;
+  generateText(request: TextRequest): Promise<string>;
+  streamText(request: TextRequest): AsyncGenerator<StreamPart>;
+  // Resolves to base64 16-bit PCM at 24kHz, or undefined when the backend has no TTS
+  generateSpeech(request: SpeechRequest): Promise<string | undefined>;
+  // Resolves to the spoken text, or "" when there was no speech
+  transcribe(request: TranscriptionRequest): Promise<string>;
+  // One vector per text, or undefined when the backend has no embedding model
+  embed(request: EmbeddingRequest): Promise<number[][] | undefined>;
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthError, CircuitOpenError, NetworkError, QuotaError } from './errors';
+import { backoffDelay, CircuitBreaker, withRetry, type RetryPolicy } from './resilience';
+
+const POLICY: RetryPolicy = { retries: 2, baseDelay: 100, maxDelay: 250, jitter: 0 };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('backoffDelay', () => {
+  it('doubles on every attempt up to the maximum', () => {
+    expect([0, 1, 2, 3].map(attempt => backoffDelay(attempt, POLICY))).toEqual([100, 200, 250, 250]);
+  });
+
+  it('randomizes the jittered fraction of the delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(0, { ...POLICY, jitter: 0.5 })).toBe(50);
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(backoffDelay(0, { ...POLICY, jitter: 0.5 })).toBe(100);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable errors after the backoff delay', async () => {
+    const fn = vi.fn(async (attempt: number) => {
+      if (attempt < 2) throw new QuotaError('Slow down.');
+      return 'cake';
+    });
+    const result = withRetry(fn, POLICY);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1 + 200);
+    await expect(result).resolves.toBe('cake');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry with a typed error', async () => {
+    const fn = vi.fn(async () => { throw new TypeError('fetch failed'); });
+    const result = withRetry(fn, POLICY);
+    const rejected = expect(result).rejects.toBeInstanceOf(NetworkError);
+    await vi.runAllTimersAsync();
+    await rejected;
+    expect(fn).toHaveBeenCalledTimes(POLICY.retries + 1);
+  });
+
+  it('rethrows errors that are not retryable at once', async () => {
+    const fn = vi.fn(async () => { throw Object.assign(new Error('Bad key'), { status: 401 }); });
+    await expect(withRetry(fn, POLICY)).rejects.toBeInstanceOf(AuthError);
+    expect(fn).toHaveBeenCalledOnce();
+  });
+
+  it('stops waiting when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn(async () => { throw new QuotaError('Slow down.'); });
+    const result = withRetry(fn, POLICY, controller.signal);
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort(new Error('Stopped.'));
+    await expect(result).rejects.toThrow('Stopped.');
+    expect(fn).toHaveBeenCalledOnce();
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const down = () => Promise.reject(new NetworkError('Down.'));
+
+  it('opens after the consecutive failure threshold and fails fast', async () => {
+    const breaker = new CircuitBreaker('Test', { failureThreshold: 2, cooldown: 1000 });
+    await expect(breaker.run(down)).rejects.toBeInstanceOf(NetworkError);
+    await expect(breaker.run(down)).rejects.toBeInstanceOf(NetworkError);
+    const fn = vi.fn(async () => 'cake');
+    await expect(breaker.run(fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('lets a trial call through after the cooldown and closes on success', async () => {
+    const breaker = new CircuitBreaker('Test', { failureThreshold: 1, cooldown: 1000 });
+    await expect(breaker.run(down)).rejects.toThrow();
+    expect(breaker.isOpen).toBe(true);
+    vi.advanceTimersByTime(1000);
+    await expect(breaker.run(async () => 'cake')).resolves.toBe('cake');
+    expect(breaker.isOpen).toBe(false);
+  });
+
+  it('reopens when the trial call fails', async () => {
+    const breaker = new CircuitBreaker('Test', { failureThreshold: 1, cooldown: 1000 });
+    await expect(breaker.run(down)).rejects.toThrow();
+    vi.advanceTimersByTime(1000);
+    await expect(breaker.run(down)).rejects.toBeInstanceOf(NetworkError);
+    expect(breaker.isOpen).toBe(true);
+  });
+
+  it('does not count failures that are not retryable', async () => {
+    const breaker = new CircuitBreaker('Test', { failureThreshold: 1, cooldown: 1000 });
+    await expect(breaker.run(() => Promise.reject(new AuthError('Bad key.')))).rejects.toThrow();
+    expect(breaker.isOpen).toBe(false);
+  });
+
+  it('resets the count after a success', async () => {
+    const breaker = new CircuitBreaker('Test', { failureThreshold: 2, cooldown: 1000 });
+    await expect(breaker.run(down)).rejects.toThrow();
+    await breaker.run(async () => 'cake');
+    await expect(breaker.run(down)).rejects.toThrow();
+    expect(breaker.isOpen).toBe(false);
+  });
+});
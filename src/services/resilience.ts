@@ -0,0 +1,110 @@
+import { CircuitOpenError, classifyError } from "./errors";
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelay: number; // ms, doubled on every attempt
+  maxDelay: number;  // ms
+  jitter: number;    // 0..1, fraction of the delay that is randomized
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelay: 500,
+  maxDelay: 8000,
+  jitter: 0.5,
+};
+
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const delay = Math.min(policy.baseDelay * 2 ** attempt, policy.maxDelay);
+  return delay * (1 - policy.jitter) + Math.random() * delay * policy.jitter;
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures before the circuit opens
+  cooldown: number;         // ms to stay open before allowing a trial request
+}
+
+/**
+ * Stops hammering a backend that is clearly down. After `failureThreshold`
+ * consecutive retryable failures every call fails fast with
+ * CircuitOpenError until `cooldown` has passed; the next call is then let
+ * through as a trial and closes the circuit again if it succeeds.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+
+  constructor(readonly name: string, private options: CircuitBreakerOptions = { failureThreshold: 5, cooldown: 30000 }) {}
+
+  get isOpen() {
+    return this.failures >= this.options.failureThreshold && Date.now() - this.openedAt < this.options.cooldown;
+  }
+
+  // Throws if calls are currently being short-circuited
+  guard() {
+    if (this.isOpen) {
+      throw new CircuitOpenError(`${this.name} circuit is open after ${this.failures} consecutive failures.`);
+    }
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+  }
+
+  recordFailure(error: unknown) {
+    if (!classifyError(error).retryable) return;
+    this.failures++;
+    if (this.failures >= this.options.failureThreshold) this.openedAt = Date.now();
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    this.guard();
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Runs `fn` with exponential backoff and jitter. Only errors classified
+ * as retryable (quota, network, timeout) are retried; everything else is
+ * rethrown immediately as a typed GladosError.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const typed = classifyError(error);
+      if (!typed.retryable || attempt >= policy.retries) throw typed;
+      const delay = backoffDelay(attempt, policy);
+      console.warn(`${typed.kind} error. Retrying in ${Math.round(delay)}ms... (${policy.retries - attempt} retries left)`);
+      await sleep(delay, signal);
+    }
+  }
+}
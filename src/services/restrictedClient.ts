@@ -0,0 +1,17 @@
+import type { RestrictedContent } from "../types";
+import { apiFetch } from "./http";
+
+/**
+ * REST client for the files and command output above visitor clearance,
+ * under /api/restricted. The server sends what the current login may see.
+ */
+export class RestrictedClient {
+  constructor(private baseUrl = "/api") {}
+
+  async load(): Promise<RestrictedContent> {
+    const response = await apiFetch(`${this.baseUrl}/restricted`);
+    return response.json();
+  }
+}
+
+export const restricted = new RestrictedClient();
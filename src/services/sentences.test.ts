@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { splitSentences } from "./sentences";
+
+describe("splitSentences", () => {
+  it("returns finished sentences and keeps the unfinished tail", () => {
+    expect(splitSentences("Hello there, test subject. Are you ready for")).toEqual({
+      sentences: ["Hello there, test subject."],
+      rest: "Are you ready for",
+    });
+  });
+
+  it("waits for whitespace before treating punctuation as the end", () => {
+    // The chunk may stop inside "3.14" or before a closing quote
+    expect(splitSentences("The answer is definitely 3.")).toEqual({ sentences: [], rest: "The answer is definitely 3." });
+    expect(splitSentences("The answer is definitely 3.14 and")).toEqual({ sentences: [], rest: "The answer is definitely 3.14 and" });
+  });
+
+  it("joins segments shorter than the minimum with the next one", () => {
+    expect(splitSentences("No. That is not how science works. ").sentences).toEqual(["No. That is not how science works."]);
+    expect(splitSentences("No. Yes. ", 4).sentences).toEqual(["No. Yes."]);
+  });
+
+  it("ends a sentence after closing quotes, ellipses and line breaks", () => {
+    expect(splitSentences('She said "Goodbye." Then… she left. - one\n- two\n', 3)).toEqual({
+      sentences: ['She said "Goodbye."', "Then…", "she left.", "- one", "- two"],
+      rest: "",
+    });
+  });
+});
@@ -0,0 +1,27 @@
+const SENTENCE_END = /[.!?…]+["')\]*_]*\s+|\n+/g;
+
+/**
+ * Splits streamed text into speakable segments. Only sentences that are
+ * definitely finished are returned; the unfinished tail comes back as
+ * `rest` so it can be completed by the next chunk.
+ *
+ * Segments shorter than `minLength` are joined with the following one so
+ * TTS isn't called for fragments like "No." or list bullets.
+ */
+export function splitSentences(buffer: string, minLength = 24): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  SENTENCE_END.lastIndex = 0;
+  while ((match = SENTENCE_END.exec(buffer))) {
+    const end = match.index + match[0].length;
+    const segment = buffer.slice(start, end).trim();
+    if (segment.length >= minLength) {
+      sentences.push(segment);
+      start = end;
+    }
+  }
+
+  return { sentences, rest: buffer.slice(start) };
+}
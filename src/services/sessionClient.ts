@@ -0,0 +1,59 @@
+import type { Message, SessionDetail, SessionSummary, SessionUpdate } from "../types";
+import { apiFetch } from "./http";
+
+/**
+ * REST client for the SQLite-backed session store served under /api/sessions.
+ */
+export class SessionClient {
+  constructor(private baseUrl = "/api") {}
+
+  private async json<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await apiFetch(`${this.baseUrl}${path}`, init);
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
+  list(): Promise<SessionSummary[]> {
+    return this.json("/sessions");
+  }
+
+  create(title?: string): Promise<SessionDetail> {
+    return this.json("/sessions", { method: "POST", body: JSON.stringify({ title }) });
+  }
+
+  open(id: string): Promise<SessionDetail> {
+    return this.json(`/sessions/${encodeURIComponent(id)}`);
+  }
+
+  update(id: string, update: SessionUpdate): Promise<SessionDetail> {
+    return this.json(`/sessions/${encodeURIComponent(id)}`, { method: "PATCH", body: JSON.stringify(update) });
+  }
+
+  rename(id: string, title: string): Promise<SessionDetail> {
+    return this.update(id, { title });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.json(`/sessions/${encodeURIComponent(id)}`, { method: "DELETE" });
+  }
+
+  saveMessage(sessionId: string, message: Message): Promise<void> {
+    return this.json(`/sessions/${encodeURIComponent(sessionId)}/messages/${encodeURIComponent(message.id)}`, {
+      method: "PUT",
+      body: JSON.stringify(message),
+    });
+  }
+
+  deleteMessage(sessionId: string, messageId: string): Promise<void> {
+    return this.json(`/sessions/${encodeURIComponent(sessionId)}/messages/${encodeURIComponent(messageId)}`, { method: "DELETE" });
+  }
+
+  getSettings(): Promise<Record<string, unknown>> {
+    return this.json("/settings");
+  }
+
+  updateSettings(settings: Record<string, unknown>): Promise<Record<string, unknown>> {
+    return this.json("/settings", { method: "PATCH", body: JSON.stringify(settings) });
+  }
+}
+
+export const sessions = new SessionClient();
@@ -0,0 +1,16 @@
+import type { UsageReport } from "../types";
+import { apiFetch } from "./http";
+
+/**
+ * REST client for the server's daily token usage under /api/usage.
+ */
+export class UsageClient {
+  constructor(private baseUrl = "/api") {}
+
+  async report(): Promise<UsageReport> {
+    const response = await apiFetch(`${this.baseUrl}/usage`);
+    return response.json();
+  }
+}
+
+export const usage = new UsageClient();
@@ -0,0 +1,66 @@
+export interface VadOptions {
+  threshold: number;   // Input level (0 to 1) that counts as speech
+  minSpeechMs: number; // Speech must last this long before an utterance starts
+  silenceMs: number;   // Quiet for this long ends the utterance
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  threshold: 0.2,
+  minSpeechMs: 200,
+  silenceMs: 900,
+};
+
+// RMS level of a frame, amplified the same way as the playback visualizer
+export function frameLevel(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.min(1, Math.sqrt(sum / (samples.length || 1)) * 8);
+}
+
+/**
+ * Energy-based voice-activity detection. Feed it one level per audio frame
+ * with a running timestamp; it reports when an utterance starts and ends.
+ */
+export class VoiceActivityDetector {
+  private speaking = false;
+  private speechSince?: number;
+  private silenceSince?: number;
+
+  constructor(public options: VadOptions = { ...DEFAULT_VAD_OPTIONS }) {}
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  process(level: number, timeMs: number): 'start' | 'end' | undefined {
+    const { threshold, minSpeechMs, silenceMs } = this.options;
+
+    if (!this.speaking) {
+      if (level < threshold) {
+        this.speechSince = undefined;
+        return undefined;
+      }
+      this.speechSince ??= timeMs;
+      if (timeMs - this.speechSince < minSpeechMs) return undefined;
+      this.speaking = true;
+      this.silenceSince = undefined;
+      return 'start';
+    }
+
+    // A lower release threshold keeps trailing syllables in the utterance
+    if (level >= threshold * 0.6) {
+      this.silenceSince = undefined;
+      return undefined;
+    }
+    this.silenceSince ??= timeMs;
+    if (timeMs - this.silenceSince < silenceMs) return undefined;
+    this.reset();
+    return 'end';
+  }
+
+  reset() {
+    this.speaking = false;
+    this.speechSince = undefined;
+    this.silenceSince = undefined;
+  }
+}
@@ -0,0 +1,82 @@
+import { MicrophoneRecorder } from "./microphone";
+import { DEFAULT_VAD_OPTIONS, frameLevel, VoiceActivityDetector } from "./vad";
+import type { VoiceTransport } from "./voiceTransport";
+
+// Frames kept from before speech was detected so the first syllable isn't clipped
+const PRE_ROLL_FRAMES = 4;
+
+export interface VoiceSessionEvents {
+  onSpeechStart(): void; // The user started talking; the barge-in point
+  onSpeechEnd(): void;   // Utterance complete, transcript pending
+  onTranscript(text: string): void;
+  onError(error: unknown): void;
+}
+
+/**
+ * Hands-free conversation: listens continuously, cuts the microphone
+ * stream into utterances with voice-activity detection and sends each
+ * one through a VoiceTransport.
+ */
+export class VoiceSession {
+  private recorder: MicrophoneRecorder;
+  private vad = new VoiceActivityDetector();
+  private preRoll: Float32Array[] = [];
+  private elapsedMs = 0;
+
+  constructor(context: AudioContext, private transport: VoiceTransport, private events: VoiceSessionEvents) {
+    this.recorder = new MicrophoneRecorder(context, {
+      keepAudio: false,
+      onAudio: samples => this.handleAudio(samples),
+    });
+  }
+
+  get transportName() {
+    return this.transport.name;
+  }
+
+  async start() {
+    await this.recorder.start();
+  }
+
+  stop() {
+    this.recorder.cancel();
+    this.transport.close();
+    this.vad.reset();
+    this.preRoll = [];
+  }
+
+  // Live input level for visualization
+  level(): number {
+    return this.recorder.level();
+  }
+
+  // Raised while the assistant talks so its own voice leaking from the speakers doesn't interrupt it
+  setThreshold(threshold = DEFAULT_VAD_OPTIONS.threshold) {
+    this.vad.options = { ...this.vad.options, threshold };
+  }
+
+  private handleAudio(samples: Float32Array) {
+    const sampleRate = this.recorder.sampleRate;
+    this.elapsedMs += (samples.length / sampleRate) * 1000;
+    const transition = this.vad.process(frameLevel(samples), this.elapsedMs);
+
+    if (transition === 'start') {
+      this.preRoll.forEach(frame => this.transport.send(frame, sampleRate));
+      this.preRoll = [];
+      this.transport.send(samples, sampleRate);
+      this.events.onSpeechStart();
+    } else if (transition === 'end') {
+      this.transport.send(samples, sampleRate);
+      this.events.onSpeechEnd();
+      this.transport.finish().then(
+        text => this.events.onTranscript(text.trim()),
+        error => this.events.onError(error)
+      );
+    } else if (this.vad.isSpeaking) {
+      this.transport.send(samples, sampleRate);
+    } else {
+      this.preRoll.push(samples);
+      if (this.preRoll.length > PRE_ROLL_FRAMES) this.preRoll.shift();
+    }
+  }
+}
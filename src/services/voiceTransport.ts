@@ -0,0 +1,156 @@
+import { bytesToBase64, encodeWav, floatToPcm16 } from "../lib/wav";
+import { createError, NetworkError, type GladosErrorKind } from "./errors";
+import type { GladosApi } from "./gladosService";
+
+/**
+ * Carries hands-free utterances from the microphone to a speech
+ * recognizer, one at a time. Abstract so a local websocket stand-in can
+ * replace a live streaming API in tests.
+ */
+export interface VoiceTransport {
+  readonly name: string;
+  open(): Promise<void>;
+  // Streams audio for the current utterance
+  send(samples: Float32Array, sampleRate: number): void;
+  // Ends the current utterance and resolves to its transcript
+  finish(): Promise<string>;
+  // Drops the current utterance
+  cancel(): void;
+  close(): void;
+}
+
+// Wire protocol of WebSocketVoiceTransport, shared with server/voiceSocket.ts
+export type VoiceClientMessage =
+  | { type: 'audio'; data: string; sampleRate: number } // base64 16-bit mono PCM
+  | { type: 'end' }
+  | { type: 'cancel' };
+
+export type VoiceServerMessage =
+  | { type: 'transcript'; text: string }
+  | { type: 'error'; kind: GladosErrorKind; message: string };
+
+/**
+ * Buffers each utterance locally and posts it to /api/transcribe when it
+ * ends. Needs nothing beyond the regular API.
+ */
+export class HttpVoiceTransport implements VoiceTransport {
+  readonly name = "http";
+  private chunks: Float32Array[] = [];
+  private sampleRate = 24000;
+
+  constructor(private api: Pick<GladosApi, "transcribe">) {}
+
+  async open() {}
+
+  send(samples: Float32Array, sampleRate: number) {
+    this.chunks.push(samples);
+    this.sampleRate = sampleRate;
+  }
+
+  async finish(): Promise<string> {
+    const samples = new Float32Array(this.chunks.reduce((sum, c) => sum + c.length, 0));
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this.chunks = [];
+    if (samples.length === 0) return "";
+    return this.api.transcribe(bytesToBase64(encodeWav(samples, this.sampleRate)), "audio/wav");
+  }
+
+  cancel() {
+    this.chunks = [];
+  }
+
+  close() {
+    this.cancel();
+  }
+}
+
+export function defaultVoiceSocketUrl(): string {
+  const protocol = location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${location.host}/api/voice`;
+}
+
+/**
+ * Streams audio over a WebSocket while the user is still talking, so the
+ * server already has the utterance when it ends.
+ */
+export class WebSocketVoiceTransport implements VoiceTransport {
+  readonly name = "websocket";
+  private socket?: WebSocket;
+  // Transcripts arrive in the order utterances were finished
+  private pending: { resolve: (text: string) => void; reject: (error: Error) => void }[] = [];
+
+  constructor(private url = defaultVoiceSocketUrl()) {}
+
+  open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      socket.onopen = () => {
+        this.socket = socket;
+        resolve();
+      };
+      socket.onerror = () => reject(new NetworkError(`Voice connection to ${this.url} failed`));
+      socket.onmessage = (event) => this.handleMessage(JSON.parse(event.data) as VoiceServerMessage);
+      socket.onclose = () => {
+        this.socket = undefined;
+        this.pending.splice(0).forEach(p => p.reject(new NetworkError("Voice connection closed")));
+      };
+    });
+  }
+
+  private handleMessage(message: VoiceServerMessage) {
+    const next = this.pending.shift();
+    if (!next) return;
+    if (message.type === 'transcript') next.resolve(message.text);
+    else next.reject(createError(message.kind, message.message));
+  }
+
+  private post(message: VoiceClientMessage): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  send(samples: Float32Array, sampleRate: number) {
+    this.post({ type: 'audio', data: bytesToBase64(floatToPcm16(samples)), sampleRate });
+  }
+
+  finish(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.post({ type: 'end' })) {
+        reject(new NetworkError("Voice connection is not open"));
+        return;
+      }
+      this.pending.push({ resolve, reject });
+    });
+  }
+
+  cancel() {
+    this.post({ type: 'cancel' });
+  }
+
+  close() {
+    this.socket?.close();
+    this.socket = undefined;
+  }
+}
+
+/**
+ * Opens the streaming transport, falling back to plain HTTP when the
+ * server has no voice socket (e.g. behind a proxy without upgrades).
+ */
+export async function openVoiceTransport(api: Pick<GladosApi, "transcribe">): Promise<VoiceTransport> {
+  const socket = new WebSocketVoiceTransport();
+  try {
+    await socket.open();
+    return socket;
+  } catch (error) {
+    console.warn("Voice socket unavailable, falling back to HTTP:", error);
+    const http = new HttpVoiceTransport(api);
+    await http.open();
+    return http;
+  }
+}
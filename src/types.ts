@@ -0,0 +1,195 @@
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string; // As sent to the model; text files are normalized to text/plain
+  size: number;     // Bytes before encoding
+  data?: string;    // Base64. Omitted when trimmed from history to stay within the inline budget
+}
+
+export interface Message {
+  id: string;
+  role: 'user' | 'glados';
+  content: string;
+  timestamp: number;
+  isSecret?: boolean;
+  isLocal?: boolean; // Produced by a terminal command, not the model
+  attachments?: Attachment[];
+  metrics?: ExchangeMetrics; // Cost and timing of the reply that produced this message
+  citations?: Citation[];    // Knowledge base passages the reply cited
+}
+
+// A knowledge base passage a reply drew on, numbered as in the reply's [n] markers
+export interface Citation {
+  index: number;
+  documentId: string;
+  name: string;
+  excerpt: string;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  bytes: number;
+  chunks: number;
+  embeddedChunks: number; // Chunks with a vector from the current embedding model
+  clearance?: Clearance;  // Needed to retrieve it; unset for everyone
+  builtIn?: boolean;
+  createdAt: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+}
+
+// One user message and everything the model did to answer it
+export interface ExchangeMetrics extends TokenUsage {
+  requests: number;          // Model calls that reported usage, including tool rounds and the mood classifier
+  timeToFirstToken?: number; // ms until the first text arrived
+  totalTime: number;         // ms from request to the last audio chunk
+  ttsRequests: number;       // Speech synthesis calls, not counting cache hits
+  ttsLatency: number;        // Total ms spent waiting on those calls
+  retries: number;           // Retried text and speech requests
+}
+
+// Token totals for one calendar day (UTC), kept by the server
+export interface DailyUsage extends TokenUsage {
+  date: string; // YYYY-MM-DD
+  requests: number;
+}
+
+export interface UsageReport {
+  today: DailyUsage;
+  dailyBudget?: number; // Tokens per day; unset for no budget
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+export interface SessionUpdate {
+  title?: string;
+  personaId?: string | null;
+  memory?: ConversationMemory | null;
+  filesystem?: FilesystemState;
+}
+
+export interface SessionDetail extends SessionSummary {
+  personaId?: string;
+  memory?: ConversationMemory;
+  filesystem?: FilesystemState;
+  messages: Message[];
+}
+
+// Running summary of the turns that no longer fit in the context window
+export interface ConversationMemory {
+  summary: string;
+  throughId: string;        // Last message covered; only later messages are sent verbatim
+  summarizedTurns: number;  // Messages rolled into the summary so far
+  updatedAt: number;
+}
+
+// Who may see a command, file or document, lowest first; visitors aren't logged in
+export type Clearance = 'visitor' | 'subject' | 'maintenance' | 'admin';
+
+// A terminal user account as the server reports it; passwords never leave the server
+export interface Account {
+  name: string;
+  clearance: Clearance;
+}
+
+// A successful LOGIN or SU; the token authenticates later requests
+export interface Login {
+  token: string;
+  account: Account;
+}
+
+// A browser's anonymous visitor account, with the password it logs in again with
+export interface VisitorPass extends Login {
+  password: string;
+}
+
+// A file or directory of the virtual filesystem, keyed by absolute path
+export interface FsEntry {
+  type: 'file' | 'dir';
+  owner: string;
+  clearance: Clearance;
+  modifiedAt: number;
+  content?: string; // Files only
+}
+
+// A session's working directory and its changes over the seeded filesystem
+export interface FilesystemState {
+  cwd: string;
+  changes: Record<string, FsEntry | null>; // null removes a seeded entry
+}
+
+// Output of a restricted command, kept on the server until a login may see it
+export interface CommandResponse {
+  content: string;  // Markdown shown in the terminal
+  spoken?: string;
+  hint?: string;    // Speech style for `spoken`
+}
+
+// What a login may see above visitor clearance
+export interface RestrictedContent {
+  files: Record<string, FsEntry>;                            // Seeded entries by path
+  commands: Record<string, Record<string, CommandResponse>>; // By command name, then outcome
+}
+
+// The test chamber being attempted and how it's going
+export interface ChamberRun {
+  chamberId: string;
+  step: number;          // Index into the chamber's steps
+  score: number;
+  strikes: number;       // Wrong and late answers so far
+  hinted?: boolean;      // HINT was used on the current step, which halves its points
+  stepStartedAt: number; // Timed steps count from here
+}
+
+export interface ChamberRecord {
+  attempts: number;
+  passed: number;
+  failed: number;
+  bestScore: number;
+  lastPlayedAt: number;
+}
+
+// One user's test chamber progress; kept with the settings, so it outlasts sessions
+export interface TestProgress {
+  run?: ChamberRun;
+  chambers: Record<string, ChamberRecord>; // By chamber id
+}
+
+export interface PersonaProfile {
+  id: string;
+  name: string;
+  systemPrompt: string; // Empty for the stock assistant persona
+  ttsStyle: string;     // Personality hint for speech synthesis
+  voice: string;        // Prebuilt TTS voice name
+  color: string;        // NeuralWeb color as "r, g, b"
+  greeting: string;
+  builtIn?: boolean;
+}
+
+// Settings that can be changed while the app runs (settings drawer, CONFIG SET); kept by the server
+export interface RuntimeConfig {
+  textModel: string;
+  speechModel: string;   // Empty when the backend has no TTS
+  voice: string;         // Prebuilt TTS voice of the stock assistant persona and server-side speech
+  playbackRate: number;  // Speed of synthesized speech
+  detune: number;        // Pitch shift of synthesized speech, in cents
+  fallbackPitch: number; // Browser speech synthesis, when there is no synthesized audio
+  fallbackRate: number;
+}
+
+export interface ConfigReport {
+  provider: string;
+  config: RuntimeConfig;
+  defaults: RuntimeConfig;
+}
+